@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX `user_start_coord_lat_start_coord_lng_idx` ON `user`(`start_coord_lat`, `start_coord_lng`);
+
+-- CreateIndex
+CREATE INDEX `user_company_coord_lat_company_coord_lng_idx` ON `user`(`company_coord_lat`, `company_coord_lng`);
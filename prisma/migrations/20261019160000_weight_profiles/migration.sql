@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `weight_profile` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `weights` JSON NOT NULL,
+    `cutoffs` JSON NOT NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT false,
+    `created_by_id` VARCHAR(191) NULL,
+    `dateCreated` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `weight_profile_created_by_id_idx`(`created_by_id`),
+    INDEX `weight_profile_is_active_idx`(`is_active`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `request_outcome` (
+    `id` VARCHAR(191) NOT NULL,
+    `requestId` VARCHAR(191) NOT NULL,
+    `fromUserId` VARCHAR(191) NOT NULL,
+    `toUserId` VARCHAR(191) NOT NULL,
+    `outcome` ENUM('ACCEPTED', 'DECLINED') NOT NULL,
+    `features` JSON NULL,
+    `dateCreated` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `request_outcome_requestId_key`(`requestId`),
+    INDEX `request_outcome_fromUserId_idx`(`fromUserId`),
+    INDEX `request_outcome_toUserId_idx`(`toUserId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
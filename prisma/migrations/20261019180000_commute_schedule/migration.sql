@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `schedule` JSON NULL;
+
+-- Backfill every day a user goes in with their single start and end time (index 0 is Sunday)
+UPDATE `user`
+SET `schedule` = JSON_ARRAY(
+        IF(SUBSTRING(`days_working`, 1, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL),
+        IF(SUBSTRING(`days_working`, 3, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL),
+        IF(SUBSTRING(`days_working`, 5, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL),
+        IF(SUBSTRING(`days_working`, 7, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL),
+        IF(SUBSTRING(`days_working`, 9, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL),
+        IF(SUBSTRING(`days_working`, 11, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL),
+        IF(SUBSTRING(`days_working`, 13, 1) = '1',
+           JSON_OBJECT('arrive', HOUR(`start_time`) * 60 + MINUTE(`start_time`),
+                       'leave', HOUR(`end_time`) * 60 + MINUTE(`end_time`)),
+           NULL)
+    )
+WHERE `start_time` IS NOT NULL AND `end_time` IS NOT NULL AND `days_working` != '';
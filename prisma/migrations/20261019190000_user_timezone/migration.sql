@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `timezone` VARCHAR(191) NOT NULL DEFAULT 'America/New_York';
+
+-- Times used to be saved as the UTC time of the moment picked in the browser, and the profile
+-- form read them back on 1970-01-01, when New York is on standard time (UTC-5). Shift them by
+-- the same five hours so they hold the wall-clock times users currently see in their profile.
+-- This assumes every time was picked in a browser on New York time, as the app's Boston users'
+-- were, and that it's read back on standard time. Times picked elsewhere are shifted by the
+-- wrong amount, and users who saved them re-enter them in the profile form, which saves
+-- wall-clock times from then on.
+UPDATE `user`
+SET `start_time` = SEC_TO_TIME(MOD(TIME_TO_SEC(`start_time`) + 19 * 3600, 24 * 3600))
+WHERE `start_time` IS NOT NULL;
+
+UPDATE `user`
+SET `end_time` = SEC_TO_TIME(MOD(TIME_TO_SEC(`end_time`) + 19 * 3600, 24 * 3600))
+WHERE `end_time` IS NOT NULL;
+
+-- Same shift for each day of the per-day schedules (1140 = 1440 - 300 minutes)
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[0].arrive', MOD(JSON_EXTRACT(`schedule`, '$[0].arrive') + 1140, 1440),
+        '$[0].leave', MOD(JSON_EXTRACT(`schedule`, '$[0].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[0]')) = 'OBJECT';
+
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[1].arrive', MOD(JSON_EXTRACT(`schedule`, '$[1].arrive') + 1140, 1440),
+        '$[1].leave', MOD(JSON_EXTRACT(`schedule`, '$[1].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[1]')) = 'OBJECT';
+
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[2].arrive', MOD(JSON_EXTRACT(`schedule`, '$[2].arrive') + 1140, 1440),
+        '$[2].leave', MOD(JSON_EXTRACT(`schedule`, '$[2].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[2]')) = 'OBJECT';
+
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[3].arrive', MOD(JSON_EXTRACT(`schedule`, '$[3].arrive') + 1140, 1440),
+        '$[3].leave', MOD(JSON_EXTRACT(`schedule`, '$[3].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[3]')) = 'OBJECT';
+
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[4].arrive', MOD(JSON_EXTRACT(`schedule`, '$[4].arrive') + 1140, 1440),
+        '$[4].leave', MOD(JSON_EXTRACT(`schedule`, '$[4].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[4]')) = 'OBJECT';
+
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[5].arrive', MOD(JSON_EXTRACT(`schedule`, '$[5].arrive') + 1140, 1440),
+        '$[5].leave', MOD(JSON_EXTRACT(`schedule`, '$[5].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[5]')) = 'OBJECT';
+
+UPDATE `user`
+SET `schedule` = JSON_SET(`schedule`,
+        '$[6].arrive', MOD(JSON_EXTRACT(`schedule`, '$[6].arrive') + 1140, 1440),
+        '$[6].leave', MOD(JSON_EXTRACT(`schedule`, '$[6].leave') + 1140, 1440))
+WHERE JSON_TYPE(JSON_EXTRACT(`schedule`, '$[6]')) = 'OBJECT';
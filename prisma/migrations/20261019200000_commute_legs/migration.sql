@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `legs` ENUM('BOTH', 'TO_WORK', 'FROM_WORK') NOT NULL DEFAULT 'BOTH';
+
+-- CreateTable
+CREATE TABLE `carpool_member` (
+    `group_id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `leg` ENUM('BOTH', 'TO_WORK', 'FROM_WORK') NOT NULL,
+
+    UNIQUE INDEX `carpool_member_user_id_key`(`user_id`),
+    PRIMARY KEY (`group_id`, `user_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Everyone already in a group was matched for both legs
+INSERT INTO `carpool_member` (`group_id`, `user_id`, `leg`)
+SELECT `carpoolId`, `id`, 'BOTH' FROM `user` WHERE `carpoolId` IS NOT NULL;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `can_drive` BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE `group` ADD COLUMN `driver_id` VARCHAR(191) NULL;
+
+-- Until now every group's driver was its only member with the DRIVER role
+UPDATE `group` g
+SET g.`driver_id` = (
+    SELECT u.`id` FROM `user` u
+    WHERE u.`carpoolId` = g.`id` AND u.`role` = 'DRIVER'
+    LIMIT 1
+);
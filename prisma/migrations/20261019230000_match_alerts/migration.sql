@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `filter_preset` ADD COLUMN `alerts` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `filter_preset_alerts_idx` ON `filter_preset`(`alerts`);
+
+-- CreateTable
+CREATE TABLE `match_alert` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `match_id` VARCHAR(191) NOT NULL,
+    `preset_id` VARCHAR(191) NULL,
+    `seen` BOOLEAN NOT NULL DEFAULT false,
+    `dateCreated` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `match_alert_match_id_idx`(`match_id`),
+    INDEX `match_alert_preset_id_idx`(`preset_id`),
+    UNIQUE INDEX `match_alert_user_id_match_id_key`(`user_id`, `match_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `weekly_digest` BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN `digest_sent_at` DATETIME(3) NULL;
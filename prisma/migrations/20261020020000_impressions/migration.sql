@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE `impression` (
+    `user_id` VARCHAR(191) NOT NULL,
+    `day` DATE NOT NULL,
+    `count` INTEGER NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (`user_id`, `day`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE `experiment` (
+    `id` VARCHAR(191) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `variants` JSON NOT NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT false,
+    `dateCreated` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `experiment_key_key`(`key`),
+    INDEX `experiment_is_active_idx`(`is_active`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `experiment_assignment` (
+    `experiment_id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `variant` VARCHAR(191) NOT NULL,
+    `dateCreated` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `experiment_assignment_user_id_idx`(`user_id`),
+    PRIMARY KEY (`experiment_id`, `user_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
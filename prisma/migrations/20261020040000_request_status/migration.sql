@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE `request` ADD COLUMN `status` ENUM('PENDING', 'ACCEPTED', 'DECLINED', 'WITHDRAWN', 'EXPIRED') NOT NULL DEFAULT 'PENDING',
+    ADD COLUMN `dateResolved` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `request_status_idx` ON `request`(`status`);
+
+-- Accepted requests were kept before statuses existed, carry their recorded answer over
+UPDATE `request` INNER JOIN `request_outcome` ON `request_outcome`.`requestId` = `request`.`id`
+    SET `request`.`status` = `request_outcome`.`outcome`,
+        `request`.`dateResolved` = `request_outcome`.`dateCreated`;
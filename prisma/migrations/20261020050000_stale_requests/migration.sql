@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE `request` ADD COLUMN `reminderSentAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `request_policy` (
+    `id` INTEGER NOT NULL DEFAULT 1,
+    `reminder_after_days` INTEGER NOT NULL,
+    `expire_after_days` INTEGER NOT NULL,
+    `date_updated` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `rate_limit_hit` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `procedure` VARCHAR(191) NOT NULL,
+    `dateCreated` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `rate_limit_hit_user_id_idx`(`user_id`),
+    INDEX `rate_limit_hit_dateCreated_idx`(`dateCreated`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `alerts_pending_at` DATETIME(3) NULL;
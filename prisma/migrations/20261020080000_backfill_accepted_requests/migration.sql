@@ -0,0 +1,12 @@
+-- Requests accepted before request_outcome existed were left PENDING by the request_status
+-- backfill. Unanswered requests were kept as PENDING too, so only a request whose users went on
+-- to share a carpool is known to have been accepted; the rest stay PENDING. When they were
+-- accepted isn't known, so dateResolved stays empty.
+UPDATE `request`
+    INNER JOIN `user` AS `fromUser` ON `fromUser`.`id` = `request`.`fromUserId`
+    INNER JOIN `user` AS `toUser` ON `toUser`.`id` = `request`.`toUserId`
+    LEFT JOIN `request_outcome` ON `request_outcome`.`requestId` = `request`.`id`
+    SET `request`.`status` = 'ACCEPTED'
+    WHERE `request`.`status` = 'PENDING'
+        AND `request_outcome`.`id` IS NULL
+        AND `fromUser`.`carpoolId` = `toUser`.`carpoolId`;
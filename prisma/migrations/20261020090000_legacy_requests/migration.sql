@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `request` ADD COLUMN `legacy` BOOLEAN NOT NULL DEFAULT false;
+
+-- Requests still pending now were sent before follow-ups existed, expire them without emails
+UPDATE `request` SET `legacy` = true WHERE `status` = 'PENDING';
@@ -0,0 +1,54 @@
+import { PrismaClient, Role, Status } from "@prisma/client";
+import { fetchCommuteRoute } from "../src/server/routing/directions";
+
+/**
+ * Looks up the commute route of every driver who hasn't got one stored, so they show up in
+ * riders' corridor and route matching. Saving a profile with a new commute clears the driver's
+ * route instead of looking it up while they wait, so this is meant to be scheduled (e.g. a cron
+ * job running `yarn routes:backfill` every few minutes); drivers who couldn't be routed are left
+ * without one, and the next run retries them.
+ */
+
+const prisma = new PrismaClient();
+
+const main = async () => {
+  const drivers = await prisma.user.findMany({
+    where: {
+      commuteRoute: null,
+      isOnboarded: true,
+      status: Status.ACTIVE,
+      OR: [{ role: Role.DRIVER }, { role: Role.RIDER, canDrive: true }],
+    },
+    select: {
+      id: true,
+      startCoordLng: true,
+      startCoordLat: true,
+      companyCoordLng: true,
+      companyCoordLat: true,
+    },
+  });
+
+  let routed = 0;
+  // one at a time, to stay well within the directions API's rate limit
+  for (const driver of drivers) {
+    const commuteRoute = await fetchCommuteRoute(driver);
+    if (!commuteRoute) {
+      continue;
+    }
+    await prisma.user.update({
+      where: { id: driver.id },
+      data: { commuteRoute },
+    });
+    routed++;
+  }
+  console.log(`Stored routes for ${routed} of ${drivers.length} drivers`);
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,130 @@
+import { PrismaClient, Status, User } from "@prisma/client";
+import _ from "lodash";
+import { performance } from "perf_hooks";
+import { CandidateFilters, findCandidates } from "../src/server/candidates";
+import { defaultFilterInputs, scoreUsers } from "../src/utils/recommendation";
+
+/**
+ * Compares the original recommendation pipeline (load every active user, score in memory,
+ * re-find each user) with database-side candidate prefiltering, using whatever is in the
+ * database. Run `yarn seed` first, then `yarn benchmark:recommendations`.
+ */
+
+const prisma = new PrismaClient();
+
+/** Number of onboarded users to generate recommendations for */
+const SAMPLE_SIZE = 50;
+/** Runs per user and strategy, after one warm-up run */
+const RUNS = 5;
+
+type Strategy = (user: User, filters: CandidateFilters) => Promise<number>;
+
+/**
+ * The pipeline before prefiltering: every onboarded active user is loaded and scored, and each
+ * recommendation is matched back to its user with a linear search.
+ */
+const loadAllStrategy: Strategy = async (user, filters) => {
+  const users = await prisma.user.findMany({
+    where: {
+      id: { not: user.id },
+      isOnboarded: true,
+      status: Status.ACTIVE,
+    },
+  });
+  const recs = await scoreUsers(user, users, filters, "any");
+  const sortedUsers = recs.map((rec) =>
+    users.find((other) => other.id === rec.id)
+  );
+  return sortedUsers.length;
+};
+
+/** The current pipeline, as used by `recommendationsRouter.me` */
+const prefilterStrategy: Strategy = async (user, filters) => {
+  const { currentUser, candidates } = await findCandidates(
+    prisma,
+    user.id,
+    filters
+  );
+  const recs = await scoreUsers(currentUser, candidates, filters, "any");
+  const usersById = _.keyBy(candidates, "id");
+  return recs.map((rec) => usersById[rec.id]).length;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Times a strategy for every sampled user.
+ *
+ * @returns the median time in milliseconds and the total number of recommendations
+ */
+const timeStrategy = async (
+  strategy: Strategy,
+  users: User[],
+  filtersFor: (user: User) => CandidateFilters
+) => {
+  const times: number[] = [];
+  let recommendations = 0;
+  for (const user of users) {
+    const filters = filtersFor(user);
+    recommendations += await strategy(user, filters);
+    for (let i = 0; i < RUNS; i++) {
+      const start = performance.now();
+      await strategy(user, filters);
+      times.push(performance.now() - start);
+    }
+  }
+  return { medianMs: median(times), recommendations };
+};
+
+const main = async () => {
+  const users = await prisma.user.findMany({
+    where: { isOnboarded: true, status: Status.ACTIVE },
+    take: SAMPLE_SIZE,
+  });
+  const total = await prisma.user.count();
+  console.log(
+    `Benchmarking ${users.length} users against ${total} users in the database`
+  );
+
+  const scenarios: Record<string, (user: User) => CandidateFilters> = {
+    "default filters": (user) => ({
+      ...defaultFilterInputs(user),
+      favorites: false,
+      messaged: true,
+    }),
+    "5 mile distance filters": (user) => ({
+      ...defaultFilterInputs(user),
+      startDistance: 5,
+      endDistance: 5,
+      favorites: false,
+      messaged: true,
+    }),
+  };
+
+  const results = [];
+  for (const [scenario, filtersFor] of Object.entries(scenarios)) {
+    const before = await timeStrategy(loadAllStrategy, users, filtersFor);
+    const after = await timeStrategy(prefilterStrategy, users, filtersFor);
+    results.push({
+      scenario,
+      "load all (ms)": before.medianMs.toFixed(2),
+      "prefilter (ms)": after.medianMs.toFixed(2),
+      speedup: `${(before.medianMs / after.medianMs).toFixed(2)}x`,
+      // both pipelines must recommend the same users
+      recommendations: `${before.recommendations} / ${after.recommendations}`,
+    });
+  }
+  console.table(results);
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -109,6 +109,81 @@ templates = [
 
         To view your group, visit: https://www.carpoolnu.com
         """
+    },
+    {
+        "TemplateName": "MatchAlertTemplate",
+        "SubjectPart": "New Carpool Match",
+        "HtmlPart": """
+        <p>Hello {{preferredName}},</p>
+        <p>{{OtherUser}} is new to your matches on Carpool NU and fits your saved search <strong>{{presetName}}</strong>.</p>
+        <p><a href="https://www.carpoolnu.com">Click here to see their profile</a></p>
+        """,
+        "TextPart": """
+        Hello {{preferredName}},
+
+        {{OtherUser}} is new to your matches on Carpool NU and fits your saved search "{{presetName}}".
+
+        To see their profile, visit: https://www.carpoolnu.com
+        """
+    },
+    {
+        "TemplateName": "WeeklyDigestTemplate",
+        "SubjectPart": "Your Weekly Carpool Matches",
+        "HtmlPart": """
+        <p>Hello {{preferredName}},</p>
+        <p>Here are your top carpool matches this week:</p>
+        <ul>
+        {{#each matches}}
+        <li><strong>{{name}}</strong> at {{companyName}}, shared days: {{sharedDays}}</li>
+        {{/each}}
+        </ul>
+        <p><a href="https://www.carpoolnu.com">Click here to send them a request</a></p>
+        <p>You can turn off these emails on your profile's Account page.</p>
+        """,
+        "TextPart": """
+        Hello {{preferredName}},
+
+        Here are your top carpool matches this week:
+        {{#each matches}}
+        - {{name}} at {{companyName}}, shared days: {{sharedDays}}
+        {{/each}}
+
+        To send them a request, visit: https://www.carpoolnu.com
+
+        You can turn off these emails on your profile's Account page.
+        """
+    },
+    {
+        "TemplateName": "RequestReminderTemplate",
+        "SubjectPart": "A Carpool Request Is Waiting for You",
+        "HtmlPart": """
+        <p>Hello {{preferredName}},</p>
+        <p>{{OtherUser}} sent you a carpool request {{daysPending}} days ago and is waiting for your answer. The request expires in {{daysLeft}} days.</p>
+        <p><a href="https://www.carpoolnu.com">Click here to accept or decline it</a></p>
+        """,
+        "TextPart": """
+        Hello {{preferredName}},
+
+        {{OtherUser}} sent you a carpool request {{daysPending}} days ago and is waiting for your answer. The request expires in {{daysLeft}} days.
+
+        To accept or decline it, visit: https://www.carpoolnu.com
+        """
+    },
+    {
+        "TemplateName": "RequestExpiredTemplate",
+        "SubjectPart": "Your Carpool Request Expired",
+        "HtmlPart": """
+        <p>Hello {{preferredName}},</p>
+        <p>{{OtherUser}} didn't answer your carpool request within {{daysPending}} days, so it has expired.</p>
+        <p><a href="https://www.carpoolnu.com">Click here to find someone else to carpool with</a></p>
+        """,
+        "TextPart": """
+        Hello {{preferredName}},
+
+        {{OtherUser}} didn't answer your carpool request within {{daysPending}} days, so it has expired.
+
+        To find someone else to carpool with, visit: https://www.carpoolnu.com
+        """
     }
 ]
 
@@ -0,0 +1,125 @@
+import { PrismaClient, RequestStatus, Status, User } from "@prisma/client";
+import {
+  defaultFilterInputs,
+  defaultScoringProfile,
+  ScoringProfile,
+  scoreUsers,
+} from "../src/utils/recommendation";
+import { evaluateRankings, knownMatches } from "../src/utils/evaluation";
+import { parseWeightProfile } from "../src/server/weightProfiles";
+
+/**
+ * Replays the accepted requests and carpool groups in the database against the recommendation scorer
+ * and reports how highly each user's real matches were ranked. Run `yarn seed` first, then
+ * `yarn evaluate:recommendations`. Every stored weight profile is evaluated next to the
+ * built-in defaults, so a profile can be checked before it is activated.
+ */
+
+const prisma = new PrismaClient();
+
+/** Recommendation list lengths to report recall at */
+const KS = [1, 5, 10, 20];
+/** Sorts that rank by match quality rather than a single measurement */
+const SORTS = ["any", "mutual"];
+
+/**
+ * Ranks every other user for each user with known matches, the way `recommendationsRouter.me`
+ * would with the user's default filters.
+ */
+const rankAll = async (
+  users: User[],
+  userIds: Set<string>,
+  sort: string,
+  profile: ScoringProfile
+) => {
+  const rankings = new Map<string, string[]>();
+  for (const user of users.filter((u) => userIds.has(u.id))) {
+    const others = users.filter((other) => other.id !== user.id);
+    const recs = await scoreUsers(
+      user,
+      others,
+      defaultFilterInputs(user),
+      sort,
+      undefined,
+      profile
+    );
+    rankings.set(
+      user.id,
+      recs.map((rec) => rec.id)
+    );
+  }
+  return rankings;
+};
+
+const main = async () => {
+  const [dbUsers, requests, groups, storedProfiles] = await Promise.all([
+    prisma.user.findMany({
+      where: { isOnboarded: true, status: Status.ACTIVE },
+    }),
+    // pending requests haven't turned into a match yet, and the rest never will
+    prisma.request.findMany({
+      where: { status: RequestStatus.ACCEPTED },
+      select: { fromUserId: true, toUserId: true },
+    }),
+    prisma.carpoolGroup.findMany({
+      select: { users: { select: { id: true } } },
+    }),
+    prisma.weightProfile.findMany({ orderBy: { id: "asc" } }),
+  ]);
+
+  // Group members are hidden from each other once they share a carpool, so replay the
+  // moment before they joined
+  const users = dbUsers.map((user) => ({ ...user, carpoolId: null }));
+  const matches = knownMatches(
+    requests,
+    groups.map((group) => group.users.map((user) => user.id))
+  );
+  const userIds = new Set(users.map((user) => user.id));
+  const evaluatedIds = new Set(
+    Array.from(matches.keys()).filter((id) => userIds.has(id))
+  );
+  console.log(
+    `Evaluating ${evaluatedIds.size} users with ${requests.length} requests and ${groups.length} carpool groups`
+  );
+
+  const profiles: [string, ScoringProfile][] = [
+    ["default", defaultScoringProfile],
+  ];
+  storedProfiles.forEach((stored) => {
+    const profile = parseWeightProfile(stored);
+    if (profile) {
+      profiles.push([
+        `v${stored.id} ${stored.name}${stored.isActive ? " (active)" : ""}`,
+        profile,
+      ]);
+    }
+  });
+
+  const results = [];
+  for (const [name, profile] of profiles) {
+    for (const sort of SORTS) {
+      const rankings = await rankAll(users, evaluatedIds, sort, profile);
+      const report = evaluateRankings(rankings, matches, KS);
+      results.push({
+        profile: name,
+        sort,
+        ...Object.fromEntries(
+          KS.map((k) => [`recall@${k}`, report.recallAt[k].toFixed(3)])
+        ),
+        mrr: report.mrr.toFixed(3),
+        // matches the filters would never show, e.g. two riders in the same group
+        unranked: `${(report.unranked * 100).toFixed(1)}%`,
+      });
+    }
+  }
+  console.table(results);
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
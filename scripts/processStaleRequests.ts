@@ -0,0 +1,34 @@
+import { PrismaClient } from "@prisma/client";
+import { SESClient } from "@aws-sdk/client-ses";
+import { processStaleRequests } from "../src/server/staleRequests";
+
+/**
+ * Reminds recipients of requests they haven't answered and expires requests left pending too
+ * long, emailing their senders. Meant to be scheduled daily (e.g. a cron job running
+ * `yarn requests:stale`); each request is reminded about and expired at most once, so an extra
+ * run doesn't email anyone twice. Requests sent before follow-ups existed expire without
+ * emails, and each run's emails are capped so a backlog goes out over several runs.
+ */
+
+const prisma = new PrismaClient();
+const sesClient = new SESClient({
+  region: process.env.REGION_AWS,
+  credentials: {
+    accessKeyId: process.env.ACCESS_KEY_ID_AWS ?? "",
+    secretAccessKey: process.env.SECRET_ACCESS_KEY_AWS ?? "",
+  },
+});
+
+const main = async () => {
+  const { expired, reminded } = await processStaleRequests(prisma, sesClient);
+  console.log(`Expired ${expired} requests and sent ${reminded} reminders`);
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,33 @@
+import { PrismaClient } from "@prisma/client";
+import { SESClient } from "@aws-sdk/client-ses";
+import { alertPendingSubscribers } from "../src/server/matchAlerts";
+
+/**
+ * Alerts users whose alerting presets match someone who onboarded or edited their profile since
+ * the last run, in the app and by email. Meant to be scheduled every few minutes (e.g. a cron job
+ * running `yarn alerts:match`); a user is alerted about someone at most once, so an extra run
+ * doesn't email anyone twice.
+ */
+
+const prisma = new PrismaClient();
+const sesClient = new SESClient({
+  region: process.env.REGION_AWS,
+  credentials: {
+    accessKeyId: process.env.ACCESS_KEY_ID_AWS ?? "",
+    secretAccessKey: process.env.SECRET_ACCESS_KEY_AWS ?? "",
+  },
+});
+
+const main = async () => {
+  const { users, alerts } = await alertPendingSubscribers(prisma, sesClient);
+  console.log(`Sent ${alerts} match alerts about ${users} changed users`);
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
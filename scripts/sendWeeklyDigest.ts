@@ -0,0 +1,32 @@
+import { PrismaClient } from "@prisma/client";
+import { SESClient } from "@aws-sdk/client-ses";
+import { sendWeeklyDigests } from "../src/server/weeklyDigest";
+
+/**
+ * Emails active users without a carpool group their top recommendations. Meant to be scheduled
+ * once a week (e.g. a cron job running `yarn digest:weekly`); users who already got a digest in
+ * the last few days are skipped, so an extra run doesn't email anyone twice.
+ */
+
+const prisma = new PrismaClient();
+const sesClient = new SESClient({
+  region: process.env.REGION_AWS,
+  credentials: {
+    accessKeyId: process.env.ACCESS_KEY_ID_AWS ?? "",
+    secretAccessKey: process.env.SECRET_ACCESS_KEY_AWS ?? "",
+  },
+});
+
+const main = async () => {
+  const { users, sent } = await sendWeeklyDigests(prisma, sesClient);
+  console.log(`Sent ${sent} digests to ${users} eligible users`);
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
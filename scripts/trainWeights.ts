@@ -0,0 +1,28 @@
+import { PrismaClient } from "@prisma/client";
+import { trainWeightProfile } from "../src/server/weightProfiles";
+
+/**
+ * Learns recommendation weights from request outcomes and saves them as a new, inactive weight
+ * profile. Review it on the admin page's Matching tab (or with `yarn evaluate:recommendations`)
+ * before activating it.
+ */
+
+const prisma = new PrismaClient();
+
+const main = async () => {
+  const { profile, accepted, rejected } = await trainWeightProfile(prisma);
+  console.log(
+    `Trained on ${accepted} accepted and ${rejected} declined or ignored requests`
+  );
+  console.log(`Saved inactive weight profile v${profile.id}:`);
+  console.log(JSON.stringify(profile.weights, null, 2));
+};
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
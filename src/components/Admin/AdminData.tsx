@@ -1,11 +1,17 @@
+import { Permission } from "@prisma/client";
 import React, { useEffect, useState } from "react";
 import Spinner from "../Spinner";
 import { trpc } from "../../utils/trpc";
 import { TempUser, TempGroup } from "../../utils/types";
 import BarChartUserCounts from "./BarChartUserCounts";
 import LineChartCount from "./LineChartCount";
+import ExperimentsPanel from "./ExperimentsPanel";
 
-function AdminData() {
+type AdminDataProps = {
+  permission: Permission;
+};
+
+function AdminData({ permission }: AdminDataProps) {
   const [loading, setLoading] = useState<boolean>(true);
   const { data: users = [] } =
     trpc.user.admin.getAllUsers.useQuery<TempUser[]>();
@@ -23,8 +29,8 @@ function AdminData() {
   }
 
   return (
-    <div className="relative my-4 h-[91.5%]  w-full">
-      <div className="absolute inset-0 flex h-full flex-col  space-y-6  px-8">
+    <div className="my-4 h-[91.5%] w-full overflow-y-auto">
+      <div className="flex h-full flex-col  space-y-6  px-8">
         <div className="min-h-0 flex-[1.5] ">
           <BarChartUserCounts users={users} />
         </div>
@@ -32,6 +38,10 @@ function AdminData() {
           <LineChartCount users={users} groups={groups} />
         </div>
       </div>
+      {/* experiments are compared below the charts, scroll down to see them */}
+      <div className="p-10">
+        <ExperimentsPanel permission={permission} />
+      </div>
     </div>
   );
 }
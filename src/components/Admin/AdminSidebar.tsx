@@ -21,6 +21,18 @@ const AdminSidebar = ({ option, setOption }: AdminSidebarProps) => {
         >
           Data
         </button>
+        <button
+          className={baseButton + (option === "weights" && selectedButton)}
+          onClick={() => setOption("weights")}
+        >
+          Matching
+        </button>
+        <button
+          className={baseButton + (option === "requests" && selectedButton)}
+          onClick={() => setOption("requests")}
+        >
+          Requests
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,332 @@
+import { Permission } from "@prisma/client";
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import dayjs from "dayjs";
+import Spinner from "../Spinner";
+import { trpc } from "../../utils/trpc";
+import { Note } from "../../styles/profile";
+import { ExperimentVariant, sortSchema } from "../../utils/experiments";
+
+type ExperimentsPanelProps = {
+  permission: Permission;
+};
+
+const sortLabels: Record<
+  NonNullable<ExperimentVariant["defaultSort"]>,
+  string
+> = {
+  any: "Recommended",
+  distance: "Distance",
+  time: "Time",
+  route: "Along Route",
+  mutual: "Mutual Fit",
+};
+
+const newVariant = (name: string): ExperimentVariant => ({
+  name,
+  weight: 1,
+  profileId: null,
+  defaultSort: null,
+});
+
+const inputClassName =
+  "rounded-md border border-black px-2 py-1 disabled:bg-stone-100";
+
+/** Formats `count` out of `total` as a percentage */
+const rate = (count: number, total: number) =>
+  total === 0 ? "-" : `${((count / total) * 100).toFixed(1)}%`;
+
+const ExperimentsPanel = ({ permission }: ExperimentsPanelProps) => {
+  const isManager = permission === "MANAGER";
+  const utils = trpc.useUtils();
+  const { data: experiments } = trpc.user.experiments.list.useQuery();
+  const { data: profiles = [] } = trpc.user.weightProfiles.list.useQuery();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [key, setKey] = useState<string>("");
+  const [name, setName] = useState<string>("");
+  const [variants, setVariants] = useState<ExperimentVariant[]>([
+    newVariant("control"),
+    newVariant("treatment"),
+  ]);
+
+  // show the running experiment's funnel until another one is picked
+  const shownId =
+    selectedId ??
+    experiments?.find((experiment) => experiment.isActive)?.id ??
+    experiments?.[0]?.id;
+  const funnel = trpc.user.experiments.funnel.useQuery(
+    { id: shownId ?? "" },
+    { enabled: !!shownId }
+  );
+
+  const createExperiment = trpc.user.experiments.create.useMutation({
+    onSuccess: (experiment) => {
+      toast.success(`Saved experiment ${experiment.key}.`);
+      setKey("");
+      setName("");
+      setVariants([newVariant("control"), newVariant("treatment")]);
+      utils.user.experiments.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save experiment: ${error.message}`);
+    },
+  });
+  const setActive = trpc.user.experiments.setActive.useMutation({
+    onSuccess: (experiment) => {
+      toast.success(
+        `Experiment ${experiment.key} ${
+          experiment.isActive ? "started" : "stopped"
+        }.`
+      );
+      utils.user.experiments.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update experiment: ${error.message}`);
+    },
+  });
+
+  if (!experiments) {
+    return <Spinner />;
+  }
+
+  const setVariant = (idx: number, changes: Partial<ExperimentVariant>) =>
+    setVariants(
+      variants.map((variant, i) =>
+        i === idx ? { ...variant, ...changes } : variant
+      )
+    );
+
+  const saveExperiment = () => {
+    if (!key.trim() || !name.trim()) {
+      toast.error("Give the experiment a key and a name first.");
+      return;
+    }
+    createExperiment.mutate({ key: key.trim(), name: name.trim(), variants });
+  };
+
+  const shown = experiments.find((experiment) => experiment.id === shownId);
+
+  return (
+    <div className="flex flex-col gap-8">
+      <h1 className="text-center font-montserrat text-3xl font-bold text-black">
+        Matching Experiments
+      </h1>
+      {!isManager && (
+        <div className="items-center gap-1 text-center">
+          <Note>
+            Admins can view experiments but only MANAGERs can change them.
+          </Note>
+        </div>
+      )}
+
+      {/* Funnel */}
+      {shown && (
+        <div className="flex flex-col gap-2">
+          <h2 className="font-montserrat text-xl font-bold">
+            {shown.name} Funnel
+          </h2>
+          {funnel.isLoading ? (
+            <Spinner />
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-black">
+                  <th className="py-1">Variant</th>
+                  <th>Users</th>
+                  <th>Sent a Request</th>
+                  <th>Request Accepted</th>
+                  <th>Joined a Group</th>
+                </tr>
+              </thead>
+              <tbody>
+                {funnel.data?.map((row) => (
+                  <tr key={row.variant} className="border-b border-stone-200">
+                    <td className="py-1 font-semibold">{row.variant}</td>
+                    <td>{row.users}</td>
+                    <td>
+                      {row.requested} ({rate(row.requested, row.users)})
+                    </td>
+                    <td>
+                      {row.accepted} ({rate(row.accepted, row.users)})
+                    </td>
+                    <td>
+                      {row.grouped} ({rate(row.grouped, row.users)})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <Note>
+            Only counts what users did after first seeing their variant.
+          </Note>
+        </div>
+      )}
+
+      {/* Experiments */}
+      <div className="flex flex-col gap-2">
+        <h2 className="font-montserrat text-xl font-bold">Experiments</h2>
+        {experiments.length === 0 && (
+          <Note>No experiments yet, everyone gets the same matching.</Note>
+        )}
+        {experiments.map((experiment) => (
+          <div
+            key={experiment.id}
+            className="flex flex-row items-center justify-between rounded-md bg-stone-100 px-4 py-2"
+          >
+            <div>
+              <p className="font-semibold">
+                {experiment.name}
+                {experiment.isActive && (
+                  <span className="ml-2 text-sm text-northeastern-red">
+                    Running
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-gray-500">
+                {experiment.key} ·{" "}
+                {experiment.variants
+                  ?.map((variant) => `${variant.name} (${variant.weight})`)
+                  .join(", ") ?? "malformed variants"}{" "}
+                · {dayjs(experiment.dateCreated).format("MMM D, YYYY")}
+              </p>
+            </div>
+            <div className="flex flex-row gap-2">
+              <button
+                className="rounded-2xl border border-black px-3 py-1 text-sm hover:bg-stone-200"
+                onClick={() => setSelectedId(experiment.id)}
+              >
+                Show Funnel
+              </button>
+              {isManager && (
+                <button
+                  className="rounded-2xl bg-northeastern-red px-3 py-1 text-sm text-white hover:bg-busy-red"
+                  onClick={() =>
+                    setActive.mutate({
+                      id: experiment.id,
+                      active: !experiment.isActive,
+                    })
+                  }
+                >
+                  {experiment.isActive ? "Stop" : "Start"}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* New experiment */}
+      {isManager && (
+        <div className="flex flex-col gap-2">
+          <h2 className="font-montserrat text-xl font-bold">New Experiment</h2>
+          <div className="flex flex-row gap-4">
+            <input
+              className={`flex-1 ${inputClassName}`}
+              placeholder="Key, e.g. distance-sort-2026"
+              maxLength={60}
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+            />
+            <input
+              className={`flex-1 ${inputClassName}`}
+              placeholder="Name"
+              maxLength={191}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          {variants.map((variant, idx) => (
+            <div key={idx} className="flex flex-row items-center gap-4">
+              <input
+                className={`w-40 ${inputClassName}`}
+                placeholder="Variant name"
+                maxLength={60}
+                value={variant.name}
+                onChange={(e) => setVariant(idx, { name: e.target.value })}
+              />
+              <label className="flex items-center gap-2">
+                Weight
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  className={`w-20 text-right ${inputClassName}`}
+                  value={variant.weight}
+                  onChange={(e) =>
+                    setVariant(idx, { weight: Number(e.target.value) })
+                  }
+                />
+              </label>
+              <select
+                className={inputClassName}
+                value={variant.profileId ?? ""}
+                onChange={(e) =>
+                  setVariant(idx, {
+                    profileId: e.target.value ? Number(e.target.value) : null,
+                  })
+                }
+              >
+                <option value="">Active weights</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    v{profile.id} {profile.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                className={inputClassName}
+                value={variant.defaultSort ?? ""}
+                onChange={(e) =>
+                  setVariant(idx, {
+                    defaultSort: e.target.value
+                      ? sortSchema.parse(e.target.value)
+                      : null,
+                  })
+                }
+              >
+                <option value="">Default sort</option>
+                {sortSchema.options.map((sort) => (
+                  <option key={sort} value={sort}>
+                    Sort by {sortLabels[sort]}
+                  </option>
+                ))}
+              </select>
+              {variants.length > 2 && (
+                <button
+                  className="text-sm text-gray-500 hover:text-northeastern-red"
+                  onClick={() =>
+                    setVariants(variants.filter((_, i) => i !== idx))
+                  }
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-row gap-4">
+            <button
+              className="rounded-2xl border border-black px-4 py-2 hover:bg-stone-200"
+              onClick={() =>
+                setVariants([
+                  ...variants,
+                  newVariant(`variant-${variants.length + 1}`),
+                ])
+              }
+            >
+              Add Variant
+            </button>
+            <button
+              className="rounded-2xl bg-northeastern-red px-4 py-2 font-lato text-white hover:bg-busy-red"
+              onClick={saveExperiment}
+            >
+              Save Experiment
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExperimentsPanel;
@@ -0,0 +1,55 @@
+import React from "react";
+import dayjs from "dayjs";
+import Spinner from "../Spinner";
+import { trpc } from "../../utils/trpc";
+import { Note } from "../../styles/profile";
+
+const RateLimitHits = () => {
+  const { data: hits, isLoading } = trpc.user.admin.getRateLimitHits.useQuery();
+
+  if (isLoading || !hits) {
+    return <Spinner />;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <h1 className="text-center font-montserrat text-3xl font-bold text-black">
+        Rate Limits
+      </h1>
+      <div className="items-center gap-1 text-center">
+        <Note>
+          Users who sent requests, messages or notifications too quickly in the
+          past week. Each row is one window in which they were cut off.
+        </Note>
+      </div>
+      {hits.length === 0 ? (
+        <p className="text-center font-lato text-gray-500">
+          No one has hit a limit this week.
+        </p>
+      ) : (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-black">
+              <th className="py-1">User</th>
+              <th>Procedure</th>
+              <th>When</th>
+            </tr>
+          </thead>
+          <tbody>
+            {hits.map((hit) => (
+              <tr key={hit.id} className="border-b border-stone-200">
+                <td className="py-1 font-semibold">
+                  {hit.user.preferredName || hit.user.email}
+                </td>
+                <td>{hit.procedure}</td>
+                <td>{dayjs(hit.dateCreated).format("MMM D, h:mm A")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default RateLimitHits;
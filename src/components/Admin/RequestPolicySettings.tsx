@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import Spinner from "../Spinner";
+import { trpc } from "../../utils/trpc";
+import { Note } from "../../styles/profile";
+import RateLimitHits from "./RateLimitHits";
+import { RequestPolicy, requestPolicySchema } from "../../utils/requestStatus";
+
+const inputClassName =
+  "w-24 rounded-md border border-black px-2 py-1 text-right";
+
+const policyLabels: Record<keyof RequestPolicy, string> = {
+  reminderAfterDays: "Remind recipients after (days)",
+  expireAfterDays: "Expire requests after (days)",
+};
+
+const RequestPolicySettings = () => {
+  const utils = trpc.useUtils();
+  const { data: policy } = trpc.user.requestPolicy.get.useQuery();
+  const [draft, setDraft] = useState<RequestPolicy | null>(null);
+
+  // Start editing from the saved thresholds
+  useEffect(() => {
+    if (policy && !draft) {
+      setDraft(policy);
+    }
+  }, [policy, draft]);
+
+  const updatePolicy = trpc.user.requestPolicy.update.useMutation({
+    onSuccess: () => {
+      toast.success("Request follow-up thresholds saved.");
+      utils.user.requestPolicy.get.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save thresholds: ${error.message}`);
+    },
+  });
+
+  if (!draft) {
+    return <Spinner />;
+  }
+
+  const savePolicy = () => {
+    const parsed = requestPolicySchema.safeParse(draft);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message);
+      return;
+    }
+    updatePolicy.mutate(parsed.data);
+  };
+
+  return (
+    <div className="h-full w-full overflow-y-auto">
+      <div className="m-auto flex flex-col gap-8 p-10">
+        <h1 className="text-center font-montserrat text-3xl font-bold text-black">
+          Pending Requests
+        </h1>
+        <div className="items-center gap-1 text-center">
+          <Note>
+            A daily job reminds recipients of requests they haven&apos;t
+            answered, then expires requests left pending too long and lets their
+            senders know so they can ask someone else.
+          </Note>
+        </div>
+        <div className="flex flex-col items-center gap-2">
+          {Object.entries(policyLabels).map(([key, label]) => (
+            <label
+              key={key}
+              className="flex w-96 items-center justify-between gap-4"
+            >
+              {label}
+              <input
+                type="number"
+                min={1}
+                className={inputClassName}
+                value={draft[key as keyof RequestPolicy]}
+                onChange={(e) =>
+                  setDraft({ ...draft, [key]: Number(e.target.value) })
+                }
+              />
+            </label>
+          ))}
+          <button
+            className="mt-4 rounded-2xl bg-northeastern-red px-4 py-2 font-lato text-white hover:bg-busy-red disabled:opacity-50"
+            disabled={updatePolicy.isLoading}
+            onClick={savePolicy}
+          >
+            Save
+          </button>
+        </div>
+        {/* abuse of requests and messages is reviewed alongside their follow-up */}
+        <RateLimitHits />
+      </div>
+    </div>
+  );
+};
+
+export default RequestPolicySettings;
@@ -0,0 +1,365 @@
+import { Permission } from "@prisma/client";
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { ConfigProvider, Select } from "antd";
+import dayjs from "dayjs";
+import Spinner from "../Spinner";
+import { trpc } from "../../utils/trpc";
+import { Note } from "../../styles/profile";
+import { TempUser } from "../../utils/types";
+import type { ScoringProfile } from "../../utils/recommendation";
+
+type WeightProfilesProps = {
+  permission: Permission;
+};
+
+const weightLabels: Record<keyof ScoringProfile["weights"], string> = {
+  startDistance: "Start Distance",
+  endDistance: "End Distance",
+  startTime: "Start Time",
+  endTime: "End Time",
+  days: "Days Overlap",
+  overlap: "Co-op Overlap",
+  detour: "Pickup Detour",
+};
+
+const cutoffLabels: Record<keyof ScoringProfile["cutoffs"], string> = {
+  startDistance: "Start Distance (miles)",
+  endDistance: "End Distance (miles)",
+  startTime: "Start Time (minutes)",
+  endTime: "End Time (minutes)",
+  detour: "Pickup Detour (minutes)",
+};
+
+const inputClassName =
+  "w-24 rounded-md border border-black px-2 py-1 text-right disabled:bg-stone-100";
+
+const WeightProfiles = ({ permission }: WeightProfilesProps) => {
+  const isManager = permission === "MANAGER";
+  const utils = trpc.useUtils();
+  const { data: profiles } = trpc.user.weightProfiles.list.useQuery();
+  const { data: active } = trpc.user.weightProfiles.active.useQuery();
+  const { data: users = [] } =
+    trpc.user.admin.getAllUsers.useQuery<TempUser[]>();
+  const [draft, setDraft] = useState<ScoringProfile | null>(null);
+  const [name, setName] = useState<string>("");
+  const [sampleUserId, setSampleUserId] = useState<string | null>(null);
+
+  // Start editing from whichever profile is active
+  useEffect(() => {
+    if (active && !draft) {
+      setDraft(active);
+    }
+  }, [active, draft]);
+
+  const preview = trpc.user.weightProfiles.preview.useQuery(
+    { userId: sampleUserId ?? "", profile: draft! },
+    { enabled: false }
+  );
+
+  const onProfilesChanged = () => {
+    utils.user.weightProfiles.list.invalidate();
+    utils.user.weightProfiles.active.invalidate();
+  };
+  const createProfile = trpc.user.weightProfiles.create.useMutation({
+    onSuccess: (profile) => {
+      toast.success(`Saved weight profile version ${profile.id}.`);
+      setName("");
+      onProfilesChanged();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save weight profile: ${error.message}`);
+    },
+  });
+  const activateProfile = trpc.user.weightProfiles.activate.useMutation({
+    onSuccess: () => {
+      toast.success("Weight profile activated.");
+      onProfilesChanged();
+    },
+    onError: (error) => {
+      toast.error(`Failed to activate weight profile: ${error.message}`);
+    },
+  });
+
+  const trainProfile = trpc.user.weightProfiles.train.useMutation({
+    onSuccess: ({ profile, accepted, rejected }) => {
+      toast.success(
+        `Trained version ${profile.id} on ${accepted} accepted and ${rejected} declined or ignored requests. Preview it before activating.`
+      );
+      onProfilesChanged();
+    },
+    onError: (error) => {
+      toast.error(`Failed to train weights: ${error.message}`);
+    },
+  });
+
+  if (!profiles || !draft) {
+    return <Spinner />;
+  }
+
+  const setWeight = (key: keyof ScoringProfile["weights"], value: number) =>
+    setDraft({ ...draft, weights: { ...draft.weights, [key]: value } });
+  const setCutoff = (key: keyof ScoringProfile["cutoffs"], value: number) =>
+    setDraft({ ...draft, cutoffs: { ...draft.cutoffs, [key]: value } });
+
+  const saveProfile = (activate: boolean) => {
+    if (!name.trim()) {
+      toast.error("Give the profile a name first.");
+      return;
+    }
+    createProfile.mutate({ ...draft, name: name.trim(), activate });
+  };
+
+  const runPreview = () => {
+    if (!sampleUserId) {
+      toast.error("Select a sample user first.");
+      return;
+    }
+    preview.refetch().then(({ error }) => {
+      if (error) {
+        toast.error(`Failed to preview: ${error.message}`);
+      }
+    });
+  };
+
+  const userOptions = users
+    .filter((user) => user.isOnboarded && user.role !== "VIEWER")
+    .map((user) => ({ label: user.email, value: user.id }));
+
+  return (
+    <div className="h-full w-full overflow-y-auto">
+      <div className="m-auto flex flex-col gap-8 p-10">
+        <h1 className="text-center font-montserrat text-3xl font-bold text-black">
+          Recommendation Weights
+        </h1>
+        {!isManager && (
+          <div className="items-center gap-1 text-center">
+            <Note>
+              Admins can view weight profiles but only MANAGERs can change them.
+            </Note>
+          </div>
+        )}
+
+        {/* Editor */}
+        <div className="flex flex-row justify-center gap-16">
+          <div className="flex flex-col gap-2">
+            <h2 className="font-montserrat text-xl font-bold">Weights</h2>
+            {Object.entries(weightLabels).map(([key, label]) => (
+              <label
+                key={key}
+                className="flex items-center justify-between gap-4"
+              >
+                {label}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  disabled={!isManager}
+                  className={inputClassName}
+                  value={draft.weights[key as keyof ScoringProfile["weights"]]}
+                  onChange={(e) =>
+                    setWeight(
+                      key as keyof ScoringProfile["weights"],
+                      Number(e.target.value)
+                    )
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-col gap-2">
+            <h2 className="font-montserrat text-xl font-bold">Cutoffs</h2>
+            {Object.entries(cutoffLabels).map(([key, label]) => (
+              <label
+                key={key}
+                className="flex items-center justify-between gap-4"
+              >
+                {label}
+                <input
+                  type="number"
+                  min={1}
+                  disabled={!isManager}
+                  className={inputClassName}
+                  value={draft.cutoffs[key as keyof ScoringProfile["cutoffs"]]}
+                  onChange={(e) =>
+                    setCutoff(
+                      key as keyof ScoringProfile["cutoffs"],
+                      Number(e.target.value)
+                    )
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex flex-col gap-4">
+          <h2 className="font-montserrat text-xl font-bold">Preview</h2>
+          <div className="flex flex-row items-center gap-4">
+            <ConfigProvider
+              theme={{
+                token: {
+                  fontFamily: "Lato",
+                  fontSize: 16,
+                  colorPrimary: "#C8102E",
+                },
+              }}
+            >
+              <Select
+                showSearch
+                style={{ width: "240px" }}
+                placeholder="Select a Sample User"
+                onChange={(value: string) => setSampleUserId(value)}
+                popupMatchSelectWidth={false}
+                filterOption={(input, option) =>
+                  (option?.label ?? "")
+                    .toLowerCase()
+                    .includes(input.toLowerCase())
+                }
+                options={userOptions}
+              />
+            </ConfigProvider>
+            <button
+              className="rounded-2xl border border-black px-4 py-1 hover:bg-stone-200"
+              onClick={runPreview}
+            >
+              Preview Top 10
+            </button>
+          </div>
+          {preview.isFetching && <Spinner />}
+          {preview.data && !preview.isFetching && (
+            <div className="grid grid-cols-2 gap-8">
+              {(["current", "draft"] as const).map((column) => (
+                <div key={column}>
+                  <h3 className="mb-2 font-semibold">
+                    {column === "current" ? "Active Profile" : "Draft Profile"}
+                  </h3>
+                  <ol className="list-decimal pl-6">
+                    {preview.data[column].map((rec, idx) => {
+                      // how far the user moved compared to the active profile
+                      const before = preview.data.current.findIndex(
+                        (other) => other.id === rec.id
+                      );
+                      const change =
+                        column === "draft" && before !== -1 ? before - idx : 0;
+                      return (
+                        <li key={rec.id}>
+                          {rec.name ?? rec.id}{" "}
+                          <span className="text-sm text-gray-500">
+                            ({rec.score.toFixed(3)})
+                          </span>
+                          {column === "draft" && before === -1 && (
+                            <span className="ml-2 text-sm text-green-600">
+                              new
+                            </span>
+                          )}
+                          {change !== 0 && (
+                            <span
+                              className={`ml-2 text-sm ${
+                                change > 0 ? "text-green-600" : "text-red-600"
+                              }`}
+                            >
+                              {change > 0 ? `▲${change}` : `▼${-change}`}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Save */}
+        {isManager && (
+          <div className="flex flex-row items-center gap-4">
+            <input
+              className="flex-1 rounded-md border border-black px-2 py-1"
+              placeholder="Profile name"
+              maxLength={191}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <button
+              className="rounded-2xl border border-black px-4 py-2 hover:bg-stone-200"
+              onClick={() => saveProfile(false)}
+            >
+              Save Draft
+            </button>
+            <button
+              className="rounded-2xl bg-northeastern-red px-4 py-2 font-lato text-white hover:bg-busy-red"
+              onClick={() => saveProfile(true)}
+            >
+              Save and Activate
+            </button>
+          </div>
+        )}
+
+        {/* Versions */}
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-row items-center justify-between">
+            <h2 className="font-montserrat text-xl font-bold">Versions</h2>
+            {isManager && (
+              <button
+                className="rounded-2xl border border-black px-4 py-1 hover:bg-stone-200 disabled:opacity-50"
+                disabled={trainProfile.isLoading}
+                onClick={() => trainProfile.mutate()}
+              >
+                {trainProfile.isLoading ? "Training..." : "Train from Outcomes"}
+              </button>
+            )}
+          </div>
+          {profiles.length === 0 && (
+            <Note>
+              No saved profiles yet, recommendations use the defaults.
+            </Note>
+          )}
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              className="flex flex-row items-center justify-between rounded-md bg-stone-100 px-4 py-2"
+            >
+              <div>
+                <p className="font-semibold">
+                  v{profile.id} {profile.name}
+                  {profile.isActive && (
+                    <span className="ml-2 text-sm text-northeastern-red">
+                      Active
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {dayjs(profile.dateCreated).format("MMM D, YYYY h:mm A")}
+                  {profile.createdBy && ` by ${profile.createdBy}`}
+                </p>
+              </div>
+              <div className="flex flex-row gap-2">
+                {profile.profile && (
+                  <button
+                    className="rounded-2xl border border-black px-3 py-1 text-sm hover:bg-stone-200"
+                    onClick={() => setDraft(profile.profile!)}
+                  >
+                    Edit Copy
+                  </button>
+                )}
+                {isManager && !profile.isActive && profile.profile && (
+                  <button
+                    className="rounded-2xl bg-northeastern-red px-3 py-1 text-sm text-white hover:bg-busy-red"
+                    onClick={() => activateProfile.mutate({ id: profile.id })}
+                  >
+                    Activate
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WeightProfiles;
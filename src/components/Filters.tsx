@@ -5,6 +5,7 @@ import Checkbox from "@mui/material/Checkbox";
 import { FiltersState } from "../utils/types";
 import { TextField } from "./TextField";
 import StaticDayBox from "./Sidebar/StaticDayBox";
+import PresetPicker from "./Sidebar/PresetPicker";
 
 interface FilterSectionProps {
   title: string;
@@ -36,6 +37,8 @@ interface FiltersProps {
   onClose: () => void;
   setFilters: React.Dispatch<React.SetStateAction<FiltersState>>;
   filters: FiltersState;
+  sort: string;
+  setSort: React.Dispatch<React.SetStateAction<string>>;
   activeFilters: { [key: string]: boolean };
   resetFilters: () => void;
 }
@@ -44,11 +47,15 @@ const Filters = ({
   onClose,
   filters,
   setFilters,
+  sort,
+  setSort,
   activeFilters,
   resetFilters: externalResetFilters,
 }: FiltersProps) => {
   const [distanceOpen, setDistanceOpen] = useState(
-    activeFilters.startDistance || activeFilters.endDistance
+    activeFilters.startDistance ||
+      activeFilters.endDistance ||
+      activeFilters.detour
   );
   const [checkedOpen, setCheckedOpen] = useState(
     activeFilters.favorites || activeFilters.messaged
@@ -58,6 +65,8 @@ const Filters = ({
     activeFilters.startTime || activeFilters.endTime
   );
   const [termDatesOpen, setTermDatesOpen] = useState(activeFilters.dateOverlap);
+  const [routeOpen, setRouteOpen] = useState(activeFilters.corridor);
+  const [presetsOpen, setPresetsOpen] = useState(false);
   const daysOfWeek = ["Su", "M", "Tu", "W", "Th", "F", "S"];
   const resetFilters = () => {
     externalResetFilters();
@@ -66,6 +75,8 @@ const Filters = ({
     setDaysMatchOpen(false);
     setStartTimeOpen(false);
     setTermDatesOpen(false);
+    setRouteOpen(false);
+    setPresetsOpen(false);
   };
   const handleMonthChange =
     (field: keyof FiltersState) =>
@@ -167,6 +178,18 @@ const Filters = ({
           }
         `}
       </style>
+      <FilterSection
+        title="Saved Presets"
+        isOpen={presetsOpen}
+        toggleOpen={() => setPresetsOpen(!presetsOpen)}
+      >
+        <PresetPicker
+          filters={filters}
+          setFilters={setFilters}
+          sort={sort}
+          setSort={setSort}
+        />
+      </FilterSection>
       <FilterSection
         title="Distance"
         isOpen={distanceOpen}
@@ -230,6 +253,71 @@ const Filters = ({
                 : filters.endDistance}
             </div>
           </div>
+
+          <label className="mb-2 mt-4 block">
+            Max driver pickup detour (minutes)
+          </label>
+          <div className="flex flex-col items-center gap-3">
+            <input
+              type="range"
+              min="0"
+              max="30"
+              step="5"
+              value={filters.detour}
+              onChange={(e) => handleRangeChange("detour", e)}
+              className="h-2 w-full appearance-none rounded-full focus:outline-none focus:ring-2 focus:ring-northeastern-red"
+              style={{
+                WebkitAppearance: "none",
+                appearance: "none",
+                background: `linear-gradient(to right, #C8102E 0%, #C8102E ${
+                  (filters.detour / 30) * 100
+                }%, #d3d3d3 ${(filters.detour / 30) * 100}%, #d3d3d3 100%)`,
+                height: "8px",
+                borderRadius: "5px",
+              }}
+            />
+            <div className="text-lg font-semibold text-northeastern-red">
+              {filters.detour === 30 ? `${filters.detour}+` : filters.detour}
+            </div>
+          </div>
+        </div>
+      </FilterSection>
+
+      <FilterSection
+        title="Along Route"
+        isOpen={routeOpen}
+        toggleOpen={() => setRouteOpen(!routeOpen)}
+      >
+        <div className="mt-3">
+          <label className="mb-2 block">
+            Max time off the driver&apos;s route (minutes)
+          </label>
+          <div className="flex flex-col items-center gap-3">
+            <input
+              type="range"
+              min="0"
+              max="15"
+              value={filters.corridor}
+              onChange={(e) => handleRangeChange("corridor", e)}
+              className="h-2 w-full appearance-none rounded-full focus:outline-none focus:ring-2 focus:ring-northeastern-red"
+              style={{
+                WebkitAppearance: "none",
+                appearance: "none",
+                background: `linear-gradient(to right, #C8102E 0%, #C8102E ${
+                  (filters.corridor / 15) * 100
+                }%, #d3d3d3 ${(filters.corridor / 15) * 100}%, #d3d3d3 100%)`,
+                height: "8px",
+                borderRadius: "5px",
+              }}
+            />
+            <div className="text-lg font-semibold text-northeastern-red">
+              {filters.corridor === 0 ? "Off" : filters.corridor}
+            </div>
+          </div>
+          <p className="w-full pt-2 text-xs" style={{ color: "#BCA7A7" }}>
+            (?) Shows riders living along the driver&apos;s commute instead of
+            only near the driver&apos;s start.
+          </p>
         </div>
       </FilterSection>
 
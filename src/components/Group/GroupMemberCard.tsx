@@ -1,4 +1,4 @@
-import { Role } from "@prisma/client";
+import { CommuteLeg } from "@prisma/client";
 import { PublicUser } from "../../utils/types";
 import { useContext } from "react";
 import { UserContext } from "../../utils/userContext";
@@ -8,14 +8,17 @@ import { trpc } from "../../utils/trpc";
 import { toast } from "react-toastify";
 import { TRPCClientError } from "@trpc/client";
 import { useToasts } from "react-toast-notifications";
+import { legLabels } from "../../utils/legs";
 
 interface GroupMembersProps {
   users: PublicUser[];
+  driverId?: string;
+  legs: Record<string, CommuteLeg>; // the legs each member rides with the group, by user id
   onClose: () => void;
 }
 export const GroupMembers = (props: GroupMembersProps) => {
   const curUser = useContext(UserContext);
-  const driver = props.users.find((user) => user.role === Role.DRIVER);
+  const driver = props.users.find((user) => user.id === props.driverId);
   const riders = props.users.filter(
     (user) => user.id !== driver?.id && user.id !== curUser?.id
   );
@@ -78,6 +81,8 @@ export const GroupMembers = (props: GroupMembersProps) => {
       <>
         <GroupMemberCard
           user={driver}
+          isDriver
+          leg={props.legs[driver.id]}
           buttonText="Delete Group"
           buttonFunc={handleDelete}
         />
@@ -85,6 +90,7 @@ export const GroupMembers = (props: GroupMembersProps) => {
           <GroupMemberCard
             key={rider.id}
             user={rider}
+            leg={props.legs[rider.id]}
             buttonText="Remove"
             buttonFunc={handleEdit}
           />
@@ -96,20 +102,25 @@ export const GroupMembers = (props: GroupMembersProps) => {
   const RiderGroupMembers = () => {
     return (
       <>
-        <GroupMemberCard user={driver} />
+        <GroupMemberCard user={driver} isDriver leg={props.legs[driver.id]} />
         <GroupMemberCard
           user={curUser}
+          leg={props.legs[curUser.id]}
           buttonText="Leave Group"
           buttonFunc={handleEdit}
         />
         {riders.map((rider) => (
-          <GroupMemberCard key={rider.id} user={rider} />
+          <GroupMemberCard
+            key={rider.id}
+            user={rider}
+            leg={props.legs[rider.id]}
+          />
         ))}
       </>
     );
   };
 
-  if (curUser.role === Role.DRIVER) {
+  if (curUser.id === driver.id) {
     return <DriverGroupMembers />;
   } else {
     return <RiderGroupMembers />;
@@ -118,6 +129,8 @@ export const GroupMembers = (props: GroupMembersProps) => {
 
 interface GroupMemberCardProps {
   user: PublicUser;
+  isDriver?: boolean;
+  leg?: CommuteLeg;
   buttonText?: string;
   buttonFunc?: (id: string) => void;
 }
@@ -128,11 +141,11 @@ export const GroupMemberCard = (props: GroupMemberCardProps) => {
         <div className="flex flex-row">
           <h1 className="text-xl font-bold">{props.user.preferredName}</h1>
           <p className="text-xl">
-            {"\u00A0| " +
-              (props.user.role === Role.DRIVER ? "Driver" : "Rider")}
+            {"\u00A0| " + (props.isDriver ? "Driver" : "Rider")}
           </p>
         </div>
         <p className="text-sm">{props.user.email}</p>
+        {props.leg && <p className="text-sm italic">{legLabels[props.leg]}</p>}
         <div className="flex-grow"></div>
       </div>
       {props.buttonText && props.buttonFunc && (
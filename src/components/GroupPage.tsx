@@ -5,6 +5,7 @@ import { trpc } from "../utils/trpc";
 import { UserContext } from "../utils/userContext";
 import { Role, User } from "@prisma/client";
 import Spinner from "./Spinner";
+import { canDrive } from "../utils/roles";
 import { toast } from "react-toastify";
 
 interface GroupPageProps {
@@ -49,7 +50,11 @@ const GroupBody = ({
   onClose: () => void;
 }) => {
   return !curUser?.carpoolId ? (
-    <NoGroupInfo role={curUser.role} onClose={onClose} />
+    <NoGroupInfo
+      role={curUser.role}
+      canDrive={canDrive(curUser)}
+      onClose={onClose}
+    />
   ) : (
     <GroupInfo curUser={curUser} onClose={onClose} />
   );
@@ -57,10 +62,11 @@ const GroupBody = ({
 
 interface NoGroupInfoProps {
   role: Role;
+  canDrive: boolean; // drivers, and riders who can also drive
   onClose: () => void;
 }
 
-const NoGroupInfo = ({ role }: NoGroupInfoProps) => {
+const NoGroupInfo = ({ role, canDrive }: NoGroupInfoProps) => {
   const utils = trpc.useContext();
   const { data: user } = trpc.user.me.useQuery();
   const [preview, setPreview] = useState("");
@@ -81,7 +87,7 @@ const NoGroupInfo = ({ role }: NoGroupInfoProps) => {
   }, [user]);
 
   const handleMessageSubmit = async () => {
-    if (user?.id && role === "DRIVER") {
+    if (user?.id && canDrive) {
       await updateUserMessage({ message: groupMessage });
       setPreview(groupMessage);
     }
@@ -95,7 +101,7 @@ const NoGroupInfo = ({ role }: NoGroupInfoProps) => {
         </div>
       ) : (
         <>
-          {role === "DRIVER" && (
+          {canDrive && (
             <div className="mx-20 mb-8 flex flex-col py-1">
               <div className="my-1 text-xs italic text-slate-400">
                 Below, share any information that you would like riders joining
@@ -152,6 +158,13 @@ const GroupInfo = ({
   const utils = trpc.useContext();
   const { data: group } = trpc.user.groups.me.useQuery();
   const users = group?.users ?? [];
+  const legs = Object.fromEntries(
+    (group?.members ?? []).map((member) => [member.userId, member.leg])
+  );
+  // older groups don't record their driver, who was then always the DRIVER member
+  const driverId =
+    group?.driverId ?? users.find((user) => user.role === Role.DRIVER)?.id;
+  const isDriver = curUser.id === driverId;
   const [groupMessage, setGroupMessage] = useState(group?.message ?? "");
   const { mutate: updateMessage } = trpc.user.groups.updateMessage.useMutation({
     onSuccess: () => {
@@ -174,7 +187,7 @@ const GroupInfo = ({
   }, [group]);
 
   const handleMessageSubmit = async () => {
-    if (group?.id && curUser?.role === "DRIVER") {
+    if (group?.id && isDriver) {
       await updateMessage({ groupId: group.id, message: groupMessage });
       await updateUserMessage({ message: groupMessage });
     }
@@ -182,7 +195,7 @@ const GroupInfo = ({
 
   return (
     <>
-      {curUser?.role === "DRIVER" ? (
+      {isDriver ? (
         <div className="mx-20 flex flex-col py-1">
           <div className="my-1 text-xs italic text-slate-400">
             Use this text box to share important communication with your riders!
@@ -217,7 +230,12 @@ const GroupInfo = ({
         </div>
       )}
       <div className="mx-16 mt-2 flex flex-grow flex-col divide-y-2 rounded-md border px-2">
-        <GroupMembers users={users} onClose={onClose} />
+        <GroupMembers
+          users={users}
+          driverId={driverId}
+          legs={legs}
+          onClose={onClose}
+        />
       </div>
     </>
   );
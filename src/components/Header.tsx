@@ -5,6 +5,7 @@ import { createPortal } from "react-dom";
 import { GroupPage } from "./GroupPage";
 import { trpc } from "../utils/trpc";
 import { UserContext } from "../utils/userContext";
+import useRealtime from "../utils/useRealtime";
 import { useRouter } from "next/router";
 import Spinner from "./Spinner";
 
@@ -52,6 +53,17 @@ const Header = (props: HeaderProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const { data: unreadMessagesCount } =
     trpc.user.messages.getUnreadMessageCount.useQuery();
+  const utils = trpc.useContext();
+  // the badge updates as messages arrive or are read in another tab
+  useRealtime(
+    (event) => {
+      if (event.type === "message" || event.type === "messagesRead") {
+        utils.user.messages.getUnreadMessageCount.invalidate();
+      }
+    },
+    () => utils.user.messages.getUnreadMessageCount.invalidate(),
+    !props.signIn
+  );
   const user = useContext(UserContext);
   const router = useRouter();
 
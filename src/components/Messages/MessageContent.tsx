@@ -9,6 +9,8 @@ import { EnhancedPublicUser } from "../../utils/types";
 import { format, isSameDay } from "date-fns";
 import { trpc } from "../../utils/trpc";
 import { UserContext } from "../../utils/userContext";
+import { currentRequest } from "../../utils/requestStatus";
+import useRealtime from "../../utils/useRealtime";
 
 interface MessageContentProps {
   selectedUser: EnhancedPublicUser;
@@ -22,7 +24,11 @@ const MessageContent = ({ selectedUser }: MessageContentProps) => {
   const user = useContext(UserContext);
 
   const request = useMemo(
-    () => selectedUser.incomingRequest || selectedUser.outgoingRequest,
+    () =>
+      currentRequest({
+        incomingRequest: selectedUser.incomingRequest,
+        outgoingRequest: selectedUser.outgoingRequest,
+      }),
     [selectedUser.incomingRequest, selectedUser.outgoingRequest]
   );
 
@@ -57,6 +63,19 @@ const MessageContent = ({ selectedUser }: MessageContentProps) => {
     utils.user.requests.me.invalidate();
   }, [utils.user.messages.getUnreadMessageCount, utils.user.requests.me]);
 
+  // show new messages and read receipts in this conversation as they happen
+  useRealtime(
+    (event) => {
+      if (
+        event.type !== "request" &&
+        event.conversationId === request?.conversationId
+      ) {
+        utils.user.requests.me.invalidate();
+      }
+    },
+    () => utils.user.requests.me.invalidate()
+  );
+
   const onError = useCallback((error: any) => {
     console.error("Failed to mark messages as read:", error);
   }, []);
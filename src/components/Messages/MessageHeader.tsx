@@ -3,6 +3,8 @@ import { EnhancedPublicUser } from "../../utils/types";
 import { AiOutlineUser } from "react-icons/ai";
 import Image from "next/image";
 import useProfileImage from "../../utils/useProfileImage";
+import { RequestStatus } from "@prisma/client";
+import { currentRequest, requestOutcomeText } from "../../utils/requestStatus";
 
 interface MessageHeaderProps {
   selectedUser: EnhancedPublicUser;
@@ -19,8 +21,13 @@ const MessageHeader = ({
   onClose,
   groupId,
 }: MessageHeaderProps) => {
-  const hasIncomingRequest = !!selectedUser.incomingRequest;
-  const hasOutgoingRequest = !!selectedUser.outgoingRequest;
+  // only pending requests can be answered or withdrawn, the rest show how they ended
+  const request = currentRequest(selectedUser);
+  const isPending = request?.status === RequestStatus.PENDING;
+  const hasIncomingRequest =
+    isPending && request === selectedUser.incomingRequest;
+  const hasOutgoingRequest =
+    isPending && request === selectedUser.outgoingRequest;
 
   const handleClose = () => {
     onClose("");
@@ -71,7 +78,7 @@ const MessageHeader = ({
             Withdraw Request
           </button>
         )}
-        {groupId && (
+        {isPending && groupId && (
           <button
             onClick={onReject}
             className=" mr-10 rounded-lg border-2 border-black bg-white py-2 text-center text-lg font-medium text-black hover:bg-gray-100 md:px-12 lg:px-20"
@@ -79,6 +86,11 @@ const MessageHeader = ({
             Leave Conversation
           </button>
         )}
+        {request && !isPending && (
+          <span className="mr-10 font-montserrat text-lg font-semibold text-gray-500">
+            {requestOutcomeText(request)}
+          </span>
+        )}
 
         <button
           onClick={handleClose}
@@ -5,9 +5,15 @@ import MessageContent from "./MessageContent";
 import SendBar from "./SendBar";
 import { trpc } from "../../utils/trpc";
 import { createRequestHandlers } from "../../utils/requestHandlers";
+import {
+  currentRequest,
+  isOpenRequest,
+  requestStatusLabels,
+} from "../../utils/requestStatus";
 import { UserContext } from "../../utils/userContext";
 import { User } from "@prisma/client";
 import { toast } from "react-toastify";
+import { isRateLimited, toastMutationError } from "../../utils/rateLimit";
 
 interface MessagePanelProps {
   selectedUser: EnhancedPublicUser;
@@ -30,43 +36,39 @@ const MessagePanel = ({
   const { handleAcceptRequest, handleRejectRequest } =
     createRequestHandlers(utils);
 
-  const sendMessage = trpc.user.messages.sendMessage.useMutation({
-    onSuccess: () => {
-      onMessageSent(selectedUser.id);
-    },
-  });
+  // closed requests keep their messages but can't be replied to
+  const request = currentRequest(selectedUser);
 
   const { mutate: sendMessageNotification } =
     trpc.user.emails.sendMessageNotification.useMutation({
-      onError: (error: any) => {
-        toast.error(`Something went wrong: ${error.message}`);
+      onError: (error) => {
+        // the message itself was delivered, only its email was held back
+        if (!isRateLimited(error)) {
+          toast.error(`Something went wrong: ${error.message}`);
+        }
       },
       onSuccess() {
         console.log("Message notification email sent successfully");
       },
     });
 
-  const handleSendMessage = (content: string) => {
-    const requestId =
-      selectedUser.incomingRequest?.id || selectedUser.outgoingRequest?.id;
-    if (!requestId) return;
-
-    sendMessage.mutate({ requestId, content });
+  const sendMessage = trpc.user.messages.sendMessage.useMutation({
+    onError: toastMutationError,
+    onSuccess: (_message, { content }) => {
+      onMessageSent(selectedUser.id);
 
-    // Send email notification
-    if (user && user.email && selectedUser.email) {
+      // Send email notification once the message is saved
       sendMessageNotification({
-        senderName: user.preferredName || "",
-        senderEmail: user.email,
-        receiverName: selectedUser.preferredName || "",
-        receiverEmail: selectedUser.email,
+        receiverId: selectedUser.id,
         messageText: content,
       });
-    } else {
-      console.error(
-        "Unable to send message notification: Missing email address"
-      );
-    }
+    },
+  });
+
+  const handleSendMessage = (content: string) => {
+    if (!request) return;
+
+    sendMessage.mutate({ requestId: request.id, content });
   };
 
   const { mutate: sendAcceptanceNotification } =
@@ -88,29 +90,13 @@ const MessagePanel = ({
     await handleAcceptRequest(user, selectedUser, request);
 
     // Send acceptance notification email
-    if (user.email && selectedUser.email) {
-      sendAcceptanceNotification({
-        senderName: user.preferredName || "",
-        senderEmail: user.email,
-        receiverName: selectedUser.preferredName || "",
-        receiverEmail: selectedUser.email,
-        isDriver: user.role === "DRIVER",
-      });
-    } else {
-      console.error(
-        "Unable to send acceptance notification: Missing email address"
-      );
-    }
+    sendAcceptanceNotification({ receiverId: selectedUser.id });
 
     onCloseConversation(""); // Close the conversation after accepting
   };
 
   const handleReject = async () => {
-    if (!user || !selectedUser) return;
-
-    const request =
-      selectedUser.incomingRequest || selectedUser.outgoingRequest;
-    if (!request) return;
+    if (!user || !selectedUser || !request) return;
 
     await handleRejectRequest(user, selectedUser, request);
   };
@@ -164,7 +150,15 @@ const MessagePanel = ({
       {activeTab === "message" && (
         <div className="pointer-events-auto flex h-0 flex-1 flex-col bg-white">
           <MessageContent selectedUser={selectedUser} />
-          <SendBar onSendMessage={handleSendMessage} />
+          {request && !isOpenRequest(request) ? (
+            <div className="border-t p-6 text-center text-gray-500">
+              {`This request was ${requestStatusLabels[
+                request.status
+              ].toLowerCase()}. Send a new request to talk again.`}
+            </div>
+          ) : (
+            <SendBar onSendMessage={handleSendMessage} />
+          )}
         </div>
       )}
     </div>
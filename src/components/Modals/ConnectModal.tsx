@@ -2,7 +2,6 @@ import { Dialog } from "@headlessui/react";
 import React, { useState } from "react";
 import { useToasts } from "react-toast-notifications";
 import { EnhancedPublicUser, User } from "../../utils/types";
-import { toast } from "react-toastify";
 import { trpc } from "../../utils/trpc";
 import Image from "next/image";
 import StartIcon from "../../../public/start.png";
@@ -11,6 +10,9 @@ import StaticDayBox from "../Sidebar/StaticDayBox";
 import dayjs from "dayjs";
 import useProfileImage from "../../utils/useProfileImage";
 import { AiOutlineUser } from "react-icons/ai";
+import { legLabels } from "../../utils/legs";
+import { canDrive } from "../../utils/roles";
+import { toastMutationError } from "../../utils/rateLimit";
 
 interface ConnectModalProps {
   user: User;
@@ -43,44 +45,37 @@ const ConnectModal = (props: ConnectModalProps): JSX.Element => {
   };
 
   const utils = trpc.useContext();
-  const { mutate: createRequests } = trpc.user.requests.create.useMutation({
-    onError: (error: any) => {
-      toast.error(`Something went wrong: ${error.message}`);
-    },
-    async onSuccess() {
-      setRequestSent(true);
-    },
-  });
   const { mutate: sendConnectEmail } =
     trpc.user.emails.sendRequestNotification.useMutation({
-      onError: (error: any) => {
-        toast.error(`Something went wrong: ${error.message}`);
-      },
+      onError: toastMutationError,
       onSuccess: () => {
         console.log("Email sent successfully");
       },
     });
-
-  const handleOnClick = () => {
-    if (props.user.email && props.otherUser.email) {
+  // the email only goes out once the request is created, so a rejected request sends nothing
+  const { mutate: createRequests } = trpc.user.requests.create.useMutation({
+    onError: toastMutationError,
+    async onSuccess() {
+      setRequestSent(true);
       sendConnectEmail({
-        senderName: props.user.preferredName,
-        senderEmail: props.user.email,
-        receiverName: props.otherUser.preferredName,
-        receiverEmail: props.otherUser.email,
-        isDriver: props.otherUser.role === "DRIVER",
+        receiverId: props.otherUser.id,
         messagePreview: customMessage,
       });
-      createRequests({
-        fromId: props.user.id,
-        toId: props.otherUser.id,
-        message: customMessage,
-      });
       addToast(
         "A request to carpool has been sent to " +
           props.otherUser.preferredName,
         { appearance: "success" }
       );
+    },
+  });
+
+  const handleOnClick = () => {
+    if (props.user.email && props.otherUser.email) {
+      createRequests({
+        fromId: props.user.id,
+        toId: props.otherUser.id,
+        message: customMessage,
+      });
     }
   };
   const daysOfWeek = ["Su", "M", "Tu", "W", "Th", "F", "S"];
@@ -219,12 +214,21 @@ const ConnectModal = (props: ConnectModalProps): JSX.Element => {
                         </p>
                       </div>
                     </div>
-                    {props.otherUser.role === "DRIVER" && (
+                    <div className="flex flex-row">
+                      <div className="mr-1">Carpools:</div>
+                      <div className="font-semibold">
+                        {legLabels[props.otherUser.legs]}
+                      </div>
+                    </div>
+                    {canDrive(props.otherUser) && (
                       <div className="flex flex-row">
                         <div className="mr-1">Seats Available:</div>
                         <div className="font-semibold">
                           {props.otherUser.seatAvail}
                         </div>
+                        {props.otherUser.role === "RIDER" && (
+                          <div className="ml-1 italic">(can also drive)</div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -2,10 +2,11 @@ import { Dialog } from "@headlessui/react";
 import { useState } from "react";
 import { useToasts } from "react-toast-notifications";
 import { EnhancedPublicUser, User } from "../../utils/types";
-import { Request, Role } from "@prisma/client";
+import { Request } from "@prisma/client";
 import { trpc } from "../../utils/trpc";
 import { toast } from "react-toastify";
 import { trackRequestResponse } from "../../utils/mixpanel";
+import { chooseDriver, DrivingUser } from "../../utils/roles";
 
 interface ReceivedModalProps {
   user: User;
@@ -24,7 +25,7 @@ const ReceivedRequestModal = (props: ReceivedModalProps): JSX.Element => {
   };
 
   const utils = trpc.useContext();
-  const { mutate: deleteRequest } = trpc.user.requests.delete.useMutation({
+  const { mutate: declineRequest } = trpc.user.requests.decline.useMutation({
     onError: (error: any) => {
       toast.error(`Something went wrong: ${error.message}`);
     },
@@ -34,6 +35,15 @@ const ReceivedRequestModal = (props: ReceivedModalProps): JSX.Element => {
     },
   });
 
+  const { mutateAsync: acceptRequest } = trpc.user.requests.accept.useMutation({
+    onError: (error: any) => {
+      toast.error(`Something went wrong: ${error.message}`);
+    },
+    onSuccess() {
+      utils.user.requests.me.invalidate();
+    },
+  });
+
   const { mutate: mutateGroup } = trpc.user.groups.edit.useMutation({
     onError: (error: any) => {
       toast.error(`Something went wrong: ${error.message}`);
@@ -54,25 +64,31 @@ const ReceivedRequestModal = (props: ReceivedModalProps): JSX.Element => {
     },
   });
 
-  const handleDelete = () => {
-    deleteRequest({
-      invitationId: props.req.id,
-    });
-  };
-
   const handleRejectClick = () => {
     trackRequestResponse('decline');
-    handleDelete();
+    declineRequest({ invitationId: props.req.id });
     onClose();
     addToast(
       props.otherUser.preferredName +
-        "'s request to carpool with you has been deleted.",
+        "'s request to carpool with you has been declined.",
       { appearance: "success" }
     );
   };
 
+  // flexible riders may drive or ride, so work out who drives before anything else
+  const pair = chooseDriver<DrivingUser>(props.user, props.otherUser);
+  const userDrives = pair?.driver.id === props.user.id;
+
   const validateRequestAcceptance = () => {
-    if (props.user.role == "DRIVER") {
+    if (!pair) {
+      addToast(
+        "Neither you nor " +
+          props.otherUser.preferredName +
+          " can drive the other."
+      );
+      return false;
+    }
+    if (userDrives) {
       if (props.user.seatAvail === 0) {
         addToast(
           "You do not have any space in your car to accept " +
@@ -103,7 +119,7 @@ const ReceivedRequestModal = (props: ReceivedModalProps): JSX.Element => {
   };
 
   const initiateGroup = () => {
-    if (props.user.role === Role.DRIVER) {
+    if (userDrives) {
       if (props.user.carpoolId) {
         mutateGroup({
           driverId: props.user.id,
@@ -131,8 +147,10 @@ const ReceivedRequestModal = (props: ReceivedModalProps): JSX.Element => {
   const handleAcceptClick = () => {
     if (validateRequestAcceptance()) {
       trackRequestResponse('accept');
-      initiateGroup();
-      handleDelete();
+      // the group is only formed once the request is marked accepted
+      acceptRequest({ invitationId: props.req.id })
+        .then(initiateGroup)
+        .catch(() => undefined);
       onClose();
       addToast(
         props.otherUser.preferredName +
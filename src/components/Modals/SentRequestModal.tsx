@@ -23,7 +23,7 @@ const SentRequestModal = (props: SentModalProps): JSX.Element => {
   };
 
   const utils = trpc.useContext();
-  const { mutate: deleteRequest } = trpc.user.requests.delete.useMutation({
+  const { mutate: withdrawRequest } = trpc.user.requests.withdraw.useMutation({
     onError: (error: any) => {
       toast.error(`Something went wrong: ${error.message}`);
     },
@@ -34,7 +34,7 @@ const SentRequestModal = (props: SentModalProps): JSX.Element => {
   });
 
   const handleWithdrawRequest = () => {
-    deleteRequest({
+    withdrawRequest({
       invitationId: props.req.id,
     });
   };
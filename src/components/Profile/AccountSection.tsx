@@ -14,6 +14,24 @@ import { OnboardingFormInputs } from "../../utils/types";
 import { formatDateToMonth, handleMonthChange } from "../../utils/dateUtils";
 import FormControlLabel from "@mui/material/FormControlLabel";
 import { Switch } from "@mui/material";
+import BlockedUsersSection from "./BlockedUsersSection";
+
+const switchSx = {
+  overflow: "visible",
+  scale: 1.5,
+  "& .MuiSwitch-switchBase.Mui-checked": {
+    color: "white",
+    hover: "none",
+    "& + .MuiSwitch-track": {
+      backgroundColor: "#C8102E",
+      opacity: 1,
+    },
+  },
+  "& .MuiSwitch-track": {
+    backgroundColor: "#bdbdbd",
+  },
+};
+
 interface AccountSectionProps {
   errors: FieldErrors<OnboardingFormInputs>;
   setValue: UseFormSetValue<OnboardingFormInputs>;
@@ -56,21 +74,7 @@ const AccountSection = ({
                         )
                       }
                       color="default"
-                      sx={{
-                        overflow: "visible",
-                        scale: 1.5,
-                        "& .MuiSwitch-switchBase.Mui-checked": {
-                          color: "white",
-                          hover: "none",
-                          "& + .MuiSwitch-track": {
-                            backgroundColor: "#C8102E",
-                            opacity: 1,
-                          },
-                        },
-                        "& .MuiSwitch-track": {
-                          backgroundColor: "#bdbdbd",
-                        },
-                      }}
+                      sx={switchSx}
                       inputProps={{
                         "aria-label": "Mark profile inactive",
                       }}
@@ -89,6 +93,39 @@ const AccountSection = ({
             )}
           />
         )}
+        {!isViewer && (
+          <Controller
+            name="weeklyDigest"
+            control={control}
+            render={({ field }) => (
+              <div className="flex flex-col items-start font-montserrat">
+                <EntryLabel
+                  label="Weekly Match Digest"
+                  className={"mb-2 mt-12 !text-2xl"}
+                />
+                <FormControlLabel
+                  className="mb-6 mt-4 pl-3"
+                  control={
+                    <Switch
+                      checked={field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      color="default"
+                      sx={switchSx}
+                      inputProps={{
+                        "aria-label": "Receive the weekly match digest",
+                      }}
+                    />
+                  }
+                  label=""
+                />
+                <Note className=" w-full font-lato !text-base !text-black">
+                  While you aren&apos;t in a carpool group, we email you your
+                  top matches once a week.
+                </Note>
+              </div>
+            )}
+          />
+        )}
         <EntryLabel
           label="Co-op Term Dates"
           className={"mb-6 mt-12 !text-2xl"}
@@ -146,6 +183,7 @@ const AccountSection = ({
             Save Changes
           </button>
         </div>
+        <BlockedUsersSection />
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+import React from "react";
+import { toast } from "react-toastify";
+import { trpc } from "../../utils/trpc";
+import { PublicUser } from "../../utils/types";
+import { EntryLabel } from "../EntryLabel";
+import { Note } from "../../styles/profile";
+
+interface UserListProps {
+  users: PublicUser[];
+  emptyText: string;
+  actionText: string;
+  onAction: (userId: string) => void;
+}
+
+const UserList = ({ users, emptyText, actionText, onAction }: UserListProps) =>
+  users.length === 0 ? (
+    <Note className="py-2">{emptyText}</Note>
+  ) : (
+    <div className="flex flex-col gap-2 py-2">
+      {users.map((user) => (
+        <div
+          key={user.id}
+          className="flex items-center justify-between rounded-lg bg-stone-100 px-4 py-2"
+        >
+          <div className="flex flex-col">
+            <span className="font-semibold">{user.preferredName}</span>
+            <span className="text-sm text-gray-500">{user.companyName}</span>
+          </div>
+          <button
+            type="button"
+            className="rounded-lg border border-black px-3 py-1 text-sm hover:bg-stone-200"
+            onClick={() => onAction(user.id)}
+          >
+            {actionText}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
+/**
+ * Lists the users the user has blocked or hidden, letting them undo either.
+ */
+const BlockedUsersSection = () => {
+  const utils = trpc.useContext();
+  const { data: lists = { blocked: [], hidden: [] } } =
+    trpc.user.blocks.me.useQuery();
+  const mutationOptions = {
+    onSuccess: () => utils.user.blocks.me.invalidate(),
+    onError: (error: { message: string }) => {
+      toast.error(`Something went wrong: ${error.message}`);
+    },
+  };
+  const block = trpc.user.blocks.block.useMutation(mutationOptions);
+  const hide = trpc.user.blocks.hide.useMutation(mutationOptions);
+
+  return (
+    <div className="font-montserrat">
+      <EntryLabel label="Blocked Users" className={"mb-2 mt-12 !text-2xl"} />
+      <Note className="py-2">
+        You and blocked users can&apos;t see each other or send each other
+        requests or messages.
+      </Note>
+      <UserList
+        users={lists.blocked}
+        emptyText="You haven't blocked anyone."
+        actionText="Unblock"
+        onAction={(userId) => block.mutate({ userId, add: false })}
+      />
+      <EntryLabel label="Hidden Users" className={"mb-2 mt-8 !text-2xl"} />
+      <Note className="py-2">
+        Hidden users don&apos;t show up in your recommendations, map or
+        favorites, but can still find and contact you.
+      </Note>
+      <UserList
+        users={lists.hidden}
+        emptyText="You haven't hidden anyone."
+        actionText="Unhide"
+        onAction={(userId) => hide.mutate({ userId, add: false })}
+      />
+    </div>
+  );
+};
+
+export default BlockedUsersSection;
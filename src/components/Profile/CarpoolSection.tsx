@@ -17,6 +17,9 @@ import ControlledAddressCombobox from "./ControlledAddressCombobox";
 import Checkbox from "@mui/material/Checkbox";
 import DayBox from "./DayBox";
 import ControlledTimePicker from "./ControlledTimePicker";
+import DayTimesEditor from "./DayTimesEditor";
+import ControlledTimezoneSelect from "./ControlledTimezoneSelect";
+import ControlledLegSelect from "./ControlledLegSelect";
 import { useAddressSelection } from "../../utils/useAddressSelection";
 interface CarpoolSectionProps {
   register: UseFormRegister<OnboardingFormInputs>;
@@ -115,6 +118,17 @@ const CarpoolSection = ({
           />
         </div>
       </div>
+      <div className="flex flex-col gap-2 pb-4 md:w-96">
+        <EntryLabel label="Carpooling" />
+        <ControlledLegSelect control={control} isDisabled={isViewer} />
+      </div>
+      <div className="flex flex-col gap-2 pb-4 md:w-96">
+        <EntryLabel label="Timezone" />
+        <ControlledTimezoneSelect control={control} isDisabled={isViewer} />
+      </div>
+      <div className="md:w-96">
+        <DayTimesEditor control={control} watch={watch} isDisabled={isViewer} />
+      </div>
       <Note className="py-4 md:w-96">
         Please input the start and end times of your work, rather than your
         departure times. If your work hours are flexible, coordinate directly
@@ -0,0 +1,47 @@
+import { CommuteLeg } from "@prisma/client";
+import { Control, Controller } from "react-hook-form";
+import { OnboardingFormInputs } from "../../utils/types";
+import { legLabels } from "../../utils/legs";
+import { classNames } from "../../utils/classNames";
+
+interface ControlledLegSelectProps {
+  control: Control<OnboardingFormInputs>;
+  isDisabled?: boolean;
+}
+
+/**
+ * Picks which legs of the commute the user wants to carpool for, e.g. only to work for riders
+ * who take the T home.
+ */
+const ControlledLegSelect = ({
+  control,
+  isDisabled = false,
+}: ControlledLegSelectProps) => (
+  <Controller
+    name="legs"
+    control={control}
+    render={({ field: { onChange, value } }) => (
+      <div className="flex w-full gap-2">
+        {Object.values(CommuteLeg).map((leg) => (
+          <button
+            key={leg}
+            type="button"
+            disabled={isDisabled}
+            onClick={() => onChange(leg)}
+            className={classNames(
+              "flex-1 rounded-lg border border-black px-2 py-1 font-montserrat text-sm",
+              value === leg
+                ? "bg-northeastern-red text-white"
+                : "bg-white text-black",
+              isDisabled && "cursor-not-allowed opacity-50"
+            )}
+          >
+            {legLabels[leg]}
+          </button>
+        ))}
+      </div>
+    )}
+  />
+);
+
+export default ControlledLegSelect;
@@ -11,7 +11,11 @@ import { ErrorDisplay } from "../../styles/profile";
 import * as React from "react";
 interface ControlledTimePickerProps {
   control: Control<OnboardingFormInputs>;
-  name: "startTime" | "endTime";
+  name:
+    | "startTime"
+    | "endTime"
+    | `dayTimes.${number}.startTime`
+    | `dayTimes.${number}.endTime`;
   placeholder?: string;
   value?: Date;
   isDisabled?: boolean;
@@ -0,0 +1,69 @@
+import { ConfigProvider, Select } from "antd";
+import _ from "lodash";
+import { Control, Controller } from "react-hook-form";
+import { OnboardingFormInputs } from "../../utils/types";
+
+interface ControlledTimezoneSelectProps {
+  control: Control<OnboardingFormInputs>;
+  isDisabled?: boolean;
+}
+
+const commonTimezones = [
+  { value: "America/New_York", label: "Eastern Time" },
+  { value: "America/Chicago", label: "Central Time" },
+  { value: "America/Denver", label: "Mountain Time" },
+  { value: "America/Phoenix", label: "Arizona Time" },
+  { value: "America/Los_Angeles", label: "Pacific Time" },
+  { value: "America/Anchorage", label: "Alaska Time" },
+  { value: "Pacific/Honolulu", label: "Hawaii Time" },
+];
+
+/**
+ * Picks the timezone the user's start and end times are in, so they can be compared with users
+ * working in other timezones. The browser's own timezone is offered if it isn't a common one.
+ */
+const ControlledTimezoneSelect = ({
+  control,
+  isDisabled = false,
+}: ControlledTimezoneSelectProps) => {
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <Controller
+      name="timezone"
+      control={control}
+      render={({ field: { onChange, value } }) => (
+        <ConfigProvider
+          theme={{
+            token: {
+              fontFamily: "Montserrat",
+              fontSize: 16,
+              colorPrimary: "#C8102E",
+            },
+          }}
+        >
+          <Select
+            showSearch
+            className="w-full"
+            disabled={isDisabled}
+            value={value}
+            onChange={onChange}
+            filterOption={(input, option) =>
+              (option?.label ?? "").toLowerCase().includes(input.toLowerCase())
+            }
+            options={_.uniqBy(
+              [
+                ...commonTimezones,
+                { value: browserTimezone, label: browserTimezone },
+                { value, label: value },
+              ],
+              "value"
+            )}
+          />
+        </ConfigProvider>
+      )}
+    />
+  );
+};
+
+export default ControlledTimezoneSelect;
@@ -0,0 +1,90 @@
+import { Control, Controller, UseFormWatch } from "react-hook-form";
+import Checkbox from "@mui/material/Checkbox";
+import { OnboardingFormInputs } from "../../utils/types";
+import { Note } from "../../styles/profile";
+import ControlledTimePicker from "./ControlledTimePicker";
+
+interface DayTimesEditorProps {
+  control: Control<OnboardingFormInputs>;
+  watch: UseFormWatch<OnboardingFormInputs>;
+  isDisabled?: boolean;
+}
+
+const dayNames = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Lets users with different hours on some days (e.g. late Fridays) set start and end times for
+ * each day they go in. Days left empty use the usual start and end time.
+ */
+const DayTimesEditor = ({
+  control,
+  watch,
+  isDisabled = false,
+}: DayTimesEditorProps) => {
+  const timeDiffers = watch("timeDiffers");
+  const daysWorking = watch("daysWorking");
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center gap-2 font-montserrat text-sm">
+        <Controller
+          name="timeDiffers"
+          control={control}
+          render={({ field: { onChange, value } }) => (
+            <Checkbox
+              sx={{ padding: 0, "&.Mui-checked": { color: "#C8102E" } }}
+              disabled={isDisabled}
+              checked={value}
+              onChange={onChange}
+            />
+          )}
+        />
+        My hours are different on some days
+      </label>
+      {timeDiffers && (
+        <div className="flex flex-col gap-2">
+          {daysWorking.map(
+            (isWorking, index) =>
+              isWorking && (
+                <div
+                  key={dayNames[index]}
+                  className="flex flex-row items-center gap-4"
+                >
+                  <p className="w-24 font-montserrat text-sm font-semibold">
+                    {dayNames[index]}
+                  </p>
+                  <div className="flex-1">
+                    <ControlledTimePicker
+                      isDisabled={isDisabled}
+                      control={control}
+                      name={`dayTimes.${index}.startTime`}
+                      placeholder="Usual start"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <ControlledTimePicker
+                      isDisabled={isDisabled}
+                      control={control}
+                      name={`dayTimes.${index}.endTime`}
+                      placeholder="Usual end"
+                    />
+                  </div>
+                </div>
+              )
+          )}
+          <Note>Leave a day empty to use your usual start and end time.</Note>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DayTimesEditor;
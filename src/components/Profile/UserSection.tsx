@@ -12,6 +12,7 @@ import {
 } from "react-hook-form";
 import { OnboardingFormInputs } from "../../utils/types";
 import ProfilePicture from "./ProfilePicture";
+import { canDrive } from "../../utils/roles";
 interface UserSectionProps {
   register: UseFormRegister<OnboardingFormInputs>;
   errors: FieldErrors<OnboardingFormInputs>;
@@ -65,7 +66,7 @@ const UserSection = ({
           {...register("role")}
         />
 
-        {watch("role") == Role.DRIVER && (
+        {canDrive({ role: watch("role"), canDrive: watch("canDrive") }) && (
           <div className="flex  flex-1 flex-col">
             <EntryLabel
               required={true}
@@ -94,6 +95,16 @@ const UserSection = ({
           {watch("role") === Role.RIDER && (
             <span>Looking for a Carpool to join.</span>
           )}
+          {watch("role") === Role.RIDER && (
+            <label className="mt-1 flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-northeastern-red"
+                {...register("canDrive")}
+              />
+              I can also drive, so match me with riders too
+            </label>
+          )}
           {watch("role") === Role.VIEWER && (
             <span>
               As a viewer, you can see other riders and drivers on the map but
@@ -101,9 +112,10 @@ const UserSection = ({
             </span>
           )}
         </Note>
-        {errors.seatAvail && watch("role") === Role.DRIVER && (
-          <ErrorDisplay>{errors.seatAvail.message}</ErrorDisplay>
-        )}
+        {errors.seatAvail &&
+          canDrive({ role: watch("role"), canDrive: watch("canDrive") }) && (
+            <ErrorDisplay>{errors.seatAvail.message}</ErrorDisplay>
+          )}
       </div>
       <EntryLabel label="Personal Info" className="mb-4 mt-6 !text-2xl" />
       <div className=" mb-12 ml-10 w-full ">
@@ -6,6 +6,7 @@ import {
   UseFormSetValue,
 } from "react-hook-form";
 import { Role } from "@prisma/client";
+import { canDrive } from "../../utils/roles";
 import { TextField } from "../TextField";
 
 import FormRadioButton from "./FormRadioButton";
@@ -82,11 +83,21 @@ const InitialStep = ({
             {watch("role") === Role.RIDER && (
               <span>Looking for a Carpool to join.</span>
             )}
+            {watch("role") === Role.RIDER && (
+              <label className="mt-2 flex items-center justify-center gap-2 text-base">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-northeastern-red"
+                  {...register("canDrive")}
+                />
+                I can also drive, so match me with riders too
+              </label>
+            )}
             {watch("role") === Role.VIEWER && (
               <span> View the map and change your role later!</span>
             )}
           </p>
-          {watch("role") === Role.DRIVER && (
+          {canDrive({ role: watch("role"), canDrive: watch("canDrive") }) && (
             <div className="mt-2 flex flex-1 items-center justify-center gap-4">
               <div className="flex flex-col">
                 <div className="flex items-center justify-center">
@@ -12,6 +12,9 @@ import Checkbox from "@mui/material/Checkbox";
 import { ErrorDisplay, Note } from "../../styles/profile";
 import { EntryLabel } from "../EntryLabel";
 import ControlledTimePicker from "../Profile/ControlledTimePicker";
+import DayTimesEditor from "../Profile/DayTimesEditor";
+import ControlledTimezoneSelect from "../Profile/ControlledTimezoneSelect";
+import ControlledLegSelect from "../Profile/ControlledLegSelect";
 import { TextField } from "../TextField";
 import { formatDateToMonth, handleMonthChange } from "../../utils/dateUtils";
 import StaticDayBox from "../Sidebar/StaticDayBox";
@@ -130,6 +133,23 @@ const StepThree = ({
             </div>
           </div>
 
+          {/* Legs of the commute to carpool for */}
+          <div className="flex w-3/4 flex-col pt-2">
+            <EntryLabel label="Carpooling" />
+            <ControlledLegSelect control={control} />
+          </div>
+
+          {/* Timezone the times are in */}
+          <div className="flex w-3/4 flex-col pt-2">
+            <EntryLabel label="Timezone" />
+            <ControlledTimezoneSelect control={control} />
+          </div>
+
+          {/* Different hours on some days */}
+          <div className="w-3/4 pt-2">
+            <DayTimesEditor control={control} watch={watch} />
+          </div>
+
           {/* Note for Time Section */}
           <div className="w-full">
             <Note className="py-2">
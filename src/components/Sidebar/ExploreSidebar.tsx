@@ -10,10 +10,16 @@ import Filters from "../Filters";
 import { FaFilter } from "react-icons/fa6";
 import CustomSelect from "./CustomSelect";
 import { UserContext } from "../../utils/userContext";
+import { trpc } from "../../utils/trpc";
 
 interface ExploreSidebarProps {
   recs: EnhancedPublicUser[];
+  recsTotal: number;
+  hasMoreRecs: boolean;
+  onLoadMoreRecs: () => void;
   favs: EnhancedPublicUser[];
+  alerts: EnhancedPublicUser[];
+  unseenAlerts: number;
   setFilters: React.Dispatch<React.SetStateAction<FiltersState>>;
   defaultFilters: FiltersState;
   setSort: React.Dispatch<React.SetStateAction<string>>;
@@ -26,9 +32,13 @@ interface ExploreSidebarProps {
 
 const ExploreSidebar = (props: ExploreSidebarProps) => {
   const user = useContext(UserContext);
-  const [curOption, setCurOption] = useState<"recommendations" | "favorites">(
-    "recommendations"
-  );
+  const utils = trpc.useContext();
+  const [curOption, setCurOption] = useState<
+    "recommendations" | "favorites" | "alerts"
+  >("recommendations");
+  const markAlertsSeen = trpc.user.matchAlerts.markSeen.useMutation({
+    onSuccess: () => utils.user.matchAlerts.me.invalidate(),
+  });
   const [filtersOpen, setFiltersOpen] = useState(false);
   const getActiveFilters = () => {
     return {
@@ -41,6 +51,8 @@ const ExploreSidebar = (props: ExploreSidebarProps) => {
         props.defaultFilters.startDistance !== props.filters.startDistance,
       endDistance:
         props.defaultFilters.endDistance !== props.filters.endDistance,
+      detour: props.defaultFilters.detour !== props.filters.detour,
+      corridor: props.defaultFilters.corridor !== props.filters.corridor,
       favorites: props.defaultFilters.favorites !== props.filters.favorites,
       messaged: props.defaultFilters.messaged !== props.filters.messaged,
     };
@@ -63,6 +75,8 @@ const ExploreSidebar = (props: ExploreSidebarProps) => {
     { value: "any", label: "Recommended" },
     { value: "distance", label: "Distance" },
     { value: "time", label: "Time" },
+    { value: "route", label: "Along Route" },
+    { value: "mutual", label: "Mutual Fit" },
   ];
   return (
     <div className="z-10 flex h-full flex-shrink-0 flex-col bg-white text-left">
@@ -93,6 +107,29 @@ const ExploreSidebar = (props: ExploreSidebarProps) => {
           >
             Favorites
           </button>
+          <button
+            className={`relative ${
+              curOption === "alerts"
+                ? "rounded-xl bg-northeastern-red p-2 text-xl font-semibold text-white"
+                : "rounded-xl p-2 text-xl font-semibold text-black"
+            }`}
+            onClick={() => {
+              setCurOption("alerts");
+              setFiltersOpen(false);
+              if (props.unseenAlerts > 0) {
+                markAlertsSeen.mutate();
+              }
+            }}
+          >
+            Alerts
+            {props.unseenAlerts > 0 && (
+              <span className="absolute -right-2 -top-2 flex h-6 w-6 items-center justify-center rounded-full bg-northeastern-red">
+                <span className="text-xs font-bold text-white">
+                  {props.unseenAlerts}
+                </span>
+              </span>
+            )}
+          </button>
         </div>
 
         {!filtersOpen && !props.disabled && curOption === "recommendations" && (
@@ -116,6 +153,11 @@ const ExploreSidebar = (props: ExploreSidebarProps) => {
             </button>
           </div>
         )}
+        {!filtersOpen && !props.disabled && curOption === "recommendations" && (
+          <p className="mx-4 mt-2 text-sm text-gray-500">
+            {props.recsTotal} {props.recsTotal === 1 ? "match" : "matches"}
+          </p>
+        )}
       </div>
 
       <div className="relative h-full w-full ">
@@ -124,13 +166,19 @@ const ExploreSidebar = (props: ExploreSidebarProps) => {
             setFilters={props.setFilters}
             activeFilters={activeFilters}
             filters={props.filters}
+            sort={props.sort}
+            setSort={props.setSort}
             onClose={() => setFiltersOpen(false)}
             resetFilters={() => resetFilters()}
           />
         ) : (
           <SidebarContent
             userCardList={
-              curOption == "recommendations" ? props.recs : props.favs
+              curOption == "recommendations"
+                ? props.recs
+                : curOption == "alerts"
+                ? props.alerts
+                : props.favs
             }
             subType={curOption}
             disabled={props.disabled}
@@ -138,6 +186,8 @@ const ExploreSidebar = (props: ExploreSidebarProps) => {
             onCardClick={() => {}}
             selectedUser={null}
             onViewRequest={props.onViewRequest}
+            hasMore={curOption === "recommendations" && props.hasMoreRecs}
+            onLoadMore={props.onLoadMoreRecs}
           />
         )}
       </div>
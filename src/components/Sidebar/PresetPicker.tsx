@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import {
+  FaBell,
+  FaLink,
+  FaRegBell,
+  FaRegStar,
+  FaStar,
+  FaTrash,
+} from "react-icons/fa6";
+import { toast } from "react-toastify";
+import { trpc } from "../../utils/trpc";
+import { FiltersState } from "../../utils/types";
+import {
+  applyPreset,
+  presetFromFilters,
+  presetShareUrl,
+} from "../../utils/filterPresets";
+
+interface PresetPickerProps {
+  filters: FiltersState;
+  setFilters: React.Dispatch<React.SetStateAction<FiltersState>>;
+  sort: string;
+  setSort: React.Dispatch<React.SetStateAction<string>>;
+}
+
+/**
+ * Lists the user's saved filter presets, letting them apply, share, delete, get alerts for, or
+ * pick one to load by default, and save the current filters and sort as a new preset.
+ */
+const PresetPicker = ({
+  filters,
+  setFilters,
+  sort,
+  setSort,
+}: PresetPickerProps) => {
+  const utils = trpc.useContext();
+  const [name, setName] = useState("");
+  const { data: presets = [] } = trpc.user.filterPresets.me.useQuery();
+  const onError = (error: { message: string }) => {
+    toast.error(`Something went wrong: ${error.message}`);
+  };
+  const onSuccess = () => utils.user.filterPresets.me.invalidate();
+  const createPreset = trpc.user.filterPresets.create.useMutation({
+    onSuccess: () => {
+      setName("");
+      onSuccess();
+    },
+    onError,
+  });
+  const setDefault = trpc.user.filterPresets.setDefault.useMutation({
+    onSuccess,
+    onError,
+  });
+  const updatePreset = trpc.user.filterPresets.update.useMutation({
+    onSuccess,
+    onError,
+  });
+  const deletePreset = trpc.user.filterPresets.delete.useMutation({
+    onSuccess,
+    onError,
+  });
+
+  const copyShareLink = (presetId: string) => {
+    navigator.clipboard
+      .writeText(presetShareUrl(presetId))
+      .then(() => toast.success("Link copied"))
+      .catch(() => toast.error("Couldn't copy the link"));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {presets.length === 0 && (
+        <p className="text-sm text-gray-500">No saved presets yet.</p>
+      )}
+      {presets.map((preset) => (
+        <div key={preset.id} className="flex items-center gap-3">
+          <button
+            className="flex-1 truncate text-left hover:text-northeastern-red"
+            onClick={() => {
+              setFilters((prev) => applyPreset(prev, preset.filters));
+              setSort(preset.sort);
+            }}
+          >
+            {preset.name}
+          </button>
+          <button
+            title={
+              preset.isDefault ? "Stop loading by default" : "Load by default"
+            }
+            className="text-northeastern-red"
+            onClick={() =>
+              setDefault.mutate({
+                presetId: preset.isDefault ? null : preset.id,
+              })
+            }
+          >
+            {preset.isDefault ? <FaStar /> : <FaRegStar />}
+          </button>
+          <button
+            title={
+              preset.alerts
+                ? "Stop alerts"
+                : "Alert me when someone new matches"
+            }
+            onClick={() =>
+              updatePreset.mutate({
+                presetId: preset.id,
+                alerts: !preset.alerts,
+              })
+            }
+          >
+            {preset.alerts ? <FaBell /> : <FaRegBell />}
+          </button>
+          <button title="Copy link" onClick={() => copyShareLink(preset.id)}>
+            <FaLink />
+          </button>
+          <button
+            title="Delete"
+            onClick={() => deletePreset.mutate({ presetId: preset.id })}
+          >
+            <FaTrash />
+          </button>
+        </div>
+      ))}
+      <div className="mt-2 flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          maxLength={60}
+          className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-1 focus:outline-none focus:ring-2 focus:ring-northeastern-red"
+        />
+        <button
+          disabled={!name.trim() || createPreset.isLoading}
+          className="rounded-lg bg-northeastern-red px-3 py-1 font-semibold text-white hover:bg-busy-red disabled:opacity-50"
+          onClick={() =>
+            createPreset.mutate({
+              name,
+              filters: presetFromFilters(filters),
+              sort,
+            })
+          }
+        >
+          Save current
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresetPicker;
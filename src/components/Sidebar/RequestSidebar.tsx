@@ -1,7 +1,11 @@
 import React, { useState } from "react";
+import _ from "lodash";
 import { EnhancedPublicUser, PublicUser, User } from "../../utils/types";
 import { SidebarContent } from "./SidebarContent";
 import CustomSelect from "./CustomSelect";
+import { isOpenRequest } from "../../utils/requestStatus";
+import { trpc } from "../../utils/trpc";
+import useRealtime from "../../utils/useRealtime";
 interface RequestSidebarProps {
   received: EnhancedPublicUser[];
   sent: EnhancedPublicUser[];
@@ -15,14 +19,40 @@ interface Option<T> {
   label: string;
 }
 const RequestSidebar = (props: RequestSidebarProps) => {
-  const [curOption, setCurOption] = useState<"received" | "sent" | "all">(
-    "all"
-  );
-  const options: Option<"received" | "sent" | "all">[] = [
+  const [curOption, setCurOption] = useState<
+    "received" | "sent" | "all" | "history"
+  >("all");
+  const options: Option<"received" | "sent" | "all" | "history">[] = [
     { value: "all", label: "All" },
     { value: "received", label: "Received" },
     { value: "sent", label: "Sent" },
+    { value: "history", label: "History" },
   ];
+  // requests that are pending or accepted, the rest are only listed under history
+  const received = props.received.filter(
+    (user) => user.incomingRequest && isOpenRequest(user.incomingRequest)
+  );
+  const sent = props.sent.filter(
+    (user) => user.outgoingRequest && isOpenRequest(user.outgoingRequest)
+  );
+  const open = _.uniqBy([...received, ...sent], "id");
+  const openIds = new Set(open.map((user) => user.id));
+  const history = _.uniqBy([...props.received, ...props.sent], "id").filter(
+    (user) => !openIds.has(user.id)
+  );
+  const utils = trpc.useContext();
+  // new, answered and withdrawn requests and the latest messages show up without a refresh
+  useRealtime(
+    (event) => {
+      if (event.type === "request") {
+        utils.user.requests.me.invalidate();
+        utils.user.recommendations.me.invalidate();
+      } else if (event.type === "message") {
+        utils.user.requests.me.invalidate();
+      }
+    },
+    () => utils.user.requests.me.invalidate()
+  );
   const handleCardClick = (userId: string) => {
     props.onUserSelect(userId);
   };
@@ -42,10 +72,12 @@ const RequestSidebar = (props: RequestSidebarProps) => {
       <SidebarContent
         userCardList={
           curOption === "all"
-            ? [...props.received, ...props.sent]
+            ? open
+            : curOption === "history"
+            ? history
             : curOption === "sent"
-            ? props.sent
-            : props.received
+            ? sent
+            : received
         }
         subType={curOption}
         disabled={props.disabled}
@@ -24,7 +24,12 @@ interface SidebarProps {
   map: mapboxgl.Map;
   role: string;
   recs: EnhancedPublicUser[];
+  recsTotal: number;
+  hasMoreRecs: boolean;
+  onLoadMoreRecs: () => void;
   favs: EnhancedPublicUser[];
+  alerts: EnhancedPublicUser[]; // users who matched the user's saved presets
+  unseenAlerts: number;
   received: EnhancedPublicUser[];
   sent: EnhancedPublicUser[];
   onViewRouteClick: (user: User, otherUser: PublicUser) => void;
@@ -46,7 +51,12 @@ export const SidebarPage = (props: SidebarProps) => {
         filters={props.filters}
         defaultFilters={props.defaultFilters}
         recs={props.recs}
+        recsTotal={props.recsTotal}
+        hasMoreRecs={props.hasMoreRecs}
+        onLoadMoreRecs={props.onLoadMoreRecs}
         favs={props.favs}
+        alerts={props.alerts}
+        unseenAlerts={props.unseenAlerts}
         disabled={disabled}
         viewRoute={props.onViewRouteClick}
         onViewRequest={props.onUserSelect}
@@ -14,6 +14,8 @@ import {
   getLatestMessageForRequest,
 } from "../../utils/latestMessage";
 import { UserContext } from "../../utils/userContext";
+import { currentRequest } from "../../utils/requestStatus";
+import InfiniteScroll from "react-infinite-scroll-component";
 
 interface SidebarContentProps {
   subType: string;
@@ -23,6 +25,8 @@ interface SidebarContentProps {
   onCardClick: (userId: string) => void;
   selectedUser: EnhancedPublicUser | null;
   onViewRequest: (userId: string) => void;
+  hasMore?: boolean; // whether more cards can be loaded by scrolling to the bottom
+  onLoadMore?: () => void;
 }
 
 const emptyMessages = {
@@ -34,9 +38,13 @@ const emptyMessages = {
     "You are currently in Viewer mode, to get recommendations select Driver or Rider in profile.",
   favorites: `You have no users currently favorited.
   Click the star icon on the upper-right side of a user's card to add them to your favorites!`,
+  alerts: `You have no new match alerts.
+  Turn on alerts for a saved preset in the filters to hear when someone new matches it!`,
   sent: "You have no current outgoing requests. Send requests to other users through the recommendations sidebar!",
   received: "You have no current incoming requests. Hold tight!",
   all: "You have no incoming or outgoing requests. Send a request or hold tight!",
+  history:
+    "You have no past requests. Declined, withdrawn and expired requests show up here.",
 };
 
 const emptyMessage = (card: string, disabled: boolean): string => {
@@ -47,12 +55,16 @@ const emptyMessage = (card: string, disabled: boolean): string => {
         : emptyMessages.recommendations;
     case "favorites":
       return emptyMessages.favorites;
+    case "alerts":
+      return emptyMessages.alerts;
     case "sent":
       return disabled ? emptyMessages.disabledReq : emptyMessages.sent;
     case "received":
       return disabled ? emptyMessages.disabledReq : emptyMessages.received;
     case "all":
       return disabled ? emptyMessages.disabledReq : emptyMessages.all;
+    case "history":
+      return disabled ? emptyMessages.disabledReq : emptyMessages.history;
     default:
       return "";
   }
@@ -80,6 +92,7 @@ const renderUserCard = (
         />
       );
     case "favorites":
+    case "alerts":
       return (
         <ConnectCard
           key={otherUser.id}
@@ -117,7 +130,11 @@ const renderUserCard = (
         );
       }
     case "all":
-      if (otherUser.incomingRequest) {
+    case "history":
+      if (
+        otherUser.incomingRequest &&
+        currentRequest(otherUser) === otherUser.incomingRequest
+      ) {
         return (
           <ReceivedCard
             key={otherUser.id}
@@ -153,7 +170,7 @@ export const SidebarContent = (props: SidebarContentProps) => {
 
   const sortedUserCards = props.userCardList
     .map((otherUser) => {
-      const request = otherUser.incomingRequest || otherUser.outgoingRequest;
+      const request = currentRequest(otherUser);
 
       if (!request) {
         return { otherUser, isUnread: false, latestActivityDate: new Date(0) };
@@ -173,25 +190,38 @@ export const SidebarContent = (props: SidebarContentProps) => {
     });
   return (
     <div className="relative h-full px-3.5">
-      <div className="relative h-full overflow-y-scroll pb-32  scrollbar scrollbar-track-stone-100 scrollbar-thumb-busy-red scrollbar-track-rounded-full scrollbar-thumb-rounded-full">
+      <div
+        id="sidebar-content-scroll"
+        className="relative h-full overflow-y-scroll pb-32  scrollbar scrollbar-track-stone-100 scrollbar-thumb-busy-red scrollbar-track-rounded-full scrollbar-thumb-rounded-full"
+      >
         {props.userCardList.length === 0 ||
-        (props.disabled && props.subType !== "favorites") ? (
+        (props.disabled &&
+          props.subType !== "favorites" &&
+          props.subType !== "alerts") ? (
           <div className="m-4 text-center text-lg font-light">
             {emptyMessage(props.subType, props.disabled)}
           </div>
         ) : (
-          sortedUserCards.map(({ otherUser, isUnread, latestMessage }) =>
-            renderUserCard(
-              props.subType,
-              otherUser,
-              props.onViewRouteClick,
-              props.onCardClick,
-              props.selectedUser,
-              props.onViewRequest,
-              isUnread,
-              !latestMessage ? undefined : latestMessage
-            )
-          )
+          <InfiniteScroll
+            dataLength={props.userCardList.length}
+            next={() => props.onLoadMore && props.onLoadMore()}
+            hasMore={!!props.hasMore}
+            loader={<Spinner />}
+            scrollableTarget="sidebar-content-scroll"
+          >
+            {sortedUserCards.map(({ otherUser, isUnread, latestMessage }) =>
+              renderUserCard(
+                props.subType,
+                otherUser,
+                props.onViewRouteClick,
+                props.onCardClick,
+                props.selectedUser,
+                props.onViewRequest,
+                isUnread,
+                !latestMessage ? undefined : latestMessage
+              )
+            )}
+          </InfiniteScroll>
         )}
       </div>
     </div>
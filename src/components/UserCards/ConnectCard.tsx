@@ -12,6 +12,7 @@ import ConnectModal from "../Modals/ConnectModal";
 import { UserContext } from "../../utils/userContext";
 import { Role } from "@prisma/client";
 import { trackEvent } from "../../utils/mixpanel";
+import { isOpenRequest } from "../../utils/requestStatus";
 
 interface ConnectCardProps {
   otherUser: EnhancedPublicUser;
@@ -59,9 +60,13 @@ export const ConnectCard = (props: ConnectCardProps): JSX.Element => {
       hasOutgoingRequest: otherUser.outgoingRequest,
     });
 
-    if (otherUser.incomingRequest) {
+    // declined, withdrawn or expired requests don't stop a new one
+    if (otherUser.incomingRequest && isOpenRequest(otherUser.incomingRequest)) {
       handleExistingReceivedRequest();
-    } else if (otherUser.outgoingRequest) {
+    } else if (
+      otherUser.outgoingRequest &&
+      isOpenRequest(otherUser.outgoingRequest)
+    ) {
       handleExistingSentRequest();
     } else if (user?.role === Role.DRIVER && user.seatAvail === 0) {
       handleNoSeatAvailability();
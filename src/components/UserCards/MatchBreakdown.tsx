@@ -0,0 +1,159 @@
+import { Popover, Transition } from "@headlessui/react";
+import React, { Fragment } from "react";
+import type {
+  ScoreBreakdown,
+  ScoreComponent,
+} from "../../utils/recommendation";
+import { classNames } from "../../utils/classNames";
+import { ridesFromWork, ridesToWork } from "../../utils/legs";
+
+interface MatchBreakdownProps {
+  breakdown: ScoreBreakdown;
+}
+
+const pluralize = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const formatMiles = (miles: number) =>
+  miles < 0.1 ? "less than 0.1 miles" : `${miles.toFixed(1)} miles`;
+
+const formatTimeDifference = (
+  component: ScoreComponent,
+  leg: "start" | "finish",
+  shared: boolean
+) => {
+  if (!shared) {
+    return `You don't carpool ${
+      leg === "start" ? "to" : "from"
+    } work together, so ${leg} times don't matter`;
+  }
+  if (component.value === undefined) {
+    return `Not everyone has a ${leg} time yet`;
+  }
+  // averaged over the days you both go in
+  const minutes = Math.round(component.value);
+  if (minutes === 0) {
+    return `You ${leg} at the same time`;
+  }
+  return `You ${leg} ${pluralize(minutes, "minute")} apart`;
+};
+
+const formatOverlap = (component: ScoreComponent) => {
+  switch (component.value) {
+    case 2:
+      return "Their co-op covers all of yours";
+    case 1:
+      return "Your co-ops partly overlap";
+    case 0:
+      return "Your co-ops don't overlap";
+    default:
+      return "Not everyone has co-op dates yet";
+  }
+};
+
+/**
+ * Turns each part of a score breakdown into a sentence the user can read.
+ *
+ * @param breakdown the breakdown returned with a recommendation
+ * @returns a label, explanation and component score for each part of the score
+ */
+const explainBreakdown = (breakdown: ScoreBreakdown) => [
+  {
+    label: "Start",
+    text: `Your starting points are ${formatMiles(
+      breakdown.startDistance.value ?? 0
+    )} apart`,
+    score: breakdown.startDistance.score,
+  },
+  {
+    label: "Destination",
+    text: `Your destinations are ${formatMiles(
+      breakdown.endDistance.value ?? 0
+    )} apart`,
+    score: breakdown.endDistance.score,
+  },
+  {
+    label: "Start Time",
+    text: formatTimeDifference(
+      breakdown.startTime,
+      "start",
+      ridesToWork(breakdown.legs)
+    ),
+    score: breakdown.startTime.score,
+  },
+  {
+    label: "End Time",
+    text: formatTimeDifference(
+      breakdown.endTime,
+      "finish",
+      ridesFromWork(breakdown.legs)
+    ),
+    score: breakdown.endTime.score,
+  },
+  {
+    label: "Days",
+    text: `You both go in on ${breakdown.days.value ?? 0} of your ${pluralize(
+      breakdown.days.total,
+      "day"
+    )}`,
+    score: breakdown.days.score,
+  },
+  {
+    label: "Co-op Dates",
+    text: formatOverlap(breakdown.overlap),
+    score: breakdown.overlap.score,
+  },
+];
+
+/** Colors a component by how well it matches, where a score of 0 is a perfect match */
+const scoreColor = (score: number) => {
+  if (score < 1 / 3) {
+    return "bg-green-500";
+  } else if (score < 2 / 3) {
+    return "bg-yellow-400";
+  }
+  return "bg-northeastern-red";
+};
+
+/**
+ * A "why this match" button that opens an explanation of each part of a recommendation's score.
+ */
+const MatchBreakdown = ({ breakdown }: MatchBreakdownProps) => {
+  return (
+    <Popover className="relative">
+      <Popover.Button className="text-sm underline hover:text-northeastern-red">
+        Why this match?
+      </Popover.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Popover.Panel className="absolute left-0 z-20 mt-2 w-72 rounded-lg bg-white p-4 shadow-lg ring-1 ring-black ring-opacity-5">
+          <ul className="flex flex-col gap-2">
+            {explainBreakdown(breakdown).map(({ label, text, score }) => (
+              <li key={label} className="flex items-start gap-2 text-sm">
+                <span
+                  className={classNames(
+                    "mt-1.5 h-2 w-2 flex-shrink-0 rounded-full",
+                    scoreColor(score)
+                  )}
+                />
+                <div>
+                  <p className="font-semibold">{label}</p>
+                  <p>{text}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Popover.Panel>
+      </Transition>
+    </Popover>
+  );
+};
+
+export default MatchBreakdown;
@@ -1,5 +1,6 @@
 import { EnhancedPublicUser, PublicUser, User } from "../../utils/types";
 import { UserCard } from "./UserCard";
+import { requestOutcomeText } from "../../utils/requestStatus";
 import { useContext, useState } from "react";
 import { UserContext } from "../../utils/userContext";
 import { createPortal } from "react-dom";
@@ -26,6 +27,10 @@ export const ReceivedCard = (props: ReceivedCardProps): JSX.Element => {
           otherUser={props.otherUser}
           message={props.latestMessage?.content}
           isUnread={props.isUnread}
+          statusLabel={
+            props.otherUser.incomingRequest &&
+            requestOutcomeText(props.otherUser.incomingRequest)
+          }
           classname={
             props.selectedUser?.id === props.otherUser.id
               ? "border-l-northeastern-red drop-shadow-lg"
@@ -6,6 +6,7 @@ import {
 } from "../../utils/types";
 import { UserContext } from "../../utils/userContext";
 import { UserCard } from "./UserCard";
+import { requestOutcomeText } from "../../utils/requestStatus";
 import SentRequestModal from "../Modals/SentRequestModal";
 import { createPortal } from "react-dom";
 import { User } from "@prisma/client";
@@ -31,6 +32,10 @@ export const SentCard = (props: SentCardProps): JSX.Element => {
           otherUser={props.otherUser}
           message={props.latestMessage?.content}
           isUnread={props.isUnread}
+          statusLabel={
+            props.otherUser.outgoingRequest &&
+            requestOutcomeText(props.otherUser.outgoingRequest)
+          }
           classname={
             props.selectedUser?.id === props.otherUser.id
               ? "border-l-northeastern-red drop-shadow-lg"
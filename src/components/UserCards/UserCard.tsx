@@ -16,6 +16,10 @@ import Image from "next/image";
 import { trackViewRoute } from "../../utils/mixpanel";
 import useProfileImage from "../../utils/useProfileImage";
 import { AiOutlineUser } from "react-icons/ai";
+import MatchBreakdown from "./MatchBreakdown";
+import UserCardMenu from "./UserCardMenu";
+import { legLabels } from "../../utils/legs";
+import { canDrive } from "../../utils/roles";
 
 interface UserCardProps {
   otherUser: EnhancedPublicUser;
@@ -23,6 +27,7 @@ interface UserCardProps {
   onViewRouteClick?: (user: User, otherUser: PublicUser) => void;
   message?: string;
   isUnread?: boolean;
+  statusLabel?: string; // how the request with this user ended, on request cards
   classname?: string;
 }
 
@@ -140,11 +145,16 @@ export const UserCard = (props: UserCardProps): JSX.Element => {
                 <p className="text-sm italic ">New!</p>
               </div>
             )}
+            {props.statusLabel && (
+              <p className="text-sm font-semibold text-gray-500">
+                {props.statusLabel}
+              </p>
+            )}
           </div>
         </div>
 
         {/* Rating */}
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center">
           <Rating
             name=""
             size="large"
@@ -152,6 +162,7 @@ export const UserCard = (props: UserCardProps): JSX.Element => {
             value={props.otherUser.isFavorited ? 1 : 0}
             max={1}
           />
+          <UserCardMenu otherUser={props.otherUser} />
         </div>
       </div>
       {/* second row - Start location*/}
@@ -205,6 +216,11 @@ export const UserCard = (props: UserCardProps): JSX.Element => {
           </p>
         </div>
       </div>
+      {/* Legs of the commute they carpool for */}
+      <div className="flex flex-row text-sm">
+        <div className="mr-1">Carpools:</div>
+        <div className="font-semibold">{legLabels[props.otherUser.legs]}</div>
+      </div>
       {/* Sixth row - coop Start and end dates */}
       {props.otherUser.coopStartDate && props.otherUser.coopEndDate && (
         <div className="m-0 flex w-full justify-between align-middle">
@@ -224,13 +240,31 @@ export const UserCard = (props: UserCardProps): JSX.Element => {
 
       {/* Seventh row - Seats avaliable*/}
 
-      {props.otherUser.role === "DRIVER" && (
+      {canDrive(props.otherUser) && (
         <div className="flex flex-row text-sm">
           <div className="mr-1">Seats Available:</div>
           <div className="font-semibold">{props.otherUser.seatAvail}</div>
+          {props.otherUser.role === "RIDER" && (
+            <div className="ml-1 italic">(can also drive)</div>
+          )}
         </div>
       )}
 
+      {/* Detour - extra driving time to pick up the rider, only on recommendations */}
+      {props.otherUser.detourMinutes !== undefined && (
+        <div className="flex flex-row text-sm">
+          <div className="mr-1">Pickup Detour:</div>
+          <div className="font-semibold">
+            {Math.round(props.otherUser.detourMinutes)} min
+          </div>
+        </div>
+      )}
+
+      {/* Score breakdown - only on recommendations */}
+      {props.otherUser.breakdown && (
+        <MatchBreakdown breakdown={props.otherUser.breakdown} />
+      )}
+
       {/* 8th row - Buttons*/}
       {props.onViewRouteClick && props.rightButton ? (
         <div className="flex flex-row justify-between gap-2">
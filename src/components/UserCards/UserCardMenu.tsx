@@ -0,0 +1,86 @@
+import { Menu, Transition } from "@headlessui/react";
+import React, { Fragment } from "react";
+import { FaEllipsisVertical } from "react-icons/fa6";
+import { toast } from "react-toastify";
+import { trpc } from "../../utils/trpc";
+import { PublicUser } from "../../utils/types";
+
+interface UserCardMenuProps {
+  otherUser: PublicUser;
+}
+
+/**
+ * Lets the user hide someone from their recommendations, or block them so neither can see or
+ * contact the other. Both can be undone from the profile page.
+ */
+const UserCardMenu = ({ otherUser }: UserCardMenuProps) => {
+  const utils = trpc.useContext();
+  const onSuccess = (action: string) => () => {
+    toast.success(
+      `${otherUser.preferredName} ${action}. You can undo this from your profile.`
+    );
+    utils.user.recommendations.me.invalidate();
+    utils.mapbox.geoJsonUserList.invalidate();
+    utils.user.favorites.me.invalidate();
+    utils.user.matchAlerts.me.invalidate();
+    utils.user.blocks.me.invalidate();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(`Something went wrong: ${error.message}`);
+  };
+  const hide = trpc.user.blocks.hide.useMutation({
+    onSuccess: onSuccess("hidden"),
+    onError,
+  });
+  const block = trpc.user.blocks.block.useMutation({
+    onSuccess: onSuccess("blocked"),
+    onError,
+  });
+
+  const itemClassName = (active: boolean) =>
+    `w-full px-4 py-2 text-left text-sm ${active ? "bg-stone-100" : ""}`;
+
+  return (
+    <Menu as="div" className="relative">
+      <Menu.Button className="p-2" aria-label="More options">
+        <FaEllipsisVertical />
+      </Menu.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items className="absolute right-0 z-20 mt-1 w-56 origin-top-right rounded-lg bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          <Menu.Item>
+            {({ active }) => (
+              <button
+                className={itemClassName(active)}
+                onClick={() => hide.mutate({ userId: otherUser.id, add: true })}
+              >
+                Hide from my recommendations
+              </button>
+            )}
+          </Menu.Item>
+          <Menu.Item>
+            {({ active }) => (
+              <button
+                className={`${itemClassName(active)} text-northeastern-red`}
+                onClick={() =>
+                  block.mutate({ userId: otherUser.id, add: true })
+                }
+              >
+                Block
+              </button>
+            )}
+          </Menu.Item>
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  );
+};
+
+export default UserCardMenu;
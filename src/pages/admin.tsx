@@ -7,6 +7,8 @@ import UserManagement from "../components/Admin/UserManagement";
 import Spinner from "../components/Spinner";
 import { Permission } from "@prisma/client";
 import AdminData from "../components/Admin/AdminData";
+import WeightProfiles from "../components/Admin/WeightProfiles";
+import RequestPolicySettings from "../components/Admin/RequestPolicySettings";
 
 export async function getServerSideProps(context: GetServerSidePropsContext) {
   const session = await getSession(context);
@@ -55,8 +57,12 @@ const Admin: NextPage<AdminProps> = ({ userPermission }) => {
           <div className="flex-[3]">
             {option === "management" ? (
               <UserManagement permission={userPermission} />
+            ) : option === "weights" ? (
+              <WeightProfiles permission={userPermission} />
+            ) : option === "requests" ? (
+              <RequestPolicySettings />
             ) : (
-              <AdminData />
+              <AdminData permission={userPermission} />
             )}
           </div>
         </div>
@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { appRouter } from "../../server/router";
+import { createContext } from "../../server/router/context";
+
+// Streams the signed-in user's `user.realtime.onEvent` subscription as server-sent events, since
+// the tRPC handler only answers queries and mutations over HTTP
+const handler = async (req: NextApiRequest, res: NextApiResponse) => {
+  const caller = appRouter.createCaller(await createContext({ req, res }));
+  let events;
+  try {
+    events = await caller.user.realtime.onEvent();
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return res
+        .status(getHTTPStatusCodeFromError(error))
+        .json({ error: error.message });
+    }
+    throw error;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    // no-transform keeps the stream from being buffered for compression
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+  res.write(": connected\n\n");
+
+  const subscription = events.subscribe({
+    next: (event) => res.write(`data: ${JSON.stringify(event)}\n\n`),
+  });
+  // comments keep proxies from closing the connection while nothing happens
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 25 * 1000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    subscription.unsubscribe();
+  });
+};
+
+// the response stays open after the handler returns, which Next would otherwise warn about
+export const config = { api: { externalResolver: true } };
+
+export default handler;
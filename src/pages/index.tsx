@@ -10,6 +10,7 @@ import { ToastProvider } from "react-toast-notifications";
 // Map event handling tool
 import addMapEvents from "../utils/map/addMapEvents";
 import Head from "next/head";
+import { useRouter } from "next/router";
 import { trpc } from "../utils/trpc";
 // Browser environment variables
 import { browserEnv } from "../utils/env/browser";
@@ -55,6 +56,8 @@ import MessagePanel from "../components/Messages/MessagePanel";
 import InactiveBlocker from "../components/Map/InactiveBlocker";
 // GeoJSON user update tool
 import updateGeoJsonUsers from "../utils/map/updateGeoJsonUsers";
+// saved filter preset tools
+import { applyPreset, PRESET_QUERY_PARAM } from "../utils/filterPresets";
 
 // set mapbox access token, is this the global variable that is used to access the mapbox api?
 mapboxgl.accessToken = browserEnv.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN;
@@ -107,6 +110,8 @@ const Home: NextPage<any> = () => {
     startDate: new Date(Date.now()),
     endDate: new Date(Date.now()),
     dateOverlap: 0,
+    detour: 30,
+    corridor: 0,
     favorites: false,
     messaged: false,
   };
@@ -147,18 +152,31 @@ const Home: NextPage<any> = () => {
 
   // get current user information, the one that is logged in
   const { data: user = null } = trpc.user.me.useQuery();
-  // get recommendations list of users that are recommended to the current user
-  const { data: recommendations = [] } = trpc.user.recommendations.me.useQuery(
+  // get recommendations list of users that are recommended to the current user, one page at a time
+  const recommendationsQuery = trpc.user.recommendations.me.useInfiniteQuery(
     {
       sort: sort,
       filters: filters,
     },
-    { refetchOnMount: true }
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      refetchOnMount: true,
+    }
   );
+  const recommendations = useMemo(
+    () => recommendationsQuery.data?.pages.flatMap((page) => page.users) ?? [],
+    [recommendationsQuery.data]
+  );
+  const recommendationsTotal = recommendationsQuery.data?.pages[0]?.total ?? 0;
   // get favorites list of users 
   const { data: favorites = [] } = trpc.user.favorites.me.useQuery(undefined, {
     refetchOnMount: true,
   });
+  // get alerts about new users matching the user's saved presets
+  const { data: matchAlerts = [] } = trpc.user.matchAlerts.me.useQuery(
+    undefined,
+    { refetchOnMount: true }
+  );
   // get requests data
   const requestsQuery = trpc.user.requests.me.useQuery(undefined, {
     refetchOnMount: "always",
@@ -226,6 +244,7 @@ const Home: NextPage<any> = () => {
   // extend public user information, add favorite and request status
   const extendPublicUser = useCallback(
     (user: PublicUser): EnhancedPublicUser => {
+      // requests come newest first, so these are the latest in each direction
       const incomingReq: Request | undefined = requests.received.find(
         (req) => req.fromUserId === user.id
       );
@@ -410,19 +429,74 @@ const Home: NextPage<any> = () => {
     ]
   );
   
-  // enhance sent users list
-  const enhancedSentUsers = requests.sent.map((request: { toUser: any }) =>
-    extendPublicUser(request.toUser!)
+  // enhance sent users list, once per user since past requests to them are kept too
+  const enhancedSentUsers = _.uniqBy(
+    requests.sent.map((request: { toUser: any }) =>
+      extendPublicUser(request.toUser!)
+    ),
+    "id"
   );
   // enhance received users list, maybe enhance means add favorite and request status?
-  const enhancedReceivedUsers = requests.received.map(
-    (request: { fromUser: any }) => extendPublicUser(request.fromUser!)
+  const enhancedReceivedUsers = _.uniqBy(
+    requests.received.map((request: { fromUser: any }) =>
+      extendPublicUser(request.fromUser!)
+    ),
+    "id"
   );
   // enhance recommendations list,
   const enhancedRecs = recommendations.map(extendPublicUser);
   // enhance favorites list
   const enhancedFavs = favorites.map(extendPublicUser);
+  // enhance alerted users list
+  const enhancedAlerts = matchAlerts.map((alert) =>
+    extendPublicUser(alert.user)
+  );
+  const unseenAlertsCount = matchAlerts.filter((alert) => !alert.seen).length;
   
+  // preset shared by link, if the page was opened with one
+  const router = useRouter();
+  const sharedPresetId = router.query[PRESET_QUERY_PARAM];
+  const { data: presets } = trpc.user.filterPresets.me.useQuery();
+  const sharedPresetQuery = trpc.user.filterPresets.get.useQuery(
+    { presetId: typeof sharedPresetId === "string" ? sharedPresetId : "" },
+    { enabled: typeof sharedPresetId === "string", retry: false }
+  );
+  const presetApplied = useRef(false);
+  // variant of the running matching experiment, which may change the default sort
+  const experimentQuery = trpc.user.experiments.me.useQuery();
+
+  // apply the shared preset, or else the user's default preset, once when the page loads
+  useEffect(() => {
+    if (
+      presetApplied.current ||
+      !router.isReady ||
+      !presets ||
+      experimentQuery.isLoading
+    ) {
+      return;
+    }
+    if (typeof sharedPresetId === "string" && sharedPresetQuery.isLoading) {
+      return;
+    }
+    presetApplied.current = true;
+    const preset =
+      sharedPresetQuery.data ?? presets.find((preset) => preset.isDefault);
+    if (preset) {
+      setFilters((prev) => applyPreset(prev, preset.filters));
+      setSort(preset.sort);
+    } else if (experimentQuery.data?.defaultSort) {
+      setSort(experimentQuery.data.defaultSort);
+    }
+  }, [
+    router.isReady,
+    presets,
+    sharedPresetId,
+    sharedPresetQuery.isLoading,
+    sharedPresetQuery.data,
+    experimentQuery.isLoading,
+    experimentQuery.data,
+  ]);
+
   // update filters based on user information
   useEffect(() => {
     if (user && user.role !== "VIEWER") {
@@ -700,7 +774,12 @@ const Home: NextPage<any> = () => {
                     role={user.role}
                     map={mapState}
                     recs={enhancedRecs}
+                    recsTotal={recommendationsTotal}
+                    hasMoreRecs={!!recommendationsQuery.hasNextPage}
+                    onLoadMoreRecs={() => recommendationsQuery.fetchNextPage()}
                     favs={enhancedFavs}
+                    alerts={enhancedAlerts}
+                    unseenAlerts={unseenAlertsCount}
                     received={enhancedReceivedUsers}
                     sent={enhancedSentUsers}
                     onViewRouteClick={onViewRouteClick}
@@ -29,6 +29,16 @@ import Header from "../../components/Header";
 import CarpoolSection from "../../components/Profile/CarpoolSection";
 import AccountSection from "../../components/Profile/AccountSection";
 import UnsavedModal from "../../components/Profile/UnsavedModal";
+import _ from "lodash";
+import {
+  dayTimesFromSchedule,
+  hasVaryingTimes,
+  minutesOfDay,
+  pickerTime,
+  scheduleFromTimes,
+  userSchedule,
+} from "../../utils/schedule";
+import { canDrive } from "../../utils/roles";
 
 export async function getServerSideProps(context: GetServerSidePropsContext) {
   const session = await getSession(context);
@@ -108,9 +118,11 @@ const Index: NextPage = () => {
 
   useEffect(() => {
     if (initialLoad && user) {
+      const schedule = userSchedule(user);
       reset({
         role: user.role,
         seatAvail: user.seatAvail,
+        canDrive: user.canDrive,
         status: user.status,
         companyName: user.companyName,
         companyAddress: user.companyAddress,
@@ -120,31 +132,40 @@ const Index: NextPage = () => {
         daysWorking: user.daysWorking
           ? user.daysWorking.split(",").map((bit) => bit === "1")
           : profileDefaultValues.daysWorking,
-        startTime: user.startTime!,
-        endTime: user.endTime!,
+        startTime: user.startTime
+          ? pickerTime(minutesOfDay(user.startTime))
+          : null,
+        endTime: user.endTime ? pickerTime(minutesOfDay(user.endTime)) : null,
+        timezone: user.timezone,
+        legs: user.legs,
+        timeDiffers: schedule ? hasVaryingTimes(schedule) : false,
+        dayTimes: dayTimesFromSchedule(schedule),
         coopStartDate: user.coopStartDate!,
         coopEndDate: user.coopEndDate!,
         bio: user.bio,
+        weeklyDigest: user.weeklyDigest,
       });
       setInitialLoad(false);
     }
   }, [initialLoad, reset, user]);
   const role = watch("role");
+  const offersSeats = canDrive({ role, canDrive: watch("canDrive") });
 
   useEffect(() => {
     const seatAvail = watch("seatAvail");
-    if (role === Role.DRIVER && seatAvail <= 0) {
+    if (offersSeats && seatAvail <= 0) {
       setValue("seatAvail", 1);
-    } else if (role !== Role.DRIVER) {
+    } else if (!offersSeats) {
       setValue("seatAvail", 0);
     }
-  }, [setValue, watch, role]);
+  }, [setValue, watch, offersSeats]);
   const checkForChanges = async () => {
     const formValues = watch();
 
     const hasChanges =
       formValues.role !== user?.role ||
       formValues.seatAvail !== user?.seatAvail ||
+      formValues.canDrive !== user?.canDrive ||
       formValues.status !== user?.status ||
       formValues.companyName !== user?.companyName ||
       formValues.companyAddress !== user?.companyAddress ||
@@ -154,11 +175,20 @@ const Index: NextPage = () => {
       formValues.daysWorking.some(
         (day, index) => day !== (user?.daysWorking.split(",")[index] === "1")
       ) ||
-      formValues.startTime?.getTime() !== user?.startTime?.getTime() ||
-      formValues.endTime?.getTime() !== user?.endTime?.getTime() ||
+      formValues.timezone !== user?.timezone ||
+      formValues.legs !== user?.legs ||
+      !_.isEqual(
+        scheduleFromTimes(
+          formValues.daysWorking,
+          formValues,
+          formValues.timeDiffers ? formValues.dayTimes : undefined
+        ) ?? null,
+        user ? userSchedule(user) : null
+      ) ||
       formValues.coopStartDate?.getDate() !== user?.coopStartDate?.getDate() ||
       formValues.coopEndDate?.getDate() !== user?.coopEndDate?.getDate() ||
-      formValues.bio !== user?.bio;
+      formValues.bio !== user?.bio ||
+      formValues.weeklyDigest !== user?.weeklyDigest;
 
     if (hasChanges) {
       setShowModal(true);
@@ -183,7 +213,7 @@ const Index: NextPage = () => {
       companyCoordLat: companyAddressHook.selectedAddress.center[1],
       startCoordLng: startAddressHook.selectedAddress.center[0],
       startCoordLat: startAddressHook.selectedAddress.center[1],
-      seatAvail: values.role === "RIDER" ? 0 : values.seatAvail,
+      seatAvail: canDrive(values) ? values.seatAvail : 0,
     };
     if (selectedFile) {
       try {
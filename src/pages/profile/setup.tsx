@@ -33,6 +33,14 @@ import {
   updateUser,
   useEditUserMutation,
 } from "../../utils/profile/updateUser";
+import {
+  dayTimesFromSchedule,
+  hasVaryingTimes,
+  minutesOfDay,
+  pickerTime,
+  userSchedule,
+} from "../../utils/schedule";
+import { canDrive } from "../../utils/roles";
 
 export async function getServerSideProps(context: GetServerSidePropsContext) {
   const session = await getSession(context);
@@ -111,9 +119,11 @@ const Setup: NextPage = () => {
 
   useEffect(() => {
     if (initialLoad && user) {
+      const schedule = userSchedule(user);
       reset({
         role: user.role,
         seatAvail: user.seatAvail,
+        canDrive: user.canDrive,
         status: user.status,
         companyName: user.companyName,
         companyAddress: user.companyAddress,
@@ -123,25 +133,33 @@ const Setup: NextPage = () => {
         daysWorking: user.daysWorking
           ? user.daysWorking.split(",").map((bit) => bit === "1")
           : profileDefaultValues.daysWorking,
-        startTime: user.startTime!,
-        endTime: user.endTime!,
+        startTime: user.startTime
+          ? pickerTime(minutesOfDay(user.startTime))
+          : null,
+        endTime: user.endTime ? pickerTime(minutesOfDay(user.endTime)) : null,
+        timezone: user.timezone,
+        legs: user.legs,
+        timeDiffers: schedule ? hasVaryingTimes(schedule) : false,
+        dayTimes: dayTimesFromSchedule(schedule),
         coopStartDate: user.coopStartDate!,
         coopEndDate: user.coopEndDate!,
         bio: user.bio,
+        weeklyDigest: user.weeklyDigest,
       });
       setInitialLoad(false);
     }
   }, [initialLoad, reset, user]);
   const role = watch("role");
+  const offersSeats = canDrive({ role, canDrive: watch("canDrive") });
 
   useEffect(() => {
     const seatAvail = watch("seatAvail");
-    if (role === Role.DRIVER && seatAvail <= 0) {
+    if (offersSeats && seatAvail <= 0) {
       setValue("seatAvail", 1);
-    } else if (role !== Role.DRIVER) {
+    } else if (!offersSeats) {
       setValue("seatAvail", 0);
     }
-  }, [setValue, watch, role]);
+  }, [setValue, watch, offersSeats]);
 
   const onSubmit = async (values: OnboardingFormInputs) => {
     setIsLoading(true);
@@ -151,7 +169,7 @@ const Setup: NextPage = () => {
       companyCoordLat: companyAddressHook.selectedAddress.center[1],
       startCoordLng: startAddressHook.selectedAddress.center[0],
       startCoordLat: startAddressHook.selectedAddress.center[1],
-      seatAvail: values.role === "RIDER" ? 0 : values.seatAvail,
+      seatAvail: canDrive(values) ? values.seatAvail : 0,
     };
     console.log(userInfo);
     if (selectedFile) {
@@ -177,7 +195,7 @@ const Setup: NextPage = () => {
         await handleSubmit(onSubmit)();
         return;
       }
-      if (role === Role.DRIVER && (!seatAvail || seatAvail <= 0)) {
+      if (offersSeats && (!seatAvail || seatAvail <= 0)) {
         setError("seatAvail", {
           type: "manual",
           message: "Seat availability must be > 0",
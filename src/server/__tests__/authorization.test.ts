@@ -0,0 +1,171 @@
+import { describe, expect, it } from "@jest/globals";
+import { PrismaClient, Role } from "@prisma/client";
+import {
+  assertAcceptedRequestBetween,
+  assertDriverOfGroup,
+  assertMemberOfGroup,
+  assertPartyToConversation,
+  assertPartyToRequest,
+  assertSelf,
+} from "../authorization";
+
+const request = { id: "request", fromUserId: "sender", toUserId: "recipient" };
+const conversation = { id: "conversation", requestId: "request" };
+const group = {
+  id: "group",
+  users: [{ id: "driver" }, { id: "rider" }],
+};
+
+// answers the lookups the checks make with fixed rows, null where a row doesn't exist
+const mockPrisma = ({
+  requestRow = null as typeof request | null,
+  conversationRow = null as typeof conversation | null,
+  groupRow = null as typeof group | null,
+  acceptedCount = 0,
+} = {}) =>
+  ({
+    request: {
+      findUnique: async () => requestRow,
+      count: async () => acceptedCount,
+    },
+    conversation: { findUnique: async () => conversationRow },
+    carpoolGroup: { findUnique: async () => groupRow },
+  } as unknown as PrismaClient);
+
+describe("assertSelf", () => {
+  it("allows acting as yourself", () => {
+    expect(() => assertSelf("user", "user")).not.toThrow();
+  });
+
+  it("rejects acting as someone else", () => {
+    expect(() => assertSelf("user", "other")).toThrow(
+      expect.objectContaining({ code: "UNAUTHORIZED" })
+    );
+  });
+});
+
+describe("assertPartyToRequest", () => {
+  const prisma = mockPrisma({ requestRow: request });
+
+  it("returns the request to its sender and recipient", async () => {
+    await expect(
+      assertPartyToRequest(prisma, "request", "sender")
+    ).resolves.toEqual(request);
+    await expect(
+      assertPartyToRequest(prisma, "request", "recipient")
+    ).resolves.toEqual(request);
+  });
+
+  it("rejects anyone else", async () => {
+    await expect(
+      assertPartyToRequest(prisma, "request", "stranger")
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("rejects requests that don't exist", async () => {
+    await expect(
+      assertPartyToRequest(mockPrisma(), "missing", "sender")
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+describe("assertPartyToConversation", () => {
+  const prisma = mockPrisma({
+    requestRow: request,
+    conversationRow: conversation,
+  });
+
+  it("allows the users of the conversation's request", async () => {
+    await expect(
+      assertPartyToConversation(prisma, "conversation", "recipient")
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects anyone else", async () => {
+    await expect(
+      assertPartyToConversation(prisma, "conversation", "stranger")
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("rejects conversations that don't exist", async () => {
+    await expect(
+      assertPartyToConversation(mockPrisma(), "missing", "sender")
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+describe("assertMemberOfGroup", () => {
+  const prisma = mockPrisma({ groupRow: group });
+
+  it("returns the group to its members", async () => {
+    await expect(
+      assertMemberOfGroup(prisma, "group", "rider")
+    ).resolves.toEqual(group);
+  });
+
+  it("rejects users outside the group", async () => {
+    await expect(
+      assertMemberOfGroup(prisma, "group", "stranger")
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("rejects groups that don't exist", async () => {
+    await expect(
+      assertMemberOfGroup(mockPrisma(), "missing", "rider")
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+describe("assertAcceptedRequestBetween", () => {
+  it("allows users with an accepted request between them", async () => {
+    await expect(
+      assertAcceptedRequestBetween(
+        mockPrisma({ acceptedCount: 1 }),
+        "driver",
+        "rider"
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects users without one", async () => {
+    await expect(
+      assertAcceptedRequestBetween(mockPrisma(), "driver", "rider")
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
+
+describe("assertDriverOfGroup", () => {
+  const members = [
+    { id: "driver", role: Role.DRIVER, canDrive: false },
+    { id: "rider", role: Role.RIDER, canDrive: false },
+    { id: "flexible", role: Role.RIDER, canDrive: true },
+  ];
+
+  it("allows the group's driver", () => {
+    expect(() =>
+      assertDriverOfGroup({ driverId: "driver", users: members }, "driver")
+    ).not.toThrow();
+  });
+
+  it("rejects riders, even ones who could drive", () => {
+    for (const id of ["rider", "flexible"]) {
+      expect(() =>
+        assertDriverOfGroup({ driverId: "driver", users: members }, id)
+      ).toThrow(expect.objectContaining({ code: "UNAUTHORIZED" }));
+    }
+  });
+
+  it("allows members who can drive groups that didn't record a driver", () => {
+    const group = { driverId: null, users: members };
+    expect(() => assertDriverOfGroup(group, "flexible")).not.toThrow();
+    expect(() => assertDriverOfGroup(group, "rider")).toThrow(
+      expect.objectContaining({ code: "UNAUTHORIZED" })
+    );
+  });
+
+  it("rejects users outside the group", () => {
+    expect(() =>
+      assertDriverOfGroup({ driverId: null, users: members }, "stranger")
+    ).toThrow(expect.objectContaining({ code: "UNAUTHORIZED" }));
+  });
+});
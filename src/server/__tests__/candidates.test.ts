@@ -0,0 +1,71 @@
+import { describe, expect, it } from "@jest/globals";
+import { Role, User } from "@prisma/client";
+import { candidateWhere, pairableWhere } from "../candidates";
+import { defaultFilterInputs } from "../../utils/recommendation";
+
+describe("pairableWhere", () => {
+  it("pairs viewers with anyone but viewers", () => {
+    expect(pairableWhere({ role: Role.VIEWER, canDrive: false })).toEqual({
+      role: { not: Role.VIEWER },
+    });
+  });
+
+  it("pairs riders with anyone who could drive them", () => {
+    expect(pairableWhere({ role: Role.RIDER, canDrive: false })).toEqual({
+      OR: [{ role: Role.DRIVER }, { role: Role.RIDER, canDrive: true }],
+    });
+  });
+
+  it("pairs riders who can drive with drivers and every rider", () => {
+    expect(pairableWhere({ role: Role.RIDER, canDrive: true })).toEqual({
+      OR: [
+        { role: Role.DRIVER },
+        { role: Role.RIDER, canDrive: true },
+        { role: Role.RIDER },
+      ],
+    });
+  });
+
+  it("pairs drivers with riders", () => {
+    expect(pairableWhere({ role: Role.DRIVER, canDrive: false })).toEqual({
+      OR: [{ role: Role.RIDER }],
+    });
+  });
+
+  it("only asks users who would drive for a free seat", () => {
+    expect(
+      pairableWhere({ role: Role.RIDER, canDrive: true }, { freeSeat: true })
+    ).toEqual({
+      OR: [
+        { role: Role.DRIVER, seatAvail: { gt: 0 } },
+        { role: Role.RIDER, canDrive: true, seatAvail: { gt: 0 } },
+        { role: Role.RIDER },
+      ],
+    });
+  });
+});
+
+describe("candidateWhere", () => {
+  it("recommends the users pairableWhere allows, with a free seat to drive", () => {
+    const rider = {
+      id: "rider",
+      role: Role.RIDER,
+      canDrive: false,
+      carpoolId: null,
+      legs: "BOTH",
+      startCoordLat: 42.36,
+      startCoordLng: -71.06,
+      companyCoordLat: 42.34,
+      companyCoordLng: -71.09,
+      daysWorking: "0,1,1,1,1,1,0",
+      coopStartDate: null,
+      coopEndDate: null,
+    } as unknown as User;
+    const where = candidateWhere(rider, {
+      ...defaultFilterInputs(rider),
+      startDistance: 20,
+      endDistance: 20,
+    });
+    expect(where.AND).toContainEqual(pairableWhere(rider, { freeSeat: true }));
+  });
+});
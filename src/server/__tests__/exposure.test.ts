@@ -0,0 +1,87 @@
+import { describe, expect, it } from "@jest/globals";
+import { PrismaClient, Role, User } from "@prisma/client";
+import { getExposureStats, recordImpressions } from "../exposure";
+
+describe("getExposureStats", () => {
+  it("combines impressions, pending requests and free seats by user", async () => {
+    const prisma = {
+      impression: {
+        groupBy: async () => [{ userId: "shown", _sum: { count: 12 } }],
+      },
+      request: {
+        groupBy: async () => [{ toUserId: "asked", _count: { _all: 3 } }],
+      },
+    } as unknown as PrismaClient;
+    const users = [
+      { id: "shown", role: Role.RIDER, canDrive: false, seatAvail: 0 },
+      { id: "asked", role: Role.DRIVER, canDrive: false, seatAvail: 0 },
+    ] as User[];
+
+    const stats = await getExposureStats(prisma, users);
+    expect(stats.get("shown")).toEqual({
+      impressions: 12,
+      pendingRequests: 0,
+      noSeats: false,
+    });
+    expect(stats.get("asked")).toEqual({
+      impressions: 0,
+      pendingRequests: 3,
+      noSeats: true,
+    });
+  });
+
+  it("doesn't query anything without users", async () => {
+    const stats = await getExposureStats({} as PrismaClient, []);
+    expect(stats.size).toBe(0);
+  });
+});
+
+describe("recordImpressions", () => {
+  // today's rows, as the database would keep them
+  const fakePrisma = () => {
+    const counts = new Map<string, number>();
+    const prisma = {
+      impression: {
+        createMany: async ({
+          data,
+          skipDuplicates,
+        }: {
+          data: { userId: string; count: number }[];
+          skipDuplicates: boolean;
+        }) => {
+          expect(skipDuplicates).toBe(true);
+          data.forEach(({ userId, count }) => {
+            if (!counts.has(userId)) {
+              counts.set(userId, count);
+            }
+          });
+        },
+        updateMany: async ({
+          where,
+        }: {
+          where: { userId: { in: string[] } };
+        }) => {
+          where.userId.in.forEach((id) =>
+            counts.set(id, (counts.get(id) ?? 0) + 1)
+          );
+        },
+      },
+    } as unknown as PrismaClient;
+    return { prisma, counts };
+  };
+
+  it("counts one impression per user shown", async () => {
+    const { prisma, counts } = fakePrisma();
+    await recordImpressions(prisma, ["a", "b"]);
+    expect(Object.fromEntries(counts)).toEqual({ a: 1, b: 1 });
+  });
+
+  it("adds up page loads of the same day, however they interleave", async () => {
+    const { prisma, counts } = fakePrisma();
+    await Promise.all([
+      recordImpressions(prisma, ["a", "b"]),
+      recordImpressions(prisma, ["a"]),
+    ]);
+    expect(Object.fromEntries(counts)).toEqual({ a: 2, b: 1 });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { PrismaClient } from "@prisma/client";
+import {
+  createMemoryRateLimitStore,
+  enforceRateLimit,
+  RateLimitPolicy,
+  setRateLimitStore,
+} from "../rateLimit";
+
+const policy: RateLimitPolicy = {
+  name: "testing",
+  limit: 2,
+  windowMs: 60 * 1000,
+  action: "testing",
+};
+const otherPolicy: RateLimitPolicy = { ...policy, name: "otherTesting" };
+
+let hits: { userId: string; procedure: string }[];
+const prisma = {
+  rateLimitHit: {
+    create: async ({ data }: { data: { userId: string; procedure: string } }) =>
+      hits.push(data),
+  },
+} as unknown as PrismaClient;
+
+const call = (userId = "user", procedure = "user.test", limitedBy = policy) =>
+  enforceRateLimit(prisma, userId, procedure, limitedBy);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  setRateLimitStore(createMemoryRateLimitStore());
+  hits = [];
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("enforceRateLimit", () => {
+  it("allows calls up to the limit, then rejects them", async () => {
+    await expect(call()).resolves.toBeUndefined();
+    await expect(call()).resolves.toBeUndefined();
+    await expect(call()).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+  });
+
+  it("logs only the first rejected call of a window", async () => {
+    await call();
+    await call();
+    await expect(call()).rejects.toThrow();
+    await expect(call()).rejects.toThrow();
+    expect(hits).toEqual([{ userId: "user", procedure: "user.test" }]);
+  });
+
+  it("allows calls again once the window is over", async () => {
+    await call();
+    await call();
+    await expect(call()).rejects.toThrow();
+
+    jest.advanceTimersByTime(policy.windowMs);
+    await expect(call()).resolves.toBeUndefined();
+    await expect(call()).resolves.toBeUndefined();
+    await expect(call()).rejects.toThrow();
+    expect(hits).toHaveLength(2);
+  });
+
+  it("counts calls to every procedure under a policy together", async () => {
+    await call("user", "user.first");
+    await call("user", "user.second");
+    await expect(call("user", "user.third")).rejects.toThrow();
+    // the log still says which procedure was cut off
+    expect(hits).toEqual([{ userId: "user", procedure: "user.third" }]);
+  });
+
+  it("counts each policy separately", async () => {
+    await call();
+    await call();
+    await expect(
+      call("user", "user.test", otherPolicy)
+    ).resolves.toBeUndefined();
+  });
+
+  it("counts each user separately", async () => {
+    await call("user");
+    await call("user");
+    await expect(call("user")).rejects.toThrow();
+    await expect(call("other")).resolves.toBeUndefined();
+  });
+});
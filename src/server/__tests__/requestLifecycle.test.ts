@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import {
+  PrismaClient,
+  RequestOutcomeType,
+  RequestStatus,
+} from "@prisma/client";
+import { transitionRequest, UserTransition } from "../requestLifecycle";
+
+let request: {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  status: RequestStatus;
+  dateResolved: Date | null;
+};
+let outcomes: RequestOutcomeType[];
+let failOutcomes: boolean;
+
+// one request kept in memory, updated only while it matches the conditions given, as MySQL does
+const prisma = {
+  request: {
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      where.id === request.id ? { ...request } : null,
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { id: string; status: RequestStatus };
+      data: { status: RequestStatus; dateResolved: Date };
+    }) => {
+      if (where.id !== request.id || where.status !== request.status) {
+        return { count: 0 };
+      }
+      Object.assign(request, data);
+      return { count: 1 };
+    },
+  },
+  // the pair can't be scored without users, which only leaves the outcome's features empty
+  user: { findUnique: async () => null },
+  requestOutcome: {
+    upsert: async ({ create }: { create: { outcome: RequestOutcomeType } }) => {
+      if (failOutcomes) {
+        throw new Error("outcome table unavailable");
+      }
+      outcomes.push(create.outcome);
+      return create;
+    },
+  },
+} as unknown as PrismaClient;
+
+beforeEach(() => {
+  request = {
+    id: "request",
+    fromUserId: "sender",
+    toUserId: "recipient",
+    status: RequestStatus.PENDING,
+    dateResolved: null,
+  };
+  outcomes = [];
+  failOutcomes = false;
+});
+
+describe("transitionRequest", () => {
+  it("lets the recipient accept, recording the outcome", async () => {
+    const updated = await transitionRequest(
+      prisma,
+      "request",
+      "recipient",
+      RequestStatus.ACCEPTED
+    );
+    expect(updated.status).toBe(RequestStatus.ACCEPTED);
+    expect(updated.dateResolved).toBeInstanceOf(Date);
+    expect(request.status).toBe(RequestStatus.ACCEPTED);
+    expect(outcomes).toEqual([RequestOutcomeType.ACCEPTED]);
+  });
+
+  it("lets the recipient decline, recording the outcome", async () => {
+    await transitionRequest(
+      prisma,
+      "request",
+      "recipient",
+      RequestStatus.DECLINED
+    );
+    expect(request.status).toBe(RequestStatus.DECLINED);
+    expect(outcomes).toEqual([RequestOutcomeType.DECLINED]);
+  });
+
+  it("lets the sender withdraw, without an outcome", async () => {
+    await transitionRequest(
+      prisma,
+      "request",
+      "sender",
+      RequestStatus.WITHDRAWN
+    );
+    expect(request.status).toBe(RequestStatus.WITHDRAWN);
+    expect(outcomes).toEqual([]);
+  });
+
+  const forbidden: [string, string | undefined, UserTransition][] = [
+    ["the sender", "sender", RequestStatus.ACCEPTED],
+    ["the sender", "sender", RequestStatus.DECLINED],
+    ["the recipient", "recipient", RequestStatus.WITHDRAWN],
+    ["anyone else", "stranger", RequestStatus.ACCEPTED],
+    ["a signed-out user", undefined, RequestStatus.WITHDRAWN],
+  ];
+  it.each(forbidden)(
+    "doesn't let %s (%s) mark it %s",
+    async (_who, userId, status) => {
+      await expect(
+        transitionRequest(prisma, "request", userId, status)
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+      expect(request.status).toBe(RequestStatus.PENDING);
+    }
+  );
+
+  it("rejects requests that don't exist", async () => {
+    await expect(
+      transitionRequest(prisma, "missing", "recipient", RequestStatus.ACCEPTED)
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it.each([
+    RequestStatus.ACCEPTED,
+    RequestStatus.DECLINED,
+    RequestStatus.WITHDRAWN,
+    RequestStatus.EXPIRED,
+  ])("only moves pending requests, not %s ones", async (status) => {
+    request.status = status;
+    await expect(
+      transitionRequest(prisma, "request", "recipient", RequestStatus.ACCEPTED)
+    ).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(request.status).toBe(status);
+  });
+
+  it("applies only the first of two answers racing each other", async () => {
+    const results = await Promise.allSettled([
+      transitionRequest(prisma, "request", "recipient", RequestStatus.ACCEPTED),
+      transitionRequest(prisma, "request", "sender", RequestStatus.WITHDRAWN),
+    ]);
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(results[1]).toMatchObject({ reason: { code: "CONFLICT" } });
+    expect(request.status).toBe(RequestStatus.ACCEPTED);
+  });
+
+  it("keeps the answer when its outcome can't be recorded", async () => {
+    failOutcomes = true;
+    const error = jest.spyOn(console, "error").mockImplementation(() => {
+      // expected
+    });
+    await expect(
+      transitionRequest(prisma, "request", "recipient", RequestStatus.ACCEPTED)
+    ).resolves.toMatchObject({ status: RequestStatus.ACCEPTED });
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
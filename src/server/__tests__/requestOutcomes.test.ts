@@ -0,0 +1,143 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  PrismaClient,
+  RequestOutcomeType,
+  RequestStatus,
+  Role,
+  User,
+} from "@prisma/client";
+import dayjs from "dayjs";
+import { collectTrainingSamples, IGNORED_AFTER_DAYS } from "../requestOutcomes";
+
+const makeUser = (id: string, role: Role) =>
+  ({
+    id,
+    role,
+    canDrive: false,
+    seatAvail: role === Role.DRIVER ? 3 : 0,
+    carpoolId: null,
+    legs: "BOTH",
+    startCoordLat: 42.3601,
+    startCoordLng: -71.0589,
+    companyCoordLat: 42.3398,
+    companyCoordLng: -71.0892,
+    daysWorking: "0,1,1,1,1,1,0",
+    startTime: new Date(Date.UTC(1970, 0, 1, 9)),
+    endTime: new Date(Date.UTC(1970, 0, 1, 17)),
+    schedule: null,
+    timezone: "America/New_York",
+    coopStartDate: new Date("2026-01-05"),
+    coopEndDate: new Date("2026-06-26"),
+  } as unknown as User);
+
+const stored = {
+  startDistance: 0.1,
+  endDistance: 0.2,
+  startTime: 0,
+  endTime: 0,
+  days: 0,
+  overlap: 0,
+};
+
+const outcomes = [
+  {
+    requestId: "accepted",
+    outcome: RequestOutcomeType.ACCEPTED,
+    features: stored,
+  },
+  {
+    requestId: "declined",
+    outcome: RequestOutcomeType.DECLINED,
+    features: stored,
+  },
+  // answered before features were stored with outcomes
+  {
+    requestId: "unscored",
+    outcome: RequestOutcomeType.ACCEPTED,
+    features: null,
+  },
+];
+
+const rider = makeUser("rider", Role.RIDER);
+const driver = makeUser("driver", Role.DRIVER);
+const viewer = makeUser("viewer", Role.VIEWER);
+const daysAgo = (days: number) => dayjs().subtract(days, "day").toDate();
+
+const requests = [
+  {
+    id: "ignored",
+    status: RequestStatus.EXPIRED,
+    dateCreated: daysAgo(30),
+    fromUser: rider,
+    toUser: driver,
+  },
+  // viewers are never recommended, so the pair has no scores to learn from
+  {
+    id: "ignored-viewer",
+    status: RequestStatus.PENDING,
+    dateCreated: daysAgo(30),
+    fromUser: rider,
+    toUser: viewer,
+  },
+  {
+    id: "recent",
+    status: RequestStatus.PENDING,
+    dateCreated: daysAgo(IGNORED_AFTER_DAYS - 1),
+    fromUser: rider,
+    toUser: driver,
+  },
+  {
+    id: "withdrawn",
+    status: RequestStatus.WITHDRAWN,
+    dateCreated: daysAgo(30),
+    fromUser: rider,
+    toUser: driver,
+  },
+  // expired, but answered first
+  {
+    id: "accepted",
+    status: RequestStatus.EXPIRED,
+    dateCreated: daysAgo(30),
+    fromUser: rider,
+    toUser: driver,
+  },
+];
+
+// answers the queries collectTrainingSamples makes the way the database would
+const prisma = {
+  requestOutcome: { findMany: async () => outcomes },
+  request: {
+    findMany: async ({ where }: any) =>
+      requests.filter(
+        (r) =>
+          where.status.in.includes(r.status) &&
+          r.dateCreated < where.dateCreated.lt &&
+          !where.id.notIn.includes(r.id)
+      ),
+  },
+} as unknown as PrismaClient;
+
+describe("collectTrainingSamples", () => {
+  it("learns from answered requests with stored scores", async () => {
+    const samples = await collectTrainingSamples(prisma);
+    expect(samples.slice(0, 2)).toEqual([
+      { features: stored, accepted: true },
+      { features: stored, accepted: false },
+    ]);
+  });
+
+  it("counts requests ignored for long enough as declined, scored now", async () => {
+    const samples = await collectTrainingSamples(prisma);
+    // only "ignored": the rest are recent, withdrawn, answered or unscorable
+    expect(samples).toHaveLength(3);
+    expect(samples[2].accepted).toBe(false);
+    expect(samples[2].features).toEqual({
+      startDistance: 0,
+      endDistance: 0,
+      startTime: 0,
+      endTime: 0,
+      days: 0,
+      overlap: 0,
+    });
+  });
+});
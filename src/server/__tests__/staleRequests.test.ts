@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { PrismaClient, RequestStatus, Status } from "@prisma/client";
+import { SESClient, SendTemplatedEmailCommand } from "@aws-sdk/client-ses";
+import dayjs from "dayjs";
+import { processStaleRequests } from "../staleRequests";
+
+type FakeRequest = {
+  id: string;
+  status: RequestStatus;
+  dateCreated: Date;
+  reminderSentAt: Date | null;
+  legacy: boolean;
+  fromUser: { preferredName: string; email: string | null };
+  toUser: { preferredName: string; email: string | null; status: Status };
+};
+
+const user = (name: string) => ({
+  preferredName: name,
+  email: `${name}@example.com`,
+  status: Status.ACTIVE,
+});
+
+const pendingFor = (
+  id: string,
+  days: number,
+  overrides: Partial<FakeRequest> = {}
+): FakeRequest => ({
+  id,
+  status: RequestStatus.PENDING,
+  dateCreated: dayjs().subtract(days, "day").toDate(),
+  reminderSentAt: null,
+  legacy: false,
+  fromUser: user(`${id}-sender`),
+  toUser: user(`${id}-recipient`),
+  ...overrides,
+});
+
+let requests: FakeRequest[];
+let sent: { template?: string; to?: string[] }[];
+
+// keeps requests in memory, answering the queries the job makes the way the database would
+const prisma = {
+  requestPolicy: { findUnique: async () => null },
+  request: {
+    findMany: async ({ where, take }: any) =>
+      requests
+        .filter(
+          (r) =>
+            r.status === where.status &&
+            r.dateCreated < where.dateCreated.lt &&
+            (where.reminderSentAt === undefined || r.reminderSentAt === null) &&
+            (where.legacy === undefined || r.legacy === where.legacy) &&
+            (where.toUser === undefined ||
+              (r.toUser.status === where.toUser.status && !!r.toUser.email))
+        )
+        .sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime())
+        .slice(0, take),
+    updateMany: async ({ where, data }: any) => {
+      const request = requests.find(
+        (r) => r.id === where.id && r.status === where.status
+      );
+      if (request) {
+        Object.assign(request, data);
+      }
+      return { count: request ? 1 : 0 };
+    },
+    update: async ({ where, data }: any) =>
+      Object.assign(requests.find((r) => r.id === where.id)!, data),
+  },
+} as unknown as PrismaClient;
+
+const sesClient = {
+  send: async (command: SendTemplatedEmailCommand) => {
+    sent.push({
+      template: command.input.Template,
+      to: command.input.Destination?.ToAddresses,
+    });
+    return {};
+  },
+} as unknown as SESClient;
+
+const statusOf = (id: string) => requests.find((r) => r.id === id)?.status;
+
+beforeEach(() => {
+  requests = [];
+  sent = [];
+});
+
+describe("processStaleRequests", () => {
+  it("leaves requests younger than the reminder threshold alone", async () => {
+    requests = [pendingFor("fresh", 2)];
+    await expect(processStaleRequests(prisma, sesClient)).resolves.toEqual({
+      expired: 0,
+      reminded: 0,
+    });
+    expect(sent).toEqual([]);
+  });
+
+  it("reminds the recipient once a request has waited long enough", async () => {
+    requests = [pendingFor("waiting", 6)];
+    await expect(processStaleRequests(prisma, sesClient)).resolves.toEqual({
+      expired: 0,
+      reminded: 1,
+    });
+    expect(sent).toEqual([
+      {
+        template: "RequestReminderTemplate",
+        to: ["waiting-recipient@example.com"],
+      },
+    ]);
+
+    // a second run doesn't remind them again
+    await processStaleRequests(prisma, sesClient);
+    expect(sent).toHaveLength(1);
+  });
+
+  it("expires old requests and tells their senders, without reminding", async () => {
+    requests = [pendingFor("old", 20)];
+    await expect(processStaleRequests(prisma, sesClient)).resolves.toEqual({
+      expired: 1,
+      reminded: 0,
+    });
+    expect(statusOf("old")).toBe(RequestStatus.EXPIRED);
+    expect(sent).toEqual([
+      { template: "RequestExpiredTemplate", to: ["old-sender@example.com"] },
+    ]);
+  });
+
+  it("expires legacy requests without emailing or reminding anyone", async () => {
+    requests = [
+      pendingFor("legacyOld", 20, { legacy: true }),
+      pendingFor("legacyWaiting", 6, { legacy: true }),
+    ];
+    await expect(processStaleRequests(prisma, sesClient)).resolves.toEqual({
+      expired: 1,
+      reminded: 0,
+    });
+    expect(statusOf("legacyOld")).toBe(RequestStatus.EXPIRED);
+    expect(statusOf("legacyWaiting")).toBe(RequestStatus.PENDING);
+    expect(sent).toEqual([]);
+  });
+
+  it("caps the emails of a run and leaves the rest for the next", async () => {
+    requests = [
+      pendingFor("old1", 30),
+      pendingFor("old2", 25),
+      pendingFor("old3", 20),
+      pendingFor("legacy", 20, { legacy: true }),
+      pendingFor("waiting", 6),
+    ];
+    await expect(processStaleRequests(prisma, sesClient, 2)).resolves.toEqual({
+      expired: 3,
+      reminded: 0,
+    });
+    // the oldest go first, legacy requests expire regardless of the cap
+    expect(statusOf("old1")).toBe(RequestStatus.EXPIRED);
+    expect(statusOf("old2")).toBe(RequestStatus.EXPIRED);
+    expect(statusOf("old3")).toBe(RequestStatus.PENDING);
+    expect(statusOf("legacy")).toBe(RequestStatus.EXPIRED);
+    expect(sent).toHaveLength(2);
+
+    await expect(processStaleRequests(prisma, sesClient, 2)).resolves.toEqual({
+      expired: 1,
+      reminded: 1,
+    });
+    expect(statusOf("old3")).toBe(RequestStatus.EXPIRED);
+    expect(sent.map((email) => email.template)).toEqual([
+      "RequestExpiredTemplate",
+      "RequestExpiredTemplate",
+      "RequestExpiredTemplate",
+      "RequestReminderTemplate",
+    ]);
+  });
+});
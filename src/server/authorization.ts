@@ -0,0 +1,167 @@
+import { PrismaClient, RequestStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { canDrive, DrivingUser } from "../utils/roles";
+
+/**
+ * Throws unless a client-supplied user id is the signed-in user's own, for procedures that take
+ * the acting user's id as input.
+ *
+ * @param userId The signed-in user
+ * @param claimedId The id the client sent
+ */
+export const assertSelf = (userId: string, claimedId: string) => {
+  if (claimedId !== userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You can only act on your own behalf.",
+    });
+  }
+};
+
+/**
+ * Loads a request, making sure the user sent or received it.
+ *
+ * @param prisma The prisma client
+ * @param requestId The request
+ * @param userId The signed-in user
+ * @returns The request
+ * @throws TRPCError if the request doesn't exist or the user isn't party to it
+ */
+export const assertPartyToRequest = async (
+  prisma: PrismaClient,
+  requestId: string,
+  userId: string
+) => {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+  });
+  if (!request) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No request with id '${requestId}'`,
+    });
+  }
+  if (request.fromUserId !== userId && request.toUserId !== userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You aren't part of this request.",
+    });
+  }
+  return request;
+};
+
+/**
+ * Makes sure the user is one of the two users of a request's conversation.
+ *
+ * @param prisma The prisma client
+ * @param conversationId The conversation
+ * @param userId The signed-in user
+ * @throws TRPCError if the conversation doesn't exist or the user isn't part of it
+ */
+export const assertPartyToConversation = async (
+  prisma: PrismaClient,
+  conversationId: string,
+  userId: string
+) => {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+  });
+  if (!conversation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No conversation with id '${conversationId}'`,
+    });
+  }
+  await assertPartyToRequest(prisma, conversation.requestId, userId);
+};
+
+/**
+ * Loads a carpool group, making sure the user is in it.
+ *
+ * @param prisma The prisma client
+ * @param groupId The group
+ * @param userId The signed-in user
+ * @returns The group with its users
+ * @throws TRPCError if the group doesn't exist or the user isn't a member
+ */
+export const assertMemberOfGroup = async (
+  prisma: PrismaClient,
+  groupId: string,
+  userId: string
+) => {
+  const group = await prisma.carpoolGroup.findUnique({
+    where: { id: groupId },
+    include: { users: true },
+  });
+  if (!group) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No group with id '${groupId}'`,
+    });
+  }
+  if (!group.users.some((user) => user.id === userId)) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You aren't a member of this group.",
+    });
+  }
+  return group;
+};
+
+/**
+ * Makes sure the user drives a carpool group, for actions on the whole group. Older groups didn't
+ * record who drives, so any member who can drive is taken at their word.
+ *
+ * @param group The group, with its members
+ * @param userId The signed-in user
+ * @throws TRPCError if the user isn't the group's driver
+ */
+export const assertDriverOfGroup = (
+  group: {
+    driverId: string | null;
+    users: Pick<DrivingUser, "id" | "role" | "canDrive">[];
+  },
+  userId: string
+) => {
+  const member = group.users.find((user) => user.id === userId);
+  if (
+    !member ||
+    (group.driverId ? group.driverId !== userId : !canDrive(member))
+  ) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Only the group's driver can do this.",
+    });
+  }
+};
+
+/**
+ * Makes sure one of two users accepted a request from the other, for actions that carpooling
+ * together has to be agreed to first.
+ *
+ * @param prisma The prisma client
+ * @param userId The signed-in user
+ * @param otherId The other user
+ * @throws TRPCError if neither accepted a request from the other
+ */
+export const assertAcceptedRequestBetween = async (
+  prisma: PrismaClient,
+  userId: string,
+  otherId: string
+) => {
+  const accepted = await prisma.request.count({
+    where: {
+      status: RequestStatus.ACCEPTED,
+      OR: [
+        { fromUserId: userId, toUserId: otherId },
+        { fromUserId: otherId, toUserId: userId },
+      ],
+    },
+  });
+  if (accepted === 0) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You can only carpool with someone whose request was accepted.",
+    });
+  }
+};
@@ -0,0 +1,116 @@
+import { Prisma, PrismaClient, RequestStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { OPEN_REQUEST_STATUSES } from "../utils/requestStatus";
+import { publishRequestUpdate } from "./realtime";
+
+/** The relations `excludedUserIds` reads, for use in a prisma `include` or `select` */
+export const exclusionSelect = {
+  blocked: { select: { id: true } },
+  blockedBy: { select: { id: true } },
+  hidden: { select: { id: true } },
+};
+
+type ExclusionLists = {
+  blocked: { id: string }[];
+  blockedBy: { id: string }[];
+  hidden: { id: string }[];
+};
+
+/**
+ * Lists the users kept out of a user's recommendations, map and favorites: the ones they blocked
+ * or hid, and the ones who blocked them.
+ *
+ * @param user The user, loaded with `exclusionSelect`
+ * @returns The ids of the excluded users
+ */
+export const excludedUserIds = (user: ExclusionLists): string[] =>
+  [...user.blocked, ...user.blockedBy, ...user.hidden].map((u) => u.id);
+
+/**
+ * Throws if either user has blocked the other, so that neither can send the other requests or
+ * messages.
+ *
+ * @param prisma The prisma client
+ * @param userId The user trying to make contact
+ * @param otherId The user they're trying to reach
+ */
+export const assertNotBlocked = async (
+  prisma: PrismaClient,
+  userId: string,
+  otherId: string
+) => {
+  const blocks = await prisma.user.count({
+    where: {
+      id: userId,
+      OR: [
+        { blocked: { some: { id: otherId } } },
+        { blockedBy: { some: { id: otherId } } },
+      ],
+    },
+  });
+  if (blocks > 0) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You can't contact this user.",
+    });
+  }
+};
+
+/**
+ * A relation filter for users who haven't blocked `userId` and aren't blocked by them, e.g. the
+ * other side of the requests and conversations shown to `userId`.
+ *
+ * @param userId The user looking
+ * @returns The filter
+ */
+export const notBlockedWith = (userId: string): Prisma.UserWhereInput => ({
+  blocked: { none: { id: userId } },
+  blockedBy: { none: { id: userId } },
+});
+
+/**
+ * Closes the open requests between a user and someone they blocked, so neither is left waiting
+ * on the other: requests the user received are declined and the ones they sent are withdrawn.
+ * Outcomes aren't recorded, a block says nothing about how good a match the pair was.
+ *
+ * @param prisma The prisma client
+ * @param userId The user who blocked
+ * @param blockedId The user they blocked
+ * @returns How many requests were closed
+ */
+export const closeRequestsBetween = async (
+  prisma: PrismaClient,
+  userId: string,
+  blockedId: string
+) => {
+  const open = await prisma.request.findMany({
+    where: {
+      status: { in: OPEN_REQUEST_STATUSES },
+      OR: [
+        { fromUserId: userId, toUserId: blockedId },
+        { fromUserId: blockedId, toUserId: userId },
+      ],
+    },
+  });
+  const dateResolved = new Date();
+  await prisma.$transaction([
+    prisma.request.updateMany({
+      where: {
+        id: { in: open.map((r) => r.id) },
+        fromUserId: userId,
+        status: { in: OPEN_REQUEST_STATUSES },
+      },
+      data: { status: RequestStatus.WITHDRAWN, dateResolved },
+    }),
+    prisma.request.updateMany({
+      where: {
+        id: { in: open.map((r) => r.id) },
+        toUserId: userId,
+        status: { in: OPEN_REQUEST_STATUSES },
+      },
+      data: { status: RequestStatus.DECLINED, dateResolved },
+    }),
+  ]);
+  open.forEach(publishRequestUpdate);
+  return open.length;
+};
@@ -0,0 +1,219 @@
+import {
+  CommuteLeg,
+  Prisma,
+  PrismaClient,
+  Role,
+  Status,
+  User,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { boundingBox, companyCoord, startCoord } from "../utils/distance";
+import { defaultFilterInputs, FInputs } from "../utils/recommendation";
+import { presetFiltersSchema } from "../utils/filterPresets";
+import { compatibleLegs } from "../utils/legs";
+import { canDrive } from "../utils/roles";
+import { excludedUserIds, exclusionSelect } from "./blocks";
+import { openRequests } from "./requestLifecycle";
+
+/** Recommendation filters, including the ones that only narrow down which users are considered */
+export type CandidateFilters = FInputs & {
+  favorites: boolean; // if true, only show users user has favorited
+  messaged: boolean; // if false, hide users user has messaged
+};
+
+/**
+ * Builds the database query for users that could carpool with `user`, the rule of
+ * `canPairWith` in src/utils/roles.ts. Free seats are only checked when asked for, since users
+ * already in touch keep seeing each other.
+ *
+ * @param user The user to pair others with
+ * @param options `freeSeat` to only keep users who could drive `user` if they have a seat left
+ * @returns A prisma `where` clause for the user table
+ */
+export const pairableWhere = (
+  user: Pick<User, "role" | "canDrive">,
+  { freeSeat = false } = {}
+): Prisma.UserWhereInput => {
+  if (user.role === Role.VIEWER) {
+    return { role: { not: Role.VIEWER } };
+  }
+  const seat = freeSeat ? { seatAvail: { gt: 0 } } : {};
+  const pairings: Prisma.UserWhereInput[] = [];
+  if (user.role === Role.RIDER) {
+    pairings.push(
+      { role: Role.DRIVER, ...seat },
+      { role: Role.RIDER, canDrive: true, ...seat }
+    );
+  }
+  if (canDrive(user)) {
+    pairings.push({ role: Role.RIDER });
+  }
+  return { OR: pairings };
+};
+
+/**
+ * Builds the database query for users that could be recommended to `currentUser`. It mirrors
+ * the hard constraints of `calculateScore` that the database can check (role compatibility,
+ * carpool membership, shared legs, co-op date overlap and distance bounding boxes), so that only plausible
+ * candidates are loaded and scored in memory.
+ *
+ * @param currentUser The user to find candidates for
+ * @param filters The filters chosen by `currentUser`
+ * @param ids Ids that candidates must (`in`) or must not (`notIn`) have
+ * @returns A prisma `where` clause for the user table
+ */
+export const candidateWhere = (
+  currentUser: User,
+  filters: FInputs,
+  ids: { in?: string[]; notIn?: string[] } = {}
+): Prisma.UserWhereInput => {
+  const conditions: Prisma.UserWhereInput[] = [
+    {
+      id: { not: currentUser.id, ...ids },
+      isOnboarded: true,
+      status: Status.ACTIVE,
+    },
+  ];
+
+  // anyone who could drive them needs a free seat to be recommended
+  conditions.push(pairableWhere(currentUser, { freeSeat: true }));
+
+  if (currentUser.carpoolId) {
+    // `not` alone would also drop users without a carpool, as NULL never compares unequal
+    conditions.push({
+      OR: [{ carpoolId: null }, { carpoolId: { not: currentUser.carpoolId } }],
+    });
+  }
+
+  if (currentUser.legs !== CommuteLeg.BOTH) {
+    conditions.push({ legs: { in: compatibleLegs(currentUser.legs) } });
+  }
+
+  // along-route matching doesn't limit how far apart the starts are
+  if (filters.startDistance < 20 && filters.corridor === 0) {
+    const box = boundingBox(startCoord(currentUser), filters.startDistance);
+    conditions.push({
+      startCoordLat: { gte: box.minLat, lte: box.maxLat },
+      startCoordLng: { gte: box.minLng, lte: box.maxLng },
+    });
+  }
+
+  if (filters.endDistance < 20) {
+    const box = boundingBox(companyCoord(currentUser), filters.endDistance);
+    conditions.push({
+      companyCoordLat: { gte: box.minLat, lte: box.maxLat },
+      companyCoordLng: { gte: box.minLng, lte: box.maxLng },
+    });
+  }
+
+  if (filters.dateOverlap === 1) {
+    conditions.push({
+      coopStartDate: { lte: filters.endDate },
+      coopEndDate: { gte: filters.startDate },
+    });
+  } else if (filters.dateOverlap === 2) {
+    conditions.push({
+      coopStartDate: { lte: filters.startDate },
+      coopEndDate: { gte: filters.endDate },
+    });
+  }
+
+  return { AND: conditions };
+};
+
+/**
+ * Loads a user and the candidates that pass the database-side prefilter for them.
+ *
+ * @param prisma The prisma client
+ * @param userId The id of the user to find candidates for
+ * @param filters The filters chosen by the user
+ * @returns The user and their candidates
+ */
+export const findCandidates = async (
+  prisma: PrismaClient,
+  userId: string | undefined,
+  filters: CandidateFilters
+): Promise<{ currentUser: User; candidates: User[] }> => {
+  const user = await prisma.user.findUnique({
+    where: {
+      id: userId,
+    },
+    include: {
+      favorites: filters.favorites,
+      // closed requests don't count, so the pair can find each other again
+      sentRequests: !filters.messaged && openRequests,
+      receivedRequests: !filters.messaged && openRequests,
+      ...exclusionSelect,
+    },
+  });
+  if (!user) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No user with id ${userId}.`,
+    });
+  }
+
+  const {
+    favorites,
+    sentRequests,
+    receivedRequests,
+    blocked,
+    blockedBy,
+    hidden,
+    ...currentUser
+  } = user;
+
+  // Blocked and hidden users are never shown
+  const ids: { in?: string[]; notIn?: string[] } = {
+    notIn: excludedUserIds({ blocked, blockedBy, hidden }),
+  };
+  // Hide users user has messaged
+  if (!filters.messaged) {
+    ids.notIn?.push(
+      ...sentRequests.map((r) => r.toUserId),
+      ...receivedRequests.map((r) => r.fromUserId)
+    );
+  }
+  // Favorites filter
+  if (filters.favorites) {
+    ids.in = favorites.map((f) => f.id);
+  }
+
+  const candidates = await prisma.user.findMany({
+    where: candidateWhere(currentUser, filters, ids),
+  });
+
+  return { currentUser, candidates };
+};
+
+/**
+ * Loads the preferences candidates are scored with from their side in mutual-fit scoring: the
+ * filters of their default preset, with their own days and co-op dates as on the map.
+ * Candidates without a default preset match with any filters.
+ *
+ * @param prisma The prisma client
+ * @param users The candidates
+ * @returns A function from a candidate to the filter inputs they match with
+ */
+export const loadPreferences = async (
+  prisma: PrismaClient,
+  users: User[]
+): Promise<(user: User) => FInputs> => {
+  const presets = await prisma.filterPreset.findMany({
+    where: { userId: { in: users.map((user) => user.id) }, isDefault: true },
+  });
+  const filtersByUser = new Map<string, FInputs>();
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  presets.forEach((preset) => {
+    const filters = presetFiltersSchema.safeParse(preset.filters);
+    const user = usersById.get(preset.userId);
+    if (filters.success && user && !filtersByUser.has(user.id)) {
+      filtersByUser.set(user.id, {
+        ...defaultFilterInputs(user),
+        ...filters.data,
+      });
+    }
+  });
+
+  return (user) => filtersByUser.get(user.id) ?? defaultFilterInputs(user);
+};
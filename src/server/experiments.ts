@@ -0,0 +1,179 @@
+import { Experiment, PrismaClient, RequestOutcomeType } from "@prisma/client";
+import _ from "lodash";
+import {
+  assignVariant,
+  ExperimentVariant,
+  experimentVariantsSchema,
+} from "../utils/experiments";
+import { ScoringProfile } from "../utils/recommendation";
+import { getActiveScoringProfile, parseWeightProfile } from "./weightProfiles";
+
+/**
+ * Reads the variants stored in an experiment.
+ *
+ * @param experiment The stored experiment
+ * @returns The variants, or undefined if the stored JSON doesn't match `experimentVariantsSchema`
+ */
+export const parseVariants = (
+  experiment: Experiment
+): ExperimentVariant[] | undefined => {
+  const parsed = experimentVariantsSchema.safeParse(experiment.variants);
+  return parsed.success ? parsed.data : undefined;
+};
+
+/**
+ * Finds the variant of the running experiment a user is in.
+ *
+ * @param prisma The prisma client
+ * @param userId The user to bucket
+ * @returns The experiment and the user's variant, or null if no experiment is running
+ */
+export const getUserVariant = async (
+  prisma: PrismaClient,
+  userId: string
+): Promise<{ experiment: Experiment; variant: ExperimentVariant } | null> => {
+  const experiment = await prisma.experiment.findFirst({
+    where: { isActive: true },
+  });
+  const variants = experiment && parseVariants(experiment);
+  if (!experiment || !variants) {
+    return null;
+  }
+  return {
+    experiment,
+    variant: assignVariant(experiment.key, variants, userId),
+  };
+};
+
+/**
+ * Loads the scoring profile a variant scores recommendations with.
+ *
+ * @param prisma The prisma client
+ * @param variant The user's variant, if they're in an experiment
+ * @returns The variant's weight profile, or the active one if it has none or it is malformed
+ */
+export const getVariantScoringProfile = async (
+  prisma: PrismaClient,
+  variant?: ExperimentVariant
+): Promise<ScoringProfile> => {
+  if (variant?.profileId) {
+    const stored = await prisma.weightProfile.findUnique({
+      where: { id: variant.profileId },
+    });
+    const profile = stored && parseWeightProfile(stored);
+    if (profile) {
+      return profile;
+    }
+  }
+  return getActiveScoringProfile(prisma);
+};
+
+/**
+ * Records that a user was shown their variant, the first time they are. Only users who were
+ * shown a variant count towards its funnel.
+ *
+ * @param prisma The prisma client
+ * @param experimentId The running experiment
+ * @param userId The user
+ * @param variant The name of their variant
+ */
+export const recordAssignment = async (
+  prisma: PrismaClient,
+  experimentId: string,
+  userId: string,
+  variant: string
+) => {
+  await prisma.experimentAssignment.upsert({
+    where: { experimentId_userId: { experimentId, userId } },
+    create: { experimentId, userId, variant },
+    update: {},
+  });
+};
+
+/** How far the users of one variant got, counting only what they did after being assigned */
+export type VariantFunnel = {
+  variant: string;
+  users: number; // users shown the variant
+  requested: number; // of them, users who sent a request
+  accepted: number; // users who had a request accepted, either way
+  grouped: number; // users who joined a carpool group
+};
+
+/**
+ * Compares request and group-formation rates between an experiment's variants.
+ *
+ * @param prisma The prisma client
+ * @param experiment The experiment
+ * @returns The funnel of each variant, in the order the variants are defined
+ */
+export const experimentFunnel = async (
+  prisma: PrismaClient,
+  experiment: Experiment
+): Promise<VariantFunnel[]> => {
+  const assignments = await prisma.experimentAssignment.findMany({
+    where: { experimentId: experiment.id },
+  });
+  const userIds = assignments.map((assignment) => assignment.userId);
+  const [requests, outcomes, users] = await Promise.all([
+    prisma.request.findMany({
+      where: { fromUserId: { in: userIds } },
+      select: { fromUserId: true, dateCreated: true },
+    }),
+    prisma.requestOutcome.findMany({
+      where: {
+        OR: [{ fromUserId: { in: userIds } }, { toUserId: { in: userIds } }],
+      },
+      select: {
+        fromUserId: true,
+        toUserId: true,
+        outcome: true,
+        dateCreated: true,
+      },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, carpool: { select: { dateCreated: true } } },
+    }),
+  ]);
+  const requestsByUser = _.groupBy(requests, "fromUserId");
+  const sentOutcomesByUser = _.groupBy(outcomes, "fromUserId");
+  const receivedOutcomesByUser = _.groupBy(outcomes, "toUserId");
+  const usersById = _.keyBy(users, "id");
+
+  const reached = assignments.map((assignment) => {
+    const since = assignment.dateCreated;
+    const sent = sentOutcomesByUser[assignment.userId] ?? [];
+    const received = receivedOutcomesByUser[assignment.userId] ?? [];
+    const group = usersById[assignment.userId]?.carpool;
+    return {
+      variant: assignment.variant,
+      requested:
+        (requestsByUser[assignment.userId] ?? []).some(
+          (request) => request.dateCreated >= since
+        ) || sent.some((outcome) => outcome.dateCreated >= since),
+      accepted: [...sent, ...received].some(
+        (outcome) =>
+          outcome.outcome === RequestOutcomeType.ACCEPTED &&
+          outcome.dateCreated >= since
+      ),
+      grouped: !!group && group.dateCreated >= since,
+    };
+  });
+
+  // variants removed from the definition still show up if users were assigned to them
+  const variantNames = _.uniq([
+    ...(parseVariants(experiment) ?? []).map((variant) => variant.name),
+    ...assignments.map((assignment) => assignment.variant),
+  ]);
+  const byVariant = _.groupBy(reached, "variant");
+  return variantNames.map((variant) => {
+    const rows = byVariant[variant] ?? [];
+    return {
+      variant,
+      users: rows.length,
+      requested: rows.filter((row) => row.requested).length,
+      accepted: rows.filter((row) => row.accepted).length,
+      grouped: rows.filter((row) => row.grouped).length,
+    };
+  });
+};
@@ -0,0 +1,85 @@
+import { PrismaClient, RequestStatus, User } from "@prisma/client";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import { EXPOSURE_WINDOW_DAYS, ExposureStats } from "../utils/exposure";
+import { canDrive } from "../utils/roles";
+
+dayjs.extend(utc);
+
+/**
+ * Loads how much attention each of `users` is already getting, for `rerankForExposure`.
+ *
+ * @param prisma The prisma client
+ * @param users The recommended users, e.g. those on the page being shown
+ * @returns Exposure by user id
+ */
+export const getExposureStats = async (
+  prisma: PrismaClient,
+  users: User[]
+): Promise<Map<string, ExposureStats>> => {
+  const ids = users.map((user) => user.id);
+  if (ids.length === 0) {
+    return new Map();
+  }
+  // today's impressions are left out so the order stays the same while the user pages through it
+  const today = dayjs.utc().startOf("day");
+  const since = today.subtract(EXPOSURE_WINDOW_DAYS, "day").toDate();
+  const [impressions, requests] = await Promise.all([
+    prisma.impression.groupBy({
+      by: ["userId"],
+      where: {
+        userId: { in: ids },
+        day: { gte: since, lt: today.toDate() },
+      },
+      _sum: { count: true },
+    }),
+    prisma.request.groupBy({
+      by: ["toUserId"],
+      where: { toUserId: { in: ids }, status: RequestStatus.PENDING },
+      _count: { _all: true },
+    }),
+  ]);
+  const impressionsById = new Map(
+    impressions.map((row) => [row.userId, row._sum.count ?? 0])
+  );
+  const pendingById = new Map(
+    requests.map((row) => [row.toUserId, row._count._all])
+  );
+
+  return new Map(
+    users.map((user) => [
+      user.id,
+      {
+        impressions: impressionsById.get(user.id) ?? 0,
+        pendingRequests: pendingById.get(user.id) ?? 0,
+        noSeats: canDrive(user) && user.seatAvail <= 0,
+      },
+    ])
+  );
+};
+
+/**
+ * Counts one impression for each user shown in a page of recommendations. Today's rows are
+ * created if missing and then incremented in place, so concurrent page loads can't collide on
+ * creating the same row.
+ *
+ * @param prisma The prisma client
+ * @param userIds The users that were shown
+ */
+export const recordImpressions = async (
+  prisma: PrismaClient,
+  userIds: string[]
+) => {
+  if (userIds.length === 0) {
+    return;
+  }
+  const day = dayjs.utc().startOf("day").toDate();
+  await prisma.impression.createMany({
+    data: userIds.map((userId) => ({ userId, day, count: 0 })),
+    skipDuplicates: true,
+  });
+  await prisma.impression.updateMany({
+    where: { userId: { in: userIds }, day },
+    data: { count: { increment: 1 } },
+  });
+};
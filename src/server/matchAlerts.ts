@@ -0,0 +1,188 @@
+import {
+  FilterPreset,
+  Prisma,
+  PrismaClient,
+  Role,
+  Status,
+  User,
+} from "@prisma/client";
+import { SendTemplatedEmailCommand, SESClient } from "@aws-sdk/client-ses";
+import _ from "lodash";
+import { calculateScore, defaultFilterInputs } from "../utils/recommendation";
+import { presetFiltersSchema } from "../utils/filterPresets";
+import { generateEmailParams } from "../utils/email";
+import { openRequests } from "./requestLifecycle";
+
+/**
+ * Checks whether `match` would show up in `owner`'s recommendations with a preset applied.
+ *
+ * @param preset The preset, along with the user who saved it
+ * @param match The user who may match it
+ * @param messaged Ids of the users `match` has sent requests to or received requests from
+ * @returns Whether the preset matches
+ */
+const presetMatches = (
+  preset: FilterPreset & { user: User },
+  match: User,
+  messaged: Set<string>
+): boolean => {
+  const filters = presetFiltersSchema.safeParse(preset.filters);
+  // someone new is never one of the owner's favorites yet
+  if (!filters.success || filters.data.favorites) {
+    return false;
+  }
+  if (!filters.data.messaged && messaged.has(preset.userId)) {
+    return false;
+  }
+  // the preset is evaluated with the owner's own days and co-op dates, as on the map
+  const rec = calculateScore<User>(
+    preset.user,
+    { ...defaultFilterInputs(preset.user), ...filters.data },
+    preset.sort
+  )(match);
+  return !!rec;
+};
+
+/**
+ * Alerts the users with alerting presets that `userId` now matches, in the app and by email.
+ * Run for each user who onboarded or edited their profile, see alertPendingSubscribers. A user is
+ * alerted about someone at most once, however many of their presets match and however often that
+ * person edits their profile.
+ *
+ * @param prisma The prisma client
+ * @param sesClient The client to send alert emails with
+ * @param userId The user whose profile changed
+ * @returns The alerts that were created
+ */
+export const alertPresetSubscribers = async (
+  prisma: PrismaClient,
+  sesClient: SESClient,
+  userId: string
+) => {
+  const match = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { sentRequests: openRequests, receivedRequests: openRequests },
+  });
+  if (
+    !match ||
+    !match.isOnboarded ||
+    match.status !== Status.ACTIVE ||
+    match.role === Role.VIEWER
+  ) {
+    return [];
+  }
+  const { sentRequests, receivedRequests, ...matchUser } = match;
+  const messaged = new Set([
+    ...sentRequests.map((r) => r.toUserId),
+    ...receivedRequests.map((r) => r.fromUserId),
+  ]);
+
+  const alreadyAlerted = await prisma.matchAlert.findMany({
+    where: { matchId: userId },
+    select: { userId: true },
+  });
+  const presets = await prisma.filterPreset.findMany({
+    where: {
+      alerts: true,
+      userId: { notIn: [userId, ...alreadyAlerted.map((a) => a.userId)] },
+      // users who blocked or hid the match, or were blocked by them, aren't alerted
+      user: {
+        isOnboarded: true,
+        status: Status.ACTIVE,
+        blocked: { none: { id: userId } },
+        hidden: { none: { id: userId } },
+        blockedBy: { none: { id: userId } },
+      },
+    },
+    include: { user: true },
+    orderBy: { dateCreated: "asc" },
+  });
+  // the oldest matching preset of each user is the one they're alerted with
+  const matched = _.uniqBy(
+    presets.filter((preset) => presetMatches(preset, matchUser, messaged)),
+    "userId"
+  );
+
+  const alerts = await Promise.all(
+    matched.map((preset) =>
+      prisma.matchAlert
+        .create({
+          data: { userId: preset.userId, matchId: userId, presetId: preset.id },
+        })
+        .then(() => preset)
+        .catch((error) => {
+          // another profile edit alerted this user first
+          if (
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === "P2002"
+          ) {
+            return null;
+          }
+          throw error;
+        })
+    )
+  );
+
+  const created = _.compact(alerts);
+  await Promise.all(
+    created.map(async (preset) => {
+      if (!preset.user.email) {
+        return;
+      }
+      const emailParams = generateEmailParams(
+        {
+          senderName: matchUser.preferredName,
+          senderEmail: matchUser.email ?? "",
+          receiverName: preset.user.preferredName,
+          receiverEmail: preset.user.email,
+          presetName: preset.name,
+        },
+        "matchAlert",
+        false
+      );
+      try {
+        await sesClient.send(new SendTemplatedEmailCommand(emailParams));
+      } catch (error) {
+        // the alert is still shown in the app
+        console.error("Error sending match alert:", error);
+      }
+    })
+  );
+  return created;
+};
+
+/**
+ * Alerts preset subscribers about every user whose profile changed since the last run. A user
+ * who edits their profile again while being processed stays pending for the next run.
+ *
+ * @param prisma The prisma client
+ * @param sesClient The client to send alert emails with
+ * @returns How many changed users were processed and how many alerts were created
+ */
+export const alertPendingSubscribers = async (
+  prisma: PrismaClient,
+  sesClient: SESClient
+) => {
+  const pending = await prisma.user.findMany({
+    where: { alertsPendingAt: { not: null } },
+    select: { id: true, alertsPendingAt: true },
+    orderBy: { alertsPendingAt: "asc" },
+  });
+
+  let alerts = 0;
+  // one user at a time so a large backlog doesn't send a burst of emails
+  for (const { id, alertsPendingAt } of pending) {
+    try {
+      alerts += (await alertPresetSubscribers(prisma, sesClient, id)).length;
+    } catch (error) {
+      // left pending to be retried by the next run
+      console.error(`Error alerting preset subscribers about ${id}:`, error);
+      continue;
+    }
+    await prisma.user.updateMany({
+      where: { id, alertsPendingAt },
+      data: { alertsPendingAt: null },
+    });
+  }
+  return { users: pending.length, alerts };
+};
@@ -0,0 +1,159 @@
+import { PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+export type RateLimitPolicy = {
+  name: string; // what calls are counted under
+  limit: number; // calls allowed per window
+  windowMs: number;
+  action: string; // what the user was doing, e.g. "sending requests"
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Limits for procedures that reach other users, keyed by what they protect. Calls to every
+// procedure using a policy count towards the same limit. Each kind of email gets its own policy
+// as generous as what it notifies about, so a busy chat never holds back an acceptance email.
+export const rateLimits: Record<
+  | "sendRequest"
+  | "sendMessage"
+  | "sendNotification"
+  | "sendMessageNotification"
+  | "sendAcceptanceNotification",
+  RateLimitPolicy
+> = {
+  sendRequest: {
+    name: "sendRequest",
+    limit: 10,
+    windowMs: HOUR,
+    action: "sending requests",
+  },
+  sendMessage: {
+    name: "sendMessage",
+    limit: 20,
+    windowMs: MINUTE,
+    action: "sending messages",
+  },
+  sendNotification: {
+    name: "sendNotification",
+    limit: 30,
+    windowMs: HOUR,
+    action: "sending notifications",
+  },
+  sendMessageNotification: {
+    name: "sendMessageNotification",
+    limit: 20,
+    windowMs: MINUTE,
+    action: "sending message notifications",
+  },
+  sendAcceptanceNotification: {
+    name: "sendAcceptanceNotification",
+    limit: 10,
+    windowMs: HOUR,
+    action: "sending acceptance notifications",
+  },
+};
+
+/**
+ * Counts calls per key in fixed windows. Swap in a shared backend (e.g. Redis) with
+ * `setRateLimitStore` when the app runs on more than one instance, since each instance
+ * otherwise counts on its own.
+ */
+export interface RateLimitStore {
+  /**
+   * Counts a call against a key.
+   *
+   * @param key The caller and policy being limited
+   * @param windowMs How long the key's window lasts from its first call
+   * @returns The calls made in the current window, this one included, and when it resets
+   */
+  increment(
+    key: string,
+    windowMs: number
+  ): Promise<{ count: number; resetAt: number }>;
+}
+
+/**
+ * Creates a store that keeps counts in this process's memory.
+ *
+ * @returns The store
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      // drop finished windows now and then so idle keys don't pile up
+      if (windows.size > 10000) {
+        windows.forEach((window, windowKey) => {
+          if (window.resetAt <= now) {
+            windows.delete(windowKey);
+          }
+        });
+      }
+
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+      window.count++;
+      return window;
+    },
+  };
+};
+
+let store = createMemoryRateLimitStore();
+
+/**
+ * Replaces where calls are counted.
+ *
+ * @param newStore The store to count calls in from now on
+ */
+export const setRateLimitStore = (newStore: RateLimitStore) => {
+  store = newStore;
+};
+
+/**
+ * Counts a call to a procedure against its policy and rejects it once the user has made too many
+ * calls under that policy. Only the first rejected call in a window is logged, with the procedure
+ * it was made to, so admins see who hit a limit without the log growing with every retry.
+ *
+ * @param prisma The prisma client
+ * @param userId The signed-in user
+ * @param procedure The path of the procedure called, for the log
+ * @param policy The limit to apply
+ * @throws TRPCError if the user is over the limit
+ */
+export const enforceRateLimit = async (
+  prisma: PrismaClient,
+  userId: string,
+  procedure: string,
+  policy: RateLimitPolicy
+) => {
+  const { count, resetAt } = await store.increment(
+    `${policy.name}:${userId}`,
+    policy.windowMs
+  );
+  if (count <= policy.limit) {
+    return;
+  }
+
+  if (count === policy.limit + 1) {
+    try {
+      await prisma.rateLimitHit.create({ data: { userId, procedure } });
+    } catch (error) {
+      console.error(`Error logging rate limit hit on ${procedure}:`, error);
+    }
+  }
+
+  const minutes = Math.max(1, Math.ceil((resetAt - Date.now()) / MINUTE));
+  throw new TRPCError({
+    code: "TOO_MANY_REQUESTS",
+    message: `You're ${
+      policy.action
+    } too quickly. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+  });
+};
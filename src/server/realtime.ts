@@ -0,0 +1,57 @@
+import { EventEmitter } from "events";
+import { Request } from "@prisma/client";
+import { RealtimeEvent } from "../utils/realtime";
+
+declare global {
+  var realtimeEmitter: EventEmitter | undefined;
+}
+
+// Events only reach subscribers connected to this process; when the app runs on several
+// instances, clients pick up changes made on the others by polling (see useRealtime). Kept on
+// the global in development so hot reloads don't leave open streams listening to an emitter
+// nothing publishes to.
+const emitter = global.realtimeEmitter || new EventEmitter();
+emitter.setMaxListeners(0);
+
+if (process.env.NODE_ENV !== "production") global.realtimeEmitter = emitter;
+
+/**
+ * Listens for events meant for a user.
+ *
+ * @param userId The user to listen as
+ * @param listener Called with each event
+ * @returns A function that stops listening
+ */
+export const subscribeToUser = (
+  userId: string,
+  listener: (event: RealtimeEvent) => void
+) => {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+};
+
+/**
+ * Sends an event to every open connection of some users.
+ *
+ * @param userIds The users to notify
+ * @param event What changed
+ */
+export const publishToUsers = (userIds: string[], event: RealtimeEvent) => {
+  new Set(userIds).forEach((userId) => emitter.emit(userId, event));
+};
+
+/**
+ * Lets both users of a request know it changed.
+ *
+ * @param request The request that was created, edited or answered
+ */
+export const publishRequestUpdate = (
+  request: Pick<Request, "id" | "fromUserId" | "toUserId">
+) => {
+  publishToUsers([request.fromUserId, request.toUserId], {
+    type: "request",
+    requestId: request.id,
+  });
+};
@@ -0,0 +1,62 @@
+import { PrismaClient, User } from "@prisma/client";
+import _ from "lodash";
+import { RoutingProvider } from "../utils/distance";
+import { rerankForExposure } from "../utils/exposure";
+import { FInputs, scoreUsers } from "../utils/recommendation";
+import { loadPreferences } from "./candidates";
+import { getUserVariant, getVariantScoringProfile } from "./experiments";
+import { getExposureStats } from "./exposure";
+
+/**
+ * Ranks a user's candidates and picks out one page, the way everywhere recommendations are shown
+ * does: scored with the user's experiment variant, mutual fit with the candidates' own saved
+ * preferences, and the default order reranked for exposure. Reranking only moves users within
+ * the page, so pages never overlap and only the page's users are looked up.
+ *
+ * @param prisma The prisma client
+ * @param currentUser The user to recommend to
+ * @param candidates The users that could be recommended, e.g. from `findCandidates`
+ * @param filters The filters chosen by `currentUser`
+ * @param sort How to order the recommendations, or undefined for the order the user's map opens
+ * with
+ * @param page Where the page starts in the ranking, and how long it is
+ * @param routing The provider to measure road distances with, straight lines if undefined
+ * @returns The page's recommendations, how many there are in all, and the user's variant
+ */
+export const rankRecommendations = async (
+  prisma: PrismaClient,
+  currentUser: User,
+  candidates: User[],
+  filters: FInputs,
+  sort: string | undefined,
+  page: { offset: number; limit: number },
+  routing?: RoutingProvider
+) => {
+  // users in a running experiment are scored with their variant's weights
+  const assigned = await getUserVariant(prisma, currentUser.id);
+  const order = sort ?? assigned?.variant.defaultSort ?? "any";
+  const recs = await scoreUsers(
+    currentUser,
+    candidates,
+    filters,
+    order,
+    routing,
+    await getVariantScoringProfile(prisma, assigned?.variant),
+    // mutual fit scores each candidate's side with their own saved preferences
+    order === "mutual" ? await loadPreferences(prisma, candidates) : undefined
+  );
+
+  let pageRecs = recs.slice(page.offset, page.offset + page.limit);
+  // the default order spreads attention beyond the same few top-scoring users
+  if (order === "any") {
+    const usersById = _.keyBy(candidates, "id");
+    pageRecs = rerankForExposure(
+      pageRecs,
+      await getExposureStats(
+        prisma,
+        pageRecs.map((rec) => usersById[rec.id])
+      )
+    );
+  }
+  return { pageRecs, total: recs.length, assigned };
+};
@@ -0,0 +1,89 @@
+import {
+  PrismaClient,
+  Request,
+  RequestOutcomeType,
+  RequestStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { OPEN_REQUEST_STATUSES } from "../utils/requestStatus";
+import { recordRequestOutcome } from "./requestOutcomes";
+
+/** Include or relation-filter arguments that keep only requests still tying the pair together */
+export const openRequests = {
+  where: { status: { in: OPEN_REQUEST_STATUSES } },
+};
+
+/** The statuses users can move a pending request to, and which side of it may do so */
+const userTransitions = {
+  [RequestStatus.ACCEPTED]: "recipient",
+  [RequestStatus.DECLINED]: "recipient",
+  [RequestStatus.WITHDRAWN]: "sender",
+} as const;
+
+export type UserTransition = keyof typeof userTransitions;
+
+/**
+ * Moves a pending request to a new status on behalf of one of its parties. Accepting and
+ * declining also record the answer for weight training.
+ *
+ * @param prisma The prisma client
+ * @param requestId The request to move
+ * @param userId The user making the change
+ * @param status The status to move it to
+ * @returns The updated request
+ * @throws TRPCError if the request doesn't exist, the user isn't the party allowed to make the
+ * change, or the request isn't pending anymore
+ */
+export const transitionRequest = async (
+  prisma: PrismaClient,
+  requestId: string,
+  userId: string | undefined,
+  status: UserTransition
+): Promise<Request> => {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+  });
+  if (!request) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No invitation with id '${requestId}'`,
+    });
+  }
+  const party = userTransitions[status];
+  const allowedId =
+    party === "recipient" ? request.toUserId : request.fromUserId;
+  if (allowedId !== userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: `Only the ${party} can mark a request ${status.toLowerCase()}`,
+    });
+  }
+
+  // conditional on PENDING so that two answers racing each other can't both apply
+  const dateResolved = new Date();
+  const { count } = await prisma.request.updateMany({
+    where: { id: requestId, status: RequestStatus.PENDING },
+    data: { status, dateResolved },
+  });
+  if (count === 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "This request has already been answered, withdrawn or expired",
+    });
+  }
+  const updated = { ...request, status, dateResolved };
+
+  // outcomes only feed weight training, so failing to record one doesn't undo the answer
+  if (status !== RequestStatus.WITHDRAWN) {
+    await recordRequestOutcome(
+      prisma,
+      updated,
+      status === RequestStatus.ACCEPTED
+        ? RequestOutcomeType.ACCEPTED
+        : RequestOutcomeType.DECLINED
+    ).catch((error) =>
+      console.error("Error recording request outcome:", error)
+    );
+  }
+  return updated;
+};
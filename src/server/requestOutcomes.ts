@@ -0,0 +1,121 @@
+import {
+  Prisma,
+  PrismaClient,
+  Request,
+  RequestOutcomeType,
+  RequestStatus,
+  User,
+} from "@prisma/client";
+import dayjs from "dayjs";
+import { calculateScore, defaultFilterInputs } from "../utils/recommendation";
+import {
+  breakdownFeatures,
+  FEATURE_KEYS,
+  PairFeatures,
+  TrainingSample,
+} from "../utils/weightTraining";
+
+/** Requests left unanswered for this long count as ignored when training */
+export const IGNORED_AFTER_DAYS = 14;
+
+/**
+ * Scores a pair from the sender's side, the way the recipient showed up in their recommendations.
+ *
+ * @param fromUser The user who sent the request
+ * @param toUser The user who received it
+ * @returns The pair's component scores, or null if the pair could never be recommended
+ */
+export const pairFeatures = (
+  fromUser: User,
+  toUser: User
+): PairFeatures | null => {
+  const rec = calculateScore<User>(
+    // a request is answered before the pair shares a carpool
+    { ...fromUser, carpoolId: null },
+    defaultFilterInputs(fromUser),
+    "any"
+  )(toUser);
+  return rec ? breakdownFeatures(rec.breakdown) : null;
+};
+
+const isPairFeatures = (value: Prisma.JsonValue): value is PairFeatures =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  FEATURE_KEYS.every((key) => typeof value[key] === "number");
+
+/**
+ * Stores how the recipient answered a request, along with the pair's component scores at that
+ * moment, so they can be learned from after either user changes their profile.
+ *
+ * @param prisma The prisma client
+ * @param request The request being answered
+ * @param outcome Whether it was accepted or declined
+ */
+export const recordRequestOutcome = async (
+  prisma: PrismaClient,
+  request: Request,
+  outcome: RequestOutcomeType
+) => {
+  const [fromUser, toUser] = await Promise.all([
+    prisma.user.findUnique({ where: { id: request.fromUserId } }),
+    prisma.user.findUnique({ where: { id: request.toUserId } }),
+  ]);
+  const features = fromUser && toUser ? pairFeatures(fromUser, toUser) : null;
+
+  // answering twice (e.g. accepting after a failed attempt) keeps the latest answer
+  return prisma.requestOutcome.upsert({
+    where: { requestId: request.id },
+    create: {
+      requestId: request.id,
+      fromUserId: request.fromUserId,
+      toUserId: request.toUserId,
+      outcome,
+      features: features ?? Prisma.DbNull,
+    },
+    update: {
+      outcome,
+      features: features ?? Prisma.DbNull,
+    },
+  });
+};
+
+/**
+ * Collects training samples: accepted requests are positives, while declined requests and
+ * requests ignored for `IGNORED_AFTER_DAYS` are negatives.
+ *
+ * @param prisma The prisma client
+ * @returns A sample for every answered or ignored request whose pair could be scored
+ */
+export const collectTrainingSamples = async (
+  prisma: PrismaClient
+): Promise<TrainingSample[]> => {
+  const outcomes = await prisma.requestOutcome.findMany();
+  const answered = outcomes.flatMap((outcome): TrainingSample[] =>
+    isPairFeatures(outcome.features)
+      ? [
+          {
+            features: outcome.features,
+            accepted: outcome.outcome === RequestOutcomeType.ACCEPTED,
+          },
+        ]
+      : []
+  );
+
+  const ignoredRequests = await prisma.request.findMany({
+    where: {
+      status: { in: [RequestStatus.PENDING, RequestStatus.EXPIRED] },
+      dateCreated: {
+        lt: dayjs().subtract(IGNORED_AFTER_DAYS, "day").toDate(),
+      },
+      id: { notIn: outcomes.map((outcome) => outcome.requestId) },
+    },
+    include: { fromUser: true, toUser: true },
+  });
+  const ignored = ignoredRequests.flatMap((request): TrainingSample[] => {
+    const features = pairFeatures(request.fromUser, request.toUser);
+    return features ? [{ features, accepted: false }] : [];
+  });
+
+  return [...answered, ...ignored];
+};
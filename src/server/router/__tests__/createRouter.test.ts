@@ -0,0 +1,119 @@
+import { describe, expect, it } from "@jest/globals";
+import { PrismaClient } from "@prisma/client";
+import type { Context } from "../context";
+import {
+  adminRouter,
+  groupMemberRouter,
+  protectedRouter,
+  requestPartyRouter,
+  router,
+} from "../createRouter";
+
+const request = { id: "request", fromUserId: "sender", toUserId: "recipient" };
+const group = { id: "group", users: [{ id: "driver" }, { id: "rider" }] };
+
+const prisma = {
+  request: {
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      where.id === request.id ? request : null,
+  },
+  carpoolGroup: {
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      where.id === group.id ? group : null,
+  },
+} as unknown as PrismaClient;
+
+const testRouter = router({
+  whoAmI: protectedRouter.query(({ ctx }) => ctx.session.user.id),
+  admin: adminRouter.query(() => "ok"),
+  request: requestPartyRouter.query(({ ctx }) => ctx.request.id),
+  group: groupMemberRouter.query(({ ctx }) => ctx.group.id),
+});
+
+// calls the test router as a user, or signed out without an id
+const callerFor = (id?: string, permission = "USER") =>
+  testRouter.createCaller({
+    prisma,
+    session:
+      id === undefined ? null : { user: { id, permission }, expires: "" },
+  } as unknown as Context);
+
+describe("protectedRouter", () => {
+  it("passes the signed-in user's id on", async () => {
+    await expect(callerFor("sender").whoAmI()).resolves.toBe("sender");
+  });
+
+  it("rejects signed-out users", async () => {
+    await expect(callerFor().whoAmI()).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+  });
+
+  it("rejects sessions without a user id", async () => {
+    await expect(callerFor("").whoAmI()).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+  });
+});
+
+describe("adminRouter", () => {
+  it("allows admins and managers", async () => {
+    await expect(callerFor("admin", "ADMIN").admin()).resolves.toBe("ok");
+    await expect(callerFor("manager", "MANAGER").admin()).resolves.toBe("ok");
+  });
+
+  it("rejects users", async () => {
+    await expect(callerFor("sender").admin()).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+  });
+});
+
+describe("requestPartyRouter", () => {
+  it("loads the request for its sender and recipient", async () => {
+    await expect(
+      callerFor("sender").request({ invitationId: "request" })
+    ).resolves.toBe("request");
+    await expect(
+      callerFor("recipient").request({ invitationId: "request" })
+    ).resolves.toBe("request");
+  });
+
+  it("rejects anyone else", async () => {
+    await expect(
+      callerFor("stranger").request({ invitationId: "request" })
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("rejects requests that don't exist", async () => {
+    await expect(
+      callerFor("sender").request({ invitationId: "missing" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("rejects signed-out users before loading anything", async () => {
+    await expect(
+      callerFor().request({ invitationId: "request" })
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
+
+describe("groupMemberRouter", () => {
+  it("loads the group for its members", async () => {
+    await expect(callerFor("rider").group({ groupId: "group" })).resolves.toBe(
+      "group"
+    );
+  });
+
+  it("rejects users outside the group", async () => {
+    await expect(
+      callerFor("stranger").group({ groupId: "group" })
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("rejects groups that don't exist", async () => {
+    await expect(
+      callerFor("rider").group({ groupId: "missing" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
@@ -1,6 +1,9 @@
 import { TRPCError, initTRPC } from "@trpc/server";
 import { Context } from "./context";
 import superjson from "superjson";
+import { z } from "zod";
+import { assertMemberOfGroup, assertPartyToRequest } from "../authorization";
+import { enforceRateLimit, RateLimitPolicy } from "../rateLimit";
 
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
@@ -11,14 +14,16 @@ export const procedure = t.procedure;
 export const middleware = t.middleware;
 
 const isProtected = middleware(({ ctx, next }) => {
-  if (!ctx.session) {
+  const user = ctx.session?.user;
+  if (!ctx.session || !user?.id) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
 
+  // later middleware and procedures can rely on the signed-in user's id
   return next({
     ctx: {
       ...ctx,
-      session: ctx.session,
+      session: { ...ctx.session, user: { ...user, id: user.id } },
     },
   });
 });
@@ -40,3 +45,34 @@ const isAdmin = middleware(({ ctx, next }) => {
 
 export const protectedRouter = procedure.use(isProtected);
 export const adminRouter = procedure.use(isAdmin);
+
+// Procedures a signed-in user may only call so often, see rateLimits in src/server/rateLimit.ts
+export const rateLimitedRouter = (policy: RateLimitPolicy) =>
+  protectedRouter.use(async ({ ctx, path, next }) => {
+    await enforceRateLimit(ctx.prisma, ctx.session.user.id, path, policy);
+    return next();
+  });
+
+// Procedures on a request that only its sender and recipient may call, with the request loaded
+export const requestPartyRouter = protectedRouter
+  .input(z.object({ invitationId: z.string() }))
+  .use(async ({ ctx, input, next }) => {
+    const request = await assertPartyToRequest(
+      ctx.prisma,
+      input.invitationId,
+      ctx.session.user.id
+    );
+    return next({ ctx: { ...ctx, request } });
+  });
+
+// Procedures on a carpool group that only its members may call, with the group loaded
+export const groupMemberRouter = protectedRouter
+  .input(z.object({ groupId: z.string() }))
+  .use(async ({ ctx, input, next }) => {
+    const group = await assertMemberOfGroup(
+      ctx.prisma,
+      input.groupId,
+      ctx.session.user.id
+    );
+    return next({ ctx: { ...ctx, group } });
+  });
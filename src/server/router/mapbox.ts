@@ -3,11 +3,14 @@ import { z } from "zod";
 import { protectedRouter, router } from "./createRouter";
 import { Feature, FeatureCollection } from "geojson";
 import { serverEnv } from "../../utils/env/server";
-import { Role, Status } from "@prisma/client";
+import { Role } from "@prisma/client";
 import { DirectionsResponse } from "../../utils/types";
-import { roundCoord } from "../../utils/publicUser";
+import { convertToPublic, roundCoord } from "../../utils/publicUser";
 import _ from "lodash";
-import { calculateScore } from "../../utils/recommendation";
+import { scoreUsers } from "../../utils/recommendation";
+import { getRoutingProvider } from "../routing";
+import { fetchDirections } from "../routing/directions";
+import { findCandidates } from "../candidates";
 
 // router for interacting with the Mapbox API
 export const mapboxRouter = router({
@@ -53,65 +56,33 @@ export const mapboxRouter = router({
         startDate: z.date(),
         endDate: z.date(),
         dateOverlap: z.number(), // 0 any, 1 partial, 2 full
+        detour: z.number(), // max 30 minutes, greater = any
+        corridor: z.number(), // max minutes off the driver's route, 0 = off
         favorites: z.boolean(), // if true, only show users user has favorited
         messaged: z.boolean(), // if false, hide users user has messaged
       })
     )
     .query(async ({ ctx, input }) => {
       const id = ctx.session.user?.id;
-      const currentUser = await ctx.prisma.user.findUnique({
-        where: {
-          id: id,
-        },
-        include: {
-          favorites: input.favorites,
-          sentRequests: !input.messaged,
-          receivedRequests: !input.messaged,
-        },
-      });
-
-      if (!currentUser) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: `No user with id ${id}.`,
-        });
-      }
-
-      const { favorites, sentRequests, receivedRequests, ...calcUser } =
-        currentUser;
-
-      let userQuery: { id: any; isOnboarded: boolean; status: Status } = {
-        id: { not: id },
-        isOnboarded: true,
-        status: Status.ACTIVE,
-      };
-
-      // Hide users user has messaged
-      if (!input.messaged) {
-        userQuery.id["notIn"] = [
-          ...sentRequests.map((r) => r.toUserId),
-          ...receivedRequests.map((r) => r.fromUserId),
-        ];
-      }
-
-      // Favorites filter
-      if (input.favorites) {
-        userQuery.id["in"] = favorites.map((f) => f.id);
-      }
-
-      // Construct Query with Filters
-      const users = await ctx.prisma.user.findMany({
-        where: userQuery,
-      });
-      const filtered = _.compact(
-        users.map(calculateScore(calcUser, input, "distance"))
+      const { currentUser, candidates } = await findCandidates(
+        ctx.prisma,
+        id,
+        input
       );
-      filtered.sort((a, b) => a.score - b.score);
-      const sortedUsers = _.compact(
-        filtered.map((rec) => users.find((user) => user.id === rec.id))
+
+      const filtered = await scoreUsers(
+        currentUser,
+        candidates,
+        input,
+        input.corridor > 0 ? "route" : "distance",
+        getRoutingProvider()
       );
+      const usersById = _.keyBy(candidates, "id");
+      const sortedUsers = filtered.map((rec) => usersById[rec.id]);
       const finalUsers =
-        calcUser.role === Role.VIEWER ? sortedUsers : sortedUsers.slice(0, 150);
+        currentUser.role === Role.VIEWER
+          ? sortedUsers
+          : sortedUsers.slice(0, 150);
 
       // creates points for each user with coordinates at company location
       const features: Feature[] = finalUsers.map((u) => {
@@ -124,9 +95,8 @@ export const mapboxRouter = router({
               roundCoord(u.companyCoordLat),
             ],
           },
-          properties: {
-            ...u,
-          },
+          // only what other users may see, the client reads these as PublicUsers
+          properties: convertToPublic(u),
         };
       });
 
@@ -145,32 +115,6 @@ export const mapboxRouter = router({
       })
     )
     .query(async ({ input }): Promise<DirectionsResponse> => {
-      // Convert input to a string in the format required by the Mapbox API
-      const coordinates = input.points
-        .map(([lng, lat]) => `${lng},${lat}`)
-        .join(";");
-
-      const endpoint = `https://api.mapbox.com/directions/v5/mapbox/driving-traffic/${coordinates}?access_token=${serverEnv.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN}`;
-      const data = await fetch(endpoint)
-        .then((response) => response.json())
-        .then((json) => {
-          if (json.code != "Ok") {
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: json.message,
-              cause: json,
-            });
-          } else {
-            return json;
-          }
-        })
-        .catch((err) => {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Unexpected error. Please try again.",
-            cause: err,
-          });
-        });
-      return data;
+      return fetchDirections(input.points);
     }),
 });
@@ -1,7 +1,7 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { protectedRouter, router } from "./createRouter";
-import { Role } from "@prisma/client";
+import { CommuteLeg, Prisma, Role } from "@prisma/client";
 import { Status } from "@prisma/client";
 import { generatePoiData } from "../../utils/publicUser";
 import _ from "lodash";
@@ -16,6 +16,19 @@ import {
   getPresignedImageUrl,
 } from "../../utils/uploadToS3";
 import { adminDataRouter } from "./user/admin";
+import { weightProfilesRouter } from "./user/weightProfiles";
+import { filterPresetsRouter } from "./user/filterPresets";
+import { matchAlertsRouter } from "./user/matchAlerts";
+import { blocksRouter } from "./user/blocks";
+import { experimentsRouter } from "./user/experiments";
+import { requestPolicyRouter } from "./user/requestPolicy";
+import { realtimeRouter } from "./user/realtime";
+import { canDrive } from "../../utils/roles";
+import {
+  commuteScheduleSchema,
+  scheduleSummary,
+  timezoneSchema,
+} from "../../utils/schedule";
 const getPresignedDownloadUrlInput = z.object({
   userId: z.string().optional(),
 });
@@ -43,6 +56,7 @@ export const userRouter = router({
         role: z.nativeEnum(Role),
         status: z.nativeEnum(Status),
         seatAvail: z.number().int().min(0),
+        canDrive: z.boolean().optional(), // riders only, they can also be a group's driver
         companyName: z.string(),
         companyAddress: z.string(),
         companyCoordLng: z.number(),
@@ -54,34 +68,55 @@ export const userRouter = router({
         pronouns: z.string(),
         isOnboarded: z.boolean(),
         daysWorking: z.string(),
-        startTime: z.optional(z.string()),
-        endTime: z.optional(z.string()),
+        schedule: commuteScheduleSchema.optional(), // wall-clock times in `timezone`
+        timezone: timezoneSchema.optional(),
+        legs: z.nativeEnum(CommuteLeg).optional(),
         coopStartDate: z.date().nullable(),
         coopEndDate: z.date().nullable(),
         bio: z.string(),
         licenseSigned: z.boolean(),
+        weeklyDigest: z.boolean().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const startTimeDate = input.startTime
-        ? new Date(Date.parse(input.startTime))
-        : undefined;
-      const endTimeDate = input.endTime
-        ? new Date(Date.parse(input.endTime))
-        : undefined;
+      // the single-time fields are kept as a summary of the schedule
+      const summary = input.schedule
+        ? scheduleSummary(input.schedule)
+        : { daysWorking: input.daysWorking, startTime: null, endTime: null };
 
-      const [startPOIData, endPOIData] = await Promise.all([
+      const id = ctx.session.user?.id;
+      const [startPOIData, endPOIData, previous] = await Promise.all([
         generatePoiData(input.startCoordLng, input.startCoordLat),
         generatePoiData(input.companyCoordLng, input.companyCoordLat),
+        ctx.prisma.user.findUnique({
+          where: { id },
+          select: {
+            startCoordLng: true,
+            startCoordLat: true,
+            companyCoordLng: true,
+            companyCoordLat: true,
+          },
+        }),
       ]);
+      // Only users who can drive have a commute route for riders to be matched along. A changed
+      // commute clears the stored one, which is looked up again the next time it's needed (see
+      // recommendations.me and scripts/backfillCommuteRoutes.ts) rather than holding up the save.
+      const commuteChanged =
+        !previous ||
+        previous.startCoordLng !== input.startCoordLng ||
+        previous.startCoordLat !== input.startCoordLat ||
+        previous.companyCoordLng !== input.companyCoordLng ||
+        previous.companyCoordLat !== input.companyCoordLat;
+      const commuteRoute =
+        !canDrive(input) || commuteChanged ? null : undefined;
 
-      const id = ctx.session.user?.id;
       const user = await ctx.prisma.user.update({
         where: { id },
         data: {
           role: input.role,
           status: input.status,
           seatAvail: input.seatAvail,
+          canDrive: input.role === Role.RIDER ? input.canDrive : false,
           companyName: input.companyName,
           companyAddress: input.companyAddress,
           companyCoordLng: input.companyCoordLng,
@@ -98,13 +133,20 @@ export const userRouter = router({
           preferredName: input.preferredName,
           pronouns: input.pronouns,
           isOnboarded: input.isOnboarded,
-          daysWorking: input.daysWorking,
-          startTime: startTimeDate,
-          endTime: endTimeDate,
+          daysWorking: summary.daysWorking,
+          startTime: summary.startTime,
+          endTime: summary.endTime,
+          schedule: input.schedule ?? Prisma.DbNull,
+          timezone: input.timezone,
+          legs: input.legs,
           coopEndDate: input.coopEndDate,
           coopStartDate: input.coopStartDate,
           bio: input.bio,
           licenseSigned: input.licenseSigned,
+          weeklyDigest: input.weeklyDigest,
+          commuteRoute,
+          // preset subscribers are alerted by the next `yarn alerts:match` run
+          alertsPendingAt: input.isOnboarded ? new Date() : undefined,
         },
       });
 
@@ -157,4 +199,11 @@ export const userRouter = router({
   groups: groupsRouter,
   emails: emailsRouter,
   admin: adminDataRouter,
+  weightProfiles: weightProfilesRouter,
+  filterPresets: filterPresetsRouter,
+  matchAlerts: matchAlertsRouter,
+  blocks: blocksRouter,
+  experiments: experimentsRouter,
+  requestPolicy: requestPolicyRouter,
+  realtime: realtimeRouter,
 });
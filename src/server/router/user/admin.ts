@@ -2,6 +2,7 @@ import { adminRouter, router } from "../createRouter";
 import { z } from "zod";
 import { Permission, Status } from "@prisma/client";
 import { Role } from "@prisma/client";
+import dayjs from "dayjs";
 // Router for admin dashboard queries, only Managers can edit roles
 // User must be Manager or Admin to view user data
 export const adminDataRouter = router({
@@ -56,6 +57,22 @@ export const adminDataRouter = router({
       },
     });
   }),
+  // Users who went over a rate limit in the past week, newest first
+  getRateLimitHits: adminRouter.query(async ({ ctx }) => {
+    return ctx.prisma.rateLimitHit.findMany({
+      where: {
+        dateCreated: { gte: dayjs().subtract(7, "day").toDate() },
+      },
+      orderBy: { dateCreated: "desc" },
+      take: 200,
+      select: {
+        id: true,
+        procedure: true,
+        dateCreated: true,
+        user: { select: { id: true, email: true, preferredName: true } },
+      },
+    });
+  }),
   updateUserPermission: adminRouter
     .input(
       z.object({
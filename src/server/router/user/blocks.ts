@@ -0,0 +1,91 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { PrismaClient } from "@prisma/client";
+import { router, protectedRouter } from "../createRouter";
+import { convertToPublic } from "../../../utils/publicUser";
+import { closeRequestsBetween } from "../../blocks";
+
+const editInput = z.object({
+  userId: z.string(), // the user to block or hide
+  add: z.boolean(), // false to undo
+});
+
+/**
+ * Throws unless the user to block or hide exists.
+ *
+ * @param prisma The prisma client
+ * @param userId The user to block or hide
+ */
+const assertUserExists = async (prisma: PrismaClient, userId: string) => {
+  const count = await prisma.user.count({ where: { id: userId } });
+  if (count === 0) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No profile with id '${userId}'`,
+    });
+  }
+};
+
+// use this router to manage the users a user has blocked or hidden
+export const blocksRouter = router({
+  me: protectedRouter.query(async ({ ctx }) => {
+    const id = ctx.session.user?.id;
+    const user = await ctx.prisma.user.findUnique({
+      where: { id },
+      select: { blocked: true, hidden: true },
+    });
+
+    // throws TRPCError if no user with ID exists
+    if (!user) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `No profile with id '${id}'`,
+      });
+    }
+    return {
+      blocked: user.blocked.map(convertToPublic),
+      hidden: user.hidden.map(convertToPublic),
+    };
+  }),
+  // blocked users can't see or contact the user either
+  block: protectedRouter.input(editInput).mutation(async ({ ctx, input }) => {
+    const id = ctx.session.user?.id;
+    if (input.userId === id) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "You can't block yourself.",
+      });
+    }
+    await assertUserExists(ctx.prisma, input.userId);
+    await ctx.prisma.user.update({
+      where: { id },
+      data: {
+        blocked: {
+          [input.add ? "connect" : "disconnect"]: { id: input.userId },
+        },
+      },
+    });
+    if (input.add) {
+      await closeRequestsBetween(ctx.prisma, id, input.userId);
+    }
+  }),
+  // hidden users are only left out of the user's own recommendations, map and favorites
+  hide: protectedRouter.input(editInput).mutation(async ({ ctx, input }) => {
+    const id = ctx.session.user?.id;
+    if (input.userId === id) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "You can't hide yourself.",
+      });
+    }
+    await assertUserExists(ctx.prisma, input.userId);
+    await ctx.prisma.user.update({
+      where: { id },
+      data: {
+        hidden: {
+          [input.add ? "connect" : "disconnect"]: { id: input.userId },
+        },
+      },
+    });
+  }),
+});
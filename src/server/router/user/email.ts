@@ -1,5 +1,9 @@
 import { z } from "zod";
-import { router, protectedRouter } from "../createRouter";
+import { TRPCError } from "@trpc/server";
+import { PrismaClient, Role } from "@prisma/client";
+import { router, rateLimitedRouter } from "../createRouter";
+import { rateLimits } from "../../rateLimit";
+import { assertNotBlocked } from "../../blocks";
 import _ from "lodash";
 import { generateEmailParams } from "../../../utils/email";
 import {
@@ -21,27 +25,82 @@ const gmailEmailSchema = z
     }
   );
 
+/**
+ * Looks up the names and emails of the signed-in user and the user they're emailing, so
+ * notifications only ever go to a user's own address.
+ *
+ * @param prisma The prisma client
+ * @param senderId The signed-in user
+ * @param receiverId The user to email
+ * @returns Both users, with the emails to send from and to
+ * @throws TRPCError FORBIDDEN if either user blocked the other, NOT_FOUND if the receiver doesn't
+ * exist and BAD_REQUEST if either has no email that can be sent to
+ */
+const loadEmailParties = async (
+  prisma: PrismaClient,
+  senderId: string,
+  receiverId: string
+) => {
+  await assertNotBlocked(prisma, senderId, receiverId);
+  const [sender, receiver] = await Promise.all(
+    [senderId, receiverId].map((id) =>
+      prisma.user.findUnique({
+        where: { id },
+        select: { preferredName: true, email: true, role: true },
+      })
+    )
+  );
+  if (!sender || !receiver) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+  }
+  const senderEmail = gmailEmailSchema.safeParse(sender.email);
+  const receiverEmail = gmailEmailSchema.safeParse(receiver.email);
+  if (!senderEmail.success || !receiverEmail.success) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Both users need an email address that can be sent to",
+    });
+  }
+  return {
+    sender,
+    receiver,
+    senderEmail: senderEmail.data,
+    receiverEmail: receiverEmail.data,
+  };
+};
+
 export const emailsRouter = router({
-  sendRequestNotification: protectedRouter
+  sendRequestNotification: rateLimitedRouter(rateLimits.sendNotification)
     .input(
       z.object({
-        senderName: z.string(),
-        senderEmail: gmailEmailSchema,
-        receiverName: z.string(),
-        receiverEmail: gmailEmailSchema,
-        isDriver: z.boolean(),
+        receiverId: z.string(),
         messagePreview: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const emailParams = generateEmailParams(input, "request", false);
+      const { sender, receiver, senderEmail, receiverEmail } =
+        await loadEmailParties(
+          ctx.prisma,
+          ctx.session.user.id,
+          input.receiverId
+        );
+      const emailParams = generateEmailParams(
+        {
+          senderName: sender.preferredName,
+          senderEmail,
+          receiverName: receiver.preferredName,
+          receiverEmail,
+          isDriver: receiver.role === Role.DRIVER,
+          messagePreview: input.messagePreview,
+        },
+        "request",
+        false
+      );
       try {
         const response = await ctx.sesClient.send(
           new SendTemplatedEmailCommand(emailParams)
         );
-        console.log(
-          `Request email sent successfully to ${input.receiverEmail}.`
-        );
+        console.log(`Request email sent successfully to ${receiverEmail}.`);
         console.log("SES Response:", JSON.stringify(response, null, 2));
         return response;
       } catch (error) {
@@ -50,24 +109,37 @@ export const emailsRouter = router({
       }
     }),
 
-  sendMessageNotification: protectedRouter
+  sendMessageNotification: rateLimitedRouter(rateLimits.sendMessageNotification)
     .input(
       z.object({
-        senderName: z.string(),
-        senderEmail: gmailEmailSchema,
-        receiverName: z.string(),
-        receiverEmail: gmailEmailSchema,
+        receiverId: z.string(),
         messageText: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const emailParams = generateEmailParams(input, "message", false);
+      const { sender, receiver, senderEmail, receiverEmail } =
+        await loadEmailParties(
+          ctx.prisma,
+          ctx.session.user.id,
+          input.receiverId
+        );
+      const emailParams = generateEmailParams(
+        {
+          senderName: sender.preferredName,
+          senderEmail,
+          receiverName: receiver.preferredName,
+          receiverEmail,
+          messageText: input.messageText,
+        },
+        "message",
+        false
+      );
       try {
         const response = await ctx.sesClient.send(
           new SendTemplatedEmailCommand(emailParams)
         );
         console.log(
-          `Message notification sent successfully to ${input.receiverEmail}`
+          `Message notification sent successfully to ${receiverEmail}`
         );
         console.log("SES Response:", JSON.stringify(response, null, 2));
         return response;
@@ -77,24 +149,38 @@ export const emailsRouter = router({
       }
     }),
 
-  sendAcceptanceNotification: protectedRouter
+  sendAcceptanceNotification: rateLimitedRouter(
+    rateLimits.sendAcceptanceNotification
+  )
     .input(
       z.object({
-        senderName: z.string(),
-        senderEmail: gmailEmailSchema,
-        receiverName: z.string(),
-        receiverEmail: gmailEmailSchema,
-        isDriver: z.boolean(),
+        receiverId: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const emailParams = generateEmailParams(input, "acceptance", true);
+      const { sender, receiver, senderEmail, receiverEmail } =
+        await loadEmailParties(
+          ctx.prisma,
+          ctx.session.user.id,
+          input.receiverId
+        );
+      const emailParams = generateEmailParams(
+        {
+          senderName: sender.preferredName,
+          senderEmail,
+          receiverName: receiver.preferredName,
+          receiverEmail,
+          isDriver: sender.role === Role.DRIVER,
+        },
+        "acceptance",
+        true
+      );
       try {
         const response = await ctx.sesClient.send(
           new SendTemplatedEmailCommand(emailParams)
         );
         console.log(
-          `Acceptance notification sent successfully to ${input.receiverEmail}. CC: ${input.senderEmail}`
+          `Acceptance notification sent successfully to ${receiverEmail}. CC: ${senderEmail}`
         );
         console.log("SES Response:", JSON.stringify(response, null, 2));
         return response;
@@ -105,23 +191,26 @@ export const emailsRouter = router({
     }),
 
   // Add the connectEmail mutation
-  connectEmail: protectedRouter
+  connectEmail: rateLimitedRouter(rateLimits.sendNotification)
     .input(
       z.object({
-        sendingUserName: z.string(),
-        sendingUserEmail: gmailEmailSchema,
-        receivingUserName: z.string(),
-        receivingUserEmail: gmailEmailSchema,
+        receivingUserId: z.string(),
         body: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      const { sender, receiver, senderEmail, receiverEmail } =
+        await loadEmailParties(
+          ctx.prisma,
+          ctx.session.user.id,
+          input.receivingUserId
+        );
       const emailParams = generateEmailParams(
         {
-          senderName: input.sendingUserName,
-          senderEmail: input.sendingUserEmail,
-          receiverName: input.receivingUserName,
-          receiverEmail: input.receivingUserEmail,
+          senderName: sender.preferredName,
+          senderEmail,
+          receiverName: receiver.preferredName,
+          receiverEmail,
           messageText: input.body,
         },
         "message",
@@ -132,7 +221,7 @@ export const emailsRouter = router({
           new SendTemplatedEmailCommand(emailParams)
         );
         console.log(
-          `Connect email sent successfully to ${input.receivingUserEmail}. CC: ${input.sendingUserEmail}`
+          `Connect email sent successfully to ${receiverEmail}. CC: ${senderEmail}`
         );
         console.log("SES Response:", JSON.stringify(response, null, 2));
         return response;
@@ -0,0 +1,154 @@
+import { adminRouter, protectedRouter, router } from "../createRouter";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { experimentVariantsSchema } from "../../../utils/experiments";
+import {
+  experimentFunnel,
+  getUserVariant,
+  parseVariants,
+} from "../../experiments";
+
+const assertManager = (permission?: string) => {
+  if (permission !== "MANAGER") {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Only managers can change experiments.",
+    });
+  }
+};
+
+// Router for A/B experiments on matching, only Managers can create, start or stop them
+export const experimentsRouter = router({
+  // The variant of the running experiment the current user is in, if any
+  me: protectedRouter.query(async ({ ctx }) => {
+    const userId = ctx.session.user?.id;
+    const assigned = userId && (await getUserVariant(ctx.prisma, userId));
+    if (!assigned) {
+      return null;
+    }
+    return {
+      key: assigned.experiment.key,
+      variant: assigned.variant.name,
+      defaultSort: assigned.variant.defaultSort,
+    };
+  }),
+
+  list: adminRouter.query(async ({ ctx }) => {
+    const experiments = await ctx.prisma.experiment.findMany({
+      orderBy: { dateCreated: "desc" },
+    });
+    return experiments.map((experiment) => ({
+      id: experiment.id,
+      key: experiment.key,
+      name: experiment.name,
+      isActive: experiment.isActive,
+      dateCreated: experiment.dateCreated,
+      variants: parseVariants(experiment) ?? null,
+    }));
+  }),
+
+  // Request and group-formation rates of each variant since its users were assigned
+  funnel: adminRouter
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const experiment = await ctx.prisma.experiment.findUnique({
+        where: { id: input.id },
+      });
+      if (!experiment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No experiment with id ${input.id}.`,
+        });
+      }
+      return experimentFunnel(ctx.prisma, experiment);
+    }),
+
+  create: adminRouter
+    .input(
+      z.object({
+        key: z
+          .string()
+          .trim()
+          .regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes.")
+          .max(60), // salts the bucketing, so it can't be reused
+        name: z.string().trim().min(1).max(191),
+        variants: experimentVariantsSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertManager(ctx.session.user?.permission);
+      const existing = await ctx.prisma.experiment.findUnique({
+        where: { key: input.key },
+      });
+      if (existing) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `An experiment with key ${input.key} already exists.`,
+        });
+      }
+      const profileIds = input.variants.flatMap((variant) =>
+        variant.profileId === null ? [] : [variant.profileId]
+      );
+      const profiles = await ctx.prisma.weightProfile.count({
+        where: { id: { in: profileIds } },
+      });
+      if (profiles !== new Set(profileIds).size) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Every variant's weight profile must exist.",
+        });
+      }
+
+      return ctx.prisma.experiment.create({
+        data: {
+          key: input.key,
+          name: input.name,
+          variants: input.variants,
+        },
+      });
+    }),
+
+  // Only one experiment runs at a time, so starting one stops the others
+  setActive: adminRouter
+    .input(
+      z.object({
+        id: z.string(),
+        active: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertManager(ctx.session.user?.permission);
+      const experiment = await ctx.prisma.experiment.findUnique({
+        where: { id: input.id },
+      });
+      if (!experiment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No experiment with id ${input.id}.`,
+        });
+      }
+      if (input.active && !parseVariants(experiment)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Experiment ${experiment.key} has malformed variants.`,
+        });
+      }
+
+      return ctx.prisma.$transaction(async (tx) => {
+        if (input.active) {
+          await tx.experiment.updateMany({
+            where: { isActive: true },
+            data: { isActive: false },
+          });
+        }
+        return tx.experiment.update({
+          where: { id: input.id },
+          data: { isActive: input.active },
+        });
+      });
+    }),
+});
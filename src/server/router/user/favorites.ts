@@ -4,6 +4,9 @@ import { router, protectedRouter } from "../createRouter";
 import _ from "lodash";
 import { convertToPublic } from "../../../utils/publicUser";
 import { Status } from "@prisma/client";
+import { excludedUserIds, exclusionSelect } from "../../blocks";
+import { assertSelf } from "../../authorization";
+import { canPairWith } from "../../../utils/roles";
 
 export const favoritesRouter = router({
   me: protectedRouter.query(async ({ ctx }) => {
@@ -11,8 +14,12 @@ export const favoritesRouter = router({
     const user = await ctx.prisma.user.findUnique({
       where: { id },
       select: {
+        id: true,
         role: true,
+        seatAvail: true,
+        canDrive: true,
         favorites: true,
+        ...exclusionSelect,
       },
     });
 
@@ -23,12 +30,12 @@ export const favoritesRouter = router({
         message: `No profile with id '${id}'`,
       });
     }
-    const userRole = user.role;
+    const excluded = new Set(excludedUserIds(user));
     const filteredFavorites = user.favorites.filter(
       (favorite) =>
-        favorite.role !== userRole &&
-        favorite.role !== "VIEWER" &&
-        favorite.status !== Status.INACTIVE
+        canPairWith(user, favorite) &&
+        favorite.status !== Status.INACTIVE &&
+        !excluded.has(favorite.id)
     );
     return filteredFavorites.map(convertToPublic);
   }),
@@ -41,6 +48,7 @@ export const favoritesRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      assertSelf(ctx.session.user.id, input.userId);
       await ctx.prisma.user.update({
         where: {
           id: input.userId,
@@ -0,0 +1,147 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { FilterPreset, PrismaClient } from "@prisma/client";
+import { router, protectedRouter } from "../createRouter";
+import { presetFiltersSchema } from "../../../utils/filterPresets";
+
+const presetInput = z.object({
+  name: z.string().trim().min(1).max(60),
+  filters: presetFiltersSchema,
+  sort: z.string(),
+  alerts: z.boolean(), // alert the user when someone new matches the preset
+});
+
+/** Reads a stored preset, or returns undefined if its filters no longer match the schema */
+const parsePreset = (preset: FilterPreset) => {
+  const filters = presetFiltersSchema.safeParse(preset.filters);
+  if (!filters.success) {
+    return undefined;
+  }
+  return {
+    id: preset.id,
+    name: preset.name,
+    sort: preset.sort,
+    isDefault: preset.isDefault,
+    alerts: preset.alerts,
+    filters: filters.data,
+  };
+};
+
+/** Loads a preset owned by `userId`, throwing if it doesn't exist or belongs to someone else */
+const findOwnPreset = async (
+  prisma: PrismaClient,
+  userId: string | undefined,
+  presetId: string
+) => {
+  const preset = await prisma.filterPreset.findUnique({
+    where: { id: presetId },
+  });
+  if (!preset) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No preset with id '${presetId}'`,
+    });
+  }
+  if (preset.userId !== userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Only the owner of a preset can change it.",
+    });
+  }
+  return preset;
+};
+
+// use this router to manage the filter presets users save
+export const filterPresetsRouter = router({
+  me: protectedRouter.query(async ({ ctx }) => {
+    const presets = await ctx.prisma.filterPreset.findMany({
+      where: { userId: ctx.session.user?.id },
+      orderBy: { name: "asc" },
+    });
+    return presets.flatMap((preset) => parsePreset(preset) ?? []);
+  }),
+  // anyone signed in can open a preset shared with them by link
+  get: protectedRouter
+    .input(z.object({ presetId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const stored = await ctx.prisma.filterPreset.findUnique({
+        where: { id: input.presetId },
+      });
+      const preset = stored && parsePreset(stored);
+      if (!preset) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No preset with id '${input.presetId}'`,
+        });
+      }
+      return {
+        ...preset,
+        isOwn: stored.userId === ctx.session.user?.id,
+      };
+    }),
+  create: protectedRouter
+    .input(
+      presetInput.extend({
+        alerts: z.boolean().default(false),
+        isDefault: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user?.id;
+      if (!userId) {
+        throw new TRPCError({ code: "UNAUTHORIZED" });
+      }
+      const preset = await ctx.prisma.$transaction(async (tx) => {
+        // a user has at most one default preset
+        if (input.isDefault) {
+          await tx.filterPreset.updateMany({
+            where: { userId, isDefault: true },
+            data: { isDefault: false },
+          });
+        }
+        return tx.filterPreset.create({ data: { ...input, userId } });
+      });
+      return parsePreset(preset);
+    }),
+  update: protectedRouter
+    .input(presetInput.partial().extend({ presetId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { presetId, ...data } = input;
+      await findOwnPreset(ctx.prisma, ctx.session.user?.id, presetId);
+      const preset = await ctx.prisma.filterPreset.update({
+        where: { id: presetId },
+        data,
+      });
+      return parsePreset(preset);
+    }),
+  setDefault: protectedRouter
+    .input(
+      z.object({
+        presetId: z.string().nullable(), // null to stop applying a preset on load
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user?.id;
+      if (input.presetId) {
+        await findOwnPreset(ctx.prisma, userId, input.presetId);
+      }
+      await ctx.prisma.$transaction(async (tx) => {
+        await tx.filterPreset.updateMany({
+          where: { userId, isDefault: true },
+          data: { isDefault: false },
+        });
+        if (input.presetId) {
+          await tx.filterPreset.update({
+            where: { id: input.presetId },
+            data: { isDefault: true },
+          });
+        }
+      });
+    }),
+  delete: protectedRouter
+    .input(z.object({ presetId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await findOwnPreset(ctx.prisma, ctx.session.user?.id, input.presetId);
+      await ctx.prisma.filterPreset.delete({ where: { id: input.presetId } });
+    }),
+});
@@ -1,9 +1,22 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { router, protectedRouter } from "../createRouter";
+import { router, protectedRouter, groupMemberRouter } from "../createRouter";
 import _ from "lodash";
-import { Role } from "@prisma/client";
+import { Role, User } from "@prisma/client";
 import { convertToPublic } from "../../../utils/publicUser";
+import { sharedLegs } from "../../../utils/legs";
+import { canDrive, canDriveFor, chooseDriver } from "../../../utils/roles";
+import {
+  assertAcceptedRequestBetween,
+  assertDriverOfGroup,
+} from "../../authorization";
+
+/**
+ * The legs a rider rides with their group's driver: the legs they share, or the rider's own
+ * legs if they somehow share none.
+ */
+const riderLeg = (rider: User, driver: User) =>
+  sharedLegs(rider.legs, driver.legs) ?? rider.legs;
 
 // use this router to create and manage groups
 export const groupsRouter = router({
@@ -34,6 +47,7 @@ export const groupsRouter = router({
       },
       include: {
         users: true,
+        members: true,
       },
     });
 
@@ -51,37 +65,93 @@ export const groupsRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const driver = await ctx.prisma.user.findUnique({
-        where: { id: input.driverId },
-      });
+      const userId = ctx.session.user.id;
+      if (input.driverId !== userId && input.riderId !== userId) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You can only start a group you're part of",
+        });
+      }
+      await assertAcceptedRequestBetween(
+        ctx.prisma,
+        input.driverId,
+        input.riderId
+      );
+      const [proposedDriver, proposedRider] = await Promise.all([
+        ctx.prisma.user.findUnique({ where: { id: input.driverId } }),
+        ctx.prisma.user.findUnique({ where: { id: input.riderId } }),
+      ]);
 
-      if (!driver) {
+      if (!proposedDriver) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "Driver not found",
         });
       }
-      
+      if (!proposedRider) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Rider not found",
+        });
+      }
+
+      // when either could drive (two riders who can both drive), whoever has more free seats
+      // drives, and the proposed driver on a tie
+      const pair = chooseDriver(proposedDriver, proposedRider);
+      if (!pair) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Neither user can drive the other",
+        });
+      }
+      const { driver, rider } = pair;
+      // a new group would quietly move them out of their current one
+      if (rider.carpoolId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${rider.preferredName} is already in a carpool group`,
+        });
+      }
+      if (driver.carpoolId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${driver.preferredName} already has a carpool group, add riders to it instead`,
+        });
+      }
+      if (driver.seatAvail <= 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Driver does not have space available in their car",
+        });
+      }
+
       const group = await ctx.prisma.carpoolGroup.create({
         data: {
           users: {
-            connect: { id: input.driverId },
+            connect: { id: driver.id },
+          },
+          members: {
+            create: { userId: driver.id, leg: driver.legs },
           },
+          driverId: driver.id,
           message: driver.groupMessage || "",
         },
       });
-      
+
       const nGroup = await ctx.prisma.carpoolGroup.update({
         where: { id: group.id },
         data: {
           users: {
-            connect: { id: input.riderId },
+            connect: { id: rider.id },
+          },
+          members: {
+            create: { userId: rider.id, leg: riderLeg(rider, driver) },
           },
         },
       });
 
       await ctx.prisma.user.update({
-        where: { id: input.driverId },
+        where: { id: driver.id },
         data: {
           seatAvail: {
             decrement: 1,
@@ -90,39 +160,30 @@ export const groupsRouter = router({
       });
       return nGroup;
     }),
-  delete: protectedRouter
-    .input(
-      z.object({
-        groupId: z.string(),
-      })
-    )
-    .mutation(async ({ ctx, input }) => {
-      const group = await ctx.prisma.carpoolGroup.findUnique({
-        where: {
-          id: input.groupId,
-        },
-        include: {
-          users: true,
-        },
-      });
-      const usrLength = group ? group.users.length - 1 : 0;
+  delete: groupMemberRouter.mutation(async ({ ctx, input }) => {
+    const { group } = ctx;
+    const userId = ctx.session.user.id;
+    // riders leave through edit instead
+    assertDriverOfGroup(group, userId);
+    const usrLength = group.users.length - 1;
 
-      await ctx.prisma.user.update({
-        where: { id: ctx.session.user?.id },
-        data: {
-          seatAvail: {
-            increment: usrLength,
-          },
+    // the seats go back to whoever drove, older groups didn't record it
+    await ctx.prisma.user.update({
+      where: { id: group.driverId ?? userId },
+      data: {
+        seatAvail: {
+          increment: usrLength,
         },
-      });
+      },
+    });
 
-      const deleteResult = await ctx.prisma.carpoolGroup.delete({
-        where: {
-          id: input.groupId,
-        },
-      });
-      return deleteResult;
-    }),
+    const deleteResult = await ctx.prisma.carpoolGroup.delete({
+      where: {
+        id: input.groupId,
+      },
+    });
+    return deleteResult;
+  }),
   edit: protectedRouter
     .input(
       z.object({
@@ -133,14 +194,72 @@ export const groupsRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const driver = await ctx.prisma.user.findUnique({
-        where: { id: input.driverId },
-      });
+      const userId = ctx.session.user.id;
+      const [existingGroup, driver, rider] = await Promise.all([
+        ctx.prisma.carpoolGroup.findUnique({ where: { id: input.groupId } }),
+        ctx.prisma.user.findUnique({ where: { id: input.driverId } }),
+        ctx.prisma.user.findUnique({ where: { id: input.riderId } }),
+      ]);
+      if (!existingGroup) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No group with id '${input.groupId}'`,
+        });
+      }
+      if (!driver || !rider) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Driver or rider not found",
+        });
+      }
+      // older groups didn't record who drives, any member who can drive is taken at their word
+      if (
+        driver.carpoolId !== existingGroup.id ||
+        (existingGroup.driverId
+          ? existingGroup.driverId !== driver.id
+          : !canDrive(driver))
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${driver.preferredName} doesn't drive this group`,
+        });
+      }
+      // the driver picks up riders and drops them, and riders join or leave themselves
+      if (userId !== driver.id && userId !== rider.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Only the driver or the rider can change who rides",
+        });
+      }
 
-      if (driver?.seatAvail === 0 && input.add) {
+      if (input.add) {
+        // one of them accepted the other's request, so both agreed to carpool
+        await assertAcceptedRequestBetween(ctx.prisma, rider.id, driver.id);
+        if (rider.carpoolId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${rider.preferredName} is already in a carpool group`,
+          });
+        }
+        if (driver.seatAvail <= 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Driver does not have space available in their car",
+          });
+        }
+        if (!canDriveFor(driver, rider)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${driver.preferredName} can't drive ${rider.preferredName}`,
+          });
+        }
+      } else if (
+        rider.carpoolId !== existingGroup.id ||
+        rider.id === driver.id
+      ) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Driver does not have space available in their car",
+          message: `${rider.preferredName} isn't riding in this group`,
         });
       }
 
@@ -150,6 +269,14 @@ export const groupsRouter = router({
           users: {
             [input.add ? "connect" : "disconnect"]: { id: input.riderId },
           },
+          members: input.add
+            ? {
+                create: {
+                  userId: input.riderId,
+                  leg: riderLeg(rider, driver),
+                },
+              }
+            : { deleteMany: { userId: input.riderId } },
         },
       });
 
@@ -168,7 +295,7 @@ export const groupsRouter = router({
 
       if (input.add) {
         await ctx.prisma.user.update({
-          where: { id: input.driverId },
+          where: { id: driver.id },
           data: {
             seatAvail: {
               decrement: 1,
@@ -177,7 +304,7 @@ export const groupsRouter = router({
         });
       } else {
         await ctx.prisma.user.update({
-          where: { id: input.driverId },
+          where: { id: driver.id },
           data: {
             seatAvail: {
               increment: 1,
@@ -193,10 +320,9 @@ export const groupsRouter = router({
       }
       return updatedGroup;
     }),
-  updateMessage: protectedRouter
+  updateMessage: groupMemberRouter
     .input(
       z.object({
-        groupId: z.string(),
         message: z.string(),
       })
     )
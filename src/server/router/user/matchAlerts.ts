@@ -0,0 +1,37 @@
+import { Status } from "@prisma/client";
+import { router, protectedRouter } from "../createRouter";
+import { convertToPublic } from "../../../utils/publicUser";
+
+// use this router to read the alerts sent for users' saved presets
+export const matchAlertsRouter = router({
+  me: protectedRouter.query(async ({ ctx }) => {
+    const userId = ctx.session.user?.id;
+    const alerts = await ctx.prisma.matchAlert.findMany({
+      where: {
+        userId,
+        // alerts about users blocked or hidden since are dropped
+        match: {
+          status: Status.ACTIVE,
+          blocked: { none: { id: userId } },
+          blockedBy: { none: { id: userId } },
+          hiddenBy: { none: { id: userId } },
+        },
+      },
+      include: { match: true, preset: { select: { name: true } } },
+      orderBy: { dateCreated: "desc" },
+    });
+    return alerts.map((alert) => ({
+      id: alert.id,
+      seen: alert.seen,
+      dateCreated: alert.dateCreated,
+      presetName: alert.preset?.name ?? null,
+      user: convertToPublic(alert.match),
+    }));
+  }),
+  markSeen: protectedRouter.mutation(async ({ ctx }) => {
+    await ctx.prisma.matchAlert.updateMany({
+      where: { userId: ctx.session.user?.id, seen: false },
+      data: { seen: true },
+    });
+  }),
+});
@@ -1,6 +1,15 @@
 import { TRPCError } from "@trpc/server";
-import { protectedRouter, router } from "../createRouter";
+import { protectedRouter, rateLimitedRouter, router } from "../createRouter";
 import { z } from "zod";
+import { assertNotBlocked, notBlockedWith } from "../../blocks";
+import {
+  assertPartyToConversation,
+  assertPartyToRequest,
+} from "../../authorization";
+import { isOpenRequest } from "../../../utils/requestStatus";
+import { rateLimits } from "../../rateLimit";
+import { publishToUsers } from "../../realtime";
+import { pairableWhere } from "../../candidates";
 
 export const messageRouter = router({
   getUnreadMessageCount: protectedRouter.query(async ({ ctx }) => {
@@ -14,7 +23,7 @@ export const messageRouter = router({
 
     const user = await ctx.prisma.user.findUnique({
       where: { id: userId },
-      select: { role: true },
+      select: { role: true, canDrive: true },
     });
 
     if (!user) {
@@ -33,19 +42,18 @@ export const messageRouter = router({
         conversation: {
           request: {
             some: {
+              // the same users requests.me lists conversations with
               OR: [
                 {
                   fromUserId: userId,
                   toUser: {
-                    role: { not: user.role },
-                    AND: { role: { not: "VIEWER" } },
+                    AND: [pairableWhere(user), notBlockedWith(userId)],
                   },
                 },
                 {
                   toUserId: userId,
                   fromUser: {
-                    role: { not: user.role },
-                    AND: { role: { not: "VIEWER" } },
+                    AND: [pairableWhere(user), notBlockedWith(userId)],
                   },
                 },
               ],
@@ -66,6 +74,7 @@ export const messageRouter = router({
           message: "User not authenticated",
         });
       }
+      await assertPartyToConversation(ctx.prisma, conversationId, userId);
 
       return ctx.prisma.message.findMany({
         where: { conversationId },
@@ -78,7 +87,7 @@ export const messageRouter = router({
       });
     }),
 
-  sendMessage: protectedRouter
+  sendMessage: rateLimitedRouter(rateLimits.sendMessage)
     .input(
       z.object({
         requestId: z.string(),
@@ -94,6 +103,23 @@ export const messageRouter = router({
         });
       }
 
+      const request = await assertPartyToRequest(
+        ctx.prisma,
+        input.requestId,
+        userId
+      );
+      if (!isOpenRequest(request)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This request was closed, send a new one to talk again",
+        });
+      }
+      await assertNotBlocked(
+        ctx.prisma,
+        userId,
+        request.fromUserId === userId ? request.toUserId : request.fromUserId
+      );
+
       let conversation = await ctx.prisma.conversation.findUnique({
         where: { requestId: input.requestId },
       });
@@ -109,13 +135,19 @@ export const messageRouter = router({
         });
       }
 
-      return ctx.prisma.message.create({
+      const message = await ctx.prisma.message.create({
         data: {
           conversationId: conversation.id,
           content: input.content,
           userId: userId,
         },
       });
+      publishToUsers([request.fromUserId, request.toUserId], {
+        type: "message",
+        conversationId: conversation.id,
+        requestId: request.id,
+      });
+      return message;
     }),
 
   markMessagesAsRead: protectedRouter
@@ -133,20 +165,37 @@ export const messageRouter = router({
         });
       }
 
-      return ctx.prisma.message.updateMany({
-        where: {
-          id: { in: input.messageIds },
-          conversation: {
-            request: {
-              some: {
-                OR: [{ fromUserId: userId }, { toUserId: userId }],
-              },
+      const where = {
+        id: { in: input.messageIds },
+        conversation: {
+          request: {
+            some: {
+              OR: [{ fromUserId: userId }, { toUserId: userId }],
             },
           },
         },
+      };
+      const conversations = await ctx.prisma.conversation.findMany({
+        where: { messages: { some: where } },
+        include: { request: true },
+      });
+      const result = await ctx.prisma.message.updateMany({
+        where,
         data: {
           isRead: true,
         },
       });
+
+      // unread counts change for the reader's other tabs, and the sender sees it was read
+      conversations.forEach((conversation) =>
+        publishToUsers(
+          conversation.request.flatMap((request) => [
+            request.fromUserId,
+            request.toUserId,
+          ]),
+          { type: "messagesRead", conversationId: conversation.id }
+        )
+      );
+      return result;
     }),
 });
@@ -0,0 +1,14 @@
+import { observable } from "@trpc/server/observable";
+import { router, protectedRouter } from "../createRouter";
+import { subscribeToUser } from "../../realtime";
+import { RealtimeEvent } from "../../../utils/realtime";
+
+// use this router to push changes to messages and requests to the signed-in user,
+// streamed to browsers over server-sent events by src/pages/api/realtime.ts
+export const realtimeRouter = router({
+  onEvent: protectedRouter.subscription(({ ctx }) =>
+    observable<RealtimeEvent>((emit) =>
+      subscribeToUser(ctx.session.user.id, (event) => emit.next(event))
+    )
+  ),
+});
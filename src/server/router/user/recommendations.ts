@@ -1,9 +1,13 @@
-import { TRPCError } from "@trpc/server";
 import { protectedRouter, router } from "../createRouter";
 import _ from "lodash";
 import { convertToPublic } from "../../../utils/publicUser";
-import { Status } from "@prisma/client";
-import { calculateScore } from "../../../utils/recommendation";
+import { canDrive } from "../../../utils/roles";
+import { getRoutingProvider } from "../../routing";
+import { fetchCommuteRoute } from "../../routing/directions";
+import { findCandidates } from "../../candidates";
+import { recordAssignment } from "../../experiments";
+import { recordImpressions } from "../../exposure";
+import { rankRecommendations } from "../../recommendations";
 import { z } from "zod";
 
 // use this router to manage invitations
@@ -23,64 +27,72 @@ export const recommendationsRouter = router({
           startDate: z.date(),
           endDate: z.date(),
           dateOverlap: z.number(), // 0 any, 1 partial, 2 full
+          detour: z.number(), // max 30 minutes, greater = any
+          corridor: z.number(), // max minutes off the driver's route, 0 = off
           favorites: z.boolean(), // if true, only show users user has favorited
           messaged: z.boolean(), // if false, hide users user has messaged
         }),
+        limit: z.number().int().min(1).max(100).default(20),
+        cursor: z.number().int().min(0).nullish(), // offset into the sorted recommendations
       })
     )
     .query(async ({ input, ctx }) => {
       const id = ctx.session.user?.id;
-      const currentUser = await ctx.prisma.user.findUnique({
-        where: {
-          id: id,
-        },
-        include: {
-          favorites: input.filters.favorites,
-          sentRequests: !input.filters.messaged,
-          receivedRequests: !input.filters.messaged,
-        },
-      });
-      if (!currentUser) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: `No user with id ${id}.`,
-        });
-      }
-      const { favorites, sentRequests, receivedRequests, ...calcUser } =
-        currentUser;
-
-      let userQuery: { id: any; isOnboarded: boolean; status: Status } = {
-        id: { not: id },
-        isOnboarded: true,
-        status: Status.ACTIVE,
-      };
-
-      // Hide users user has messaged
-      if (!input.filters.messaged) {
-        userQuery.id["notIn"] = [
-          ...sentRequests.map((r) => r.toUserId),
-          ...receivedRequests.map((r) => r.fromUserId),
-        ];
-      }
+      const { currentUser, candidates } = await findCandidates(
+        ctx.prisma,
+        id,
+        input.filters
+      );
 
-      // Favorites filter
-      if (input.filters.favorites) {
-        userQuery.id["in"] = favorites.map((f) => f.id);
+      // Drivers who haven't saved their profile since routes were introduced have none stored yet
+      if (
+        canDrive(currentUser) &&
+        !currentUser.commuteRoute &&
+        (input.sort === "route" || input.filters.corridor > 0)
+      ) {
+        currentUser.commuteRoute = await fetchCommuteRoute(currentUser);
+        await ctx.prisma.user.update({
+          where: { id },
+          data: { commuteRoute: currentUser.commuteRoute },
+        });
       }
 
-      // Construct Query with Filters
-      const users = await ctx.prisma.user.findMany({
-        where: userQuery,
-      });
-      const recs = _.compact(
-        users.map(calculateScore(calcUser, input.filters, input.sort))
+      const offset = input.cursor ?? 0;
+      const { pageRecs, total, assigned } = await rankRecommendations(
+        ctx.prisma,
+        currentUser,
+        candidates,
+        input.filters,
+        input.sort,
+        { offset, limit: input.limit },
+        getRoutingProvider()
       );
-      recs.sort((a, b) => a.score - b.score);
-      const sortedUsers = recs.map((rec) =>
-        users.find((user) => user.id === rec.id)
+      const nextOffset = offset + pageRecs.length;
+
+      await recordImpressions(
+        ctx.prisma,
+        pageRecs.map((rec) => rec.id)
       );
-      const finalUsers = sortedUsers.slice(0, 50);
+      if (assigned) {
+        recordAssignment(
+          ctx.prisma,
+          assigned.experiment.id,
+          currentUser.id,
+          assigned.variant.name
+        ).catch((error) =>
+          console.error("Error recording experiment assignment:", error)
+        );
+      }
 
-      return Promise.all(finalUsers.map((user) => convertToPublic(user!)));
+      const usersById = _.keyBy(candidates, "id");
+      return {
+        users: pageRecs.map((rec) => ({
+          ...convertToPublic(usersById[rec.id]),
+          detourMinutes: rec.detourMinutes,
+          breakdown: rec.breakdown,
+        })),
+        total,
+        nextCursor: nextOffset < total ? nextOffset : null,
+      };
     }),
 });
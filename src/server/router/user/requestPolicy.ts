@@ -0,0 +1,25 @@
+import { adminRouter, router } from "../createRouter";
+import { requestPolicySchema } from "../../../utils/requestStatus";
+import { getRequestPolicy } from "../../staleRequests";
+
+// Router for the thresholds the stale request job reminds recipients and expires requests at
+export const requestPolicyRouter = router({
+  get: adminRouter.query(async ({ ctx }) => {
+    return getRequestPolicy(ctx.prisma);
+  }),
+
+  // Takes effect the next time the job runs
+  update: adminRouter
+    .input(requestPolicySchema)
+    .mutation(async ({ ctx, input }) => {
+      const saved = await ctx.prisma.requestPolicy.upsert({
+        where: { id: 1 },
+        create: { id: 1, ...input },
+        update: input,
+      });
+      return {
+        reminderAfterDays: saved.reminderAfterDays,
+        expireAfterDays: saved.expireAfterDays,
+      };
+    }),
+});
@@ -1,8 +1,24 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { protectedRouter, router } from "../createRouter";
+import {
+  protectedRouter,
+  rateLimitedRouter,
+  requestPartyRouter,
+  router,
+} from "../createRouter";
+import { rateLimits } from "../../rateLimit";
+import { publishRequestUpdate } from "../../realtime";
 
 import { convertToPublic } from "../../../utils/publicUser";
+import { canPairWith } from "../../../utils/roles";
+import { RequestStatus } from "@prisma/client";
+import { assertNotBlocked, notBlockedWith } from "../../blocks";
+import { assertSelf } from "../../authorization";
+import { openRequests, transitionRequest } from "../../requestLifecycle";
+
+const transitionInput = z.object({
+  invitationId: z.string(),
+});
 
 // use this router to manage invitations
 export const requestsRouter = router({
@@ -24,9 +40,12 @@ export const requestsRouter = router({
             toUser: {
               is: {
                 status: { not: "INACTIVE" },
+                ...notBlockedWith(userId),
               },
             },
           },
+          // answered, withdrawn and expired requests are kept as history
+          orderBy: { dateCreated: "desc" },
           include: {
             toUser: true,
             conversation: {
@@ -44,9 +63,11 @@ export const requestsRouter = router({
             fromUser: {
               is: {
                 status: { not: "INACTIVE" },
+                ...notBlockedWith(userId),
               },
             },
           },
+          orderBy: { dateCreated: "desc" },
           include: {
             fromUser: true,
             conversation: {
@@ -84,16 +105,15 @@ export const requestsRouter = router({
         toUser: convertToPublic(user),
       };
     });
-    const sentGoodRole = sent.filter(
-      (req) => req.toUser.role !== user.role && req.toUser.role !== "VIEWER"
-    );
-    const recGoodRole = received.filter(
-      (req) => req.fromUser.role !== user.role && req.fromUser.role !== "VIEWER"
+    // requests with users who can no longer carpool with this one, e.g. after a role change
+    const sentGoodRole = sent.filter((req) => canPairWith(user, req.toUser));
+    const recGoodRole = received.filter((req) =>
+      canPairWith(user, req.fromUser)
     );
     return { sent: sentGoodRole, received: recGoodRole };
   }),
 
-  create: protectedRouter
+  create: rateLimitedRouter(rateLimits.sendRequest)
     .input(
       z.object({
         fromId: z.string(),
@@ -109,8 +129,12 @@ export const requestsRouter = router({
           message: "User not authenticated",
         });
       }
+      assertSelf(userId, input.fromId);
+      await assertNotBlocked(ctx.prisma, input.fromId, input.toId);
+      // a closed request doesn't stop either of them from asking again
       const existingRequests = await ctx.prisma.request.findMany({
         where: {
+          ...openRequests.where,
           OR: [
             {
               fromUserId: input.fromId,
@@ -168,45 +192,67 @@ export const requestsRouter = router({
           userId: userId,
         },
       });
+      publishRequestUpdate(request);
     }),
 
-  delete: protectedRouter
-    .input(
-      z.object({
-        invitationId: z.string(),
-      })
-    )
+  // Only the recipient can accept or decline a pending request
+  accept: protectedRouter
+    .input(transitionInput)
     .mutation(async ({ ctx, input }) => {
-      const invitation = await ctx.prisma.request.findUnique({
-        where: { id: input.invitationId },
-      });
-
-      if (!invitation) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: `No invitation with id '${input.invitationId}'`,
-        });
-      }
-
-      await ctx.prisma.request.delete({
-        where: {
-          id: input.invitationId,
-        },
-      });
+      const request = await transitionRequest(
+        ctx.prisma,
+        input.invitationId,
+        ctx.session.user?.id,
+        RequestStatus.ACCEPTED
+      );
+      publishRequestUpdate(request);
+      return request;
+    }),
+  decline: protectedRouter
+    .input(transitionInput)
+    .mutation(async ({ ctx, input }) => {
+      const request = await transitionRequest(
+        ctx.prisma,
+        input.invitationId,
+        ctx.session.user?.id,
+        RequestStatus.DECLINED
+      );
+      publishRequestUpdate(request);
+      return request;
     }),
-  edit: protectedRouter
+  // Only the sender can withdraw a pending request
+  withdraw: protectedRouter
+    .input(transitionInput)
+    .mutation(async ({ ctx, input }) => {
+      const request = await transitionRequest(
+        ctx.prisma,
+        input.invitationId,
+        ctx.session.user?.id,
+        RequestStatus.WITHDRAWN
+      );
+      publishRequestUpdate(request);
+      return request;
+    }),
+  edit: requestPartyRouter
     .input(
       z.object({
-        invitationId: z.string(),
         message: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      return await ctx.prisma.request.update({
+      if (ctx.request.fromUserId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Only the sender can edit a request",
+        });
+      }
+      const request = await ctx.prisma.request.update({
         where: { id: input.invitationId },
         data: {
           message: input.message,
         },
       });
+      publishRequestUpdate(request);
+      return request;
     }),
 });
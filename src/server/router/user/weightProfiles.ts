@@ -0,0 +1,185 @@
+import { adminRouter, router } from "../createRouter";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { User } from "@prisma/client";
+import _ from "lodash";
+import {
+  defaultFilterInputs,
+  ScoringProfile,
+  scoringProfileSchema,
+  scoreUsers,
+} from "../../../utils/recommendation";
+import { candidateWhere } from "../../candidates";
+import {
+  getActiveScoringProfile,
+  parseWeightProfile,
+  trainWeightProfile,
+} from "../../weightProfiles";
+
+/** Number of recommendations compared in a preview */
+const PREVIEW_SIZE = 10;
+
+const assertManager = (permission?: string) => {
+  if (permission !== "MANAGER") {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Only managers can change weight profiles.",
+    });
+  }
+};
+
+/** Ranks a sample user's top recommendations with the given profile */
+const rankWith = async (
+  sampleUser: User,
+  candidates: User[],
+  profile: ScoringProfile
+) => {
+  // previews skip road routing so tuning doesn't spend routing API requests
+  const recs = await scoreUsers(
+    sampleUser,
+    candidates,
+    defaultFilterInputs(sampleUser),
+    "any",
+    undefined,
+    profile
+  );
+  const usersById = _.keyBy(candidates, "id");
+  return recs.slice(0, PREVIEW_SIZE).map((rec) => ({
+    id: rec.id,
+    name: usersById[rec.id]?.preferredName || usersById[rec.id]?.name,
+    score: rec.score,
+  }));
+};
+
+// Router for versioned recommendation weight profiles, only Managers can create or activate them
+export const weightProfilesRouter = router({
+  list: adminRouter.query(async ({ ctx }) => {
+    const profiles = await ctx.prisma.weightProfile.findMany({
+      orderBy: { id: "desc" },
+      include: { createdBy: { select: { email: true } } },
+    });
+    return profiles.map((profile) => ({
+      id: profile.id,
+      name: profile.name,
+      isActive: profile.isActive,
+      dateCreated: profile.dateCreated,
+      createdBy: profile.createdBy?.email ?? null,
+      profile: parseWeightProfile(profile),
+    }));
+  }),
+
+  // The profile recommendations are scored with right now
+  active: adminRouter.query(async ({ ctx }) => {
+    return getActiveScoringProfile(ctx.prisma);
+  }),
+
+  // Saves a new version; profiles are never edited in place so old versions can be restored
+  create: adminRouter
+    .input(
+      scoringProfileSchema.extend({
+        name: z.string().min(1).max(191),
+        activate: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertManager(ctx.session.user?.permission);
+      const { name, activate, weights, cutoffs } = input;
+
+      return ctx.prisma.$transaction(async (tx) => {
+        if (activate) {
+          await tx.weightProfile.updateMany({
+            where: { isActive: true },
+            data: { isActive: false },
+          });
+        }
+        return tx.weightProfile.create({
+          data: {
+            name,
+            weights,
+            cutoffs,
+            isActive: activate,
+            createdById: ctx.session.user?.id,
+          },
+        });
+      });
+    }),
+
+  activate: adminRouter
+    .input(
+      z.object({
+        id: z.number().int(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertManager(ctx.session.user?.permission);
+      const profile = await ctx.prisma.weightProfile.findUnique({
+        where: { id: input.id },
+      });
+      if (!profile) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No weight profile with version ${input.id}.`,
+        });
+      }
+      if (!parseWeightProfile(profile)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Weight profile ${input.id} is malformed.`,
+        });
+      }
+
+      return ctx.prisma.$transaction([
+        ctx.prisma.weightProfile.updateMany({
+          where: { isActive: true },
+          data: { isActive: false },
+        }),
+        ctx.prisma.weightProfile.update({
+          where: { id: input.id },
+          data: { isActive: true },
+        }),
+      ]);
+    }),
+
+  // Learns weights from request outcomes into a new inactive profile for review
+  train: adminRouter.mutation(async ({ ctx }) => {
+    assertManager(ctx.session.user?.permission);
+    return trainWeightProfile(ctx.prisma, ctx.session.user?.id);
+  }),
+
+  // Compares a sample user's top recommendations under the active profile and a draft one
+  preview: adminRouter
+    .input(
+      z.object({
+        userId: z.string(),
+        profile: scoringProfileSchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const sampleUser = await ctx.prisma.user.findUnique({
+        where: { id: input.userId },
+      });
+      if (!sampleUser) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No user with id ${input.userId}.`,
+        });
+      }
+      if (!sampleUser.isOnboarded) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Pick a user who has finished onboarding.",
+        });
+      }
+
+      const candidates = await ctx.prisma.user.findMany({
+        where: candidateWhere(sampleUser, defaultFilterInputs(sampleUser)),
+      });
+      const [current, draft] = await Promise.all([
+        getActiveScoringProfile(ctx.prisma).then((active) =>
+          rankWith(sampleUser, candidates, active)
+        ),
+        rankWith(sampleUser, candidates, input.profile),
+      ]);
+      return { current, draft };
+    }),
+});
@@ -0,0 +1,84 @@
+import { TRPCError } from "@trpc/server";
+import { serverEnv } from "../../utils/env/server";
+import { DirectionsResponse } from "../../utils/types";
+
+/** Traffic-aware durations drift over the day, so cached routes expire after an hour */
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const directionsCache = new Map<
+  string,
+  { expires: number; response: Promise<DirectionsResponse> }
+>();
+
+/**
+ * Fetches driving directions through the given points from the Mapbox Directions API.
+ * Responses are cached per point sequence, so repeated route lookups (the map's
+ * "View Route" and detour estimation) only hit Mapbox once an hour.
+ *
+ * @param points longitude/latitude pairs, in driving order
+ * @returns the Mapbox directions response
+ */
+export const fetchDirections = (
+  points: [number, number][]
+): Promise<DirectionsResponse> => {
+  // Convert input to a string in the format required by the Mapbox API
+  const coordinates = points.map(([lng, lat]) => `${lng},${lat}`).join(";");
+
+  const cached = directionsCache.get(coordinates);
+  if (cached && cached.expires > Date.now()) {
+    return cached.response;
+  }
+
+  const endpoint = `https://api.mapbox.com/directions/v5/mapbox/driving-traffic/${coordinates}?access_token=${serverEnv.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN}`;
+  const response = fetch(endpoint)
+    .then((response) => response.json())
+    .then((json) => {
+      if (json.code != "Ok") {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: json.message,
+          cause: json,
+        });
+      } else {
+        return json as DirectionsResponse;
+      }
+    })
+    .catch((err) => {
+      directionsCache.delete(coordinates);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Unexpected error. Please try again.",
+        cause: err,
+      });
+    });
+
+  directionsCache.set(coordinates, {
+    expires: Date.now() + CACHE_TTL_MS,
+    response,
+  });
+  return response;
+};
+
+/**
+ * Looks up a driver's commute route from their start to their company.
+ *
+ * @param user the coordinates of the commute
+ * @returns the route as a Mapbox encoded polyline, or null if it could not be routed
+ */
+export const fetchCommuteRoute = async (user: {
+  startCoordLng: number;
+  startCoordLat: number;
+  companyCoordLng: number;
+  companyCoordLat: number;
+}): Promise<string | null> => {
+  try {
+    const response = await fetchDirections([
+      [user.startCoordLng, user.startCoordLat],
+      [user.companyCoordLng, user.companyCoordLat],
+    ]);
+    return response.routes[0]?.geometry ?? null;
+  } catch (err) {
+    console.error("Error fetching commute route:", err);
+    return null;
+  }
+};
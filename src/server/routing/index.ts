@@ -0,0 +1,18 @@
+import { serverEnv } from "../../utils/env/server";
+import { localRoutingProvider, RoutingProvider } from "../../utils/distance";
+import { mapboxRoutingProvider } from "./mapbox";
+
+/**
+ * Returns the routing provider configured through `ROUTING_PROVIDER`, or undefined when
+ * recommendations should only use straight-line (haversine) distances.
+ */
+export const getRoutingProvider = (): RoutingProvider | undefined => {
+  switch (serverEnv.ROUTING_PROVIDER) {
+    case "mapbox":
+      return mapboxRoutingProvider;
+    case "local":
+      return localRoutingProvider;
+    default:
+      return undefined;
+  }
+};
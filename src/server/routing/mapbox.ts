@@ -0,0 +1,78 @@
+import _ from "lodash";
+import { serverEnv } from "../../utils/env/server";
+import { Coord, metersToMiles, RoutingProvider } from "../../utils/distance";
+import { fetchDirections } from "./directions";
+
+/** The Matrix API accepts at most 25 coordinates per request, one of which is the origin */
+const MAX_DESTINATIONS = 24;
+
+const coordKey = (coord: Coord) =>
+  `${coord.lng.toFixed(5)},${coord.lat.toFixed(5)}`;
+
+// Road distances barely change, so cache them for the lifetime of the server instance
+const distanceCache = new Map<string, number | null>();
+
+/**
+ * Queries the Mapbox Matrix API for driving distances from one origin to many destinations.
+ *
+ * @param origin the start point of every route
+ * @param destinations at most `MAX_DESTINATIONS` end points
+ * @returns distances in miles, or null where Mapbox could not find a route
+ */
+const fetchMatrixRow = async (
+  origin: Coord,
+  destinations: Coord[]
+): Promise<(number | null)[]> => {
+  const coordinates = [origin, ...destinations].map(coordKey).join(";");
+  const endpoint = `https://api.mapbox.com/directions-matrix/v1/mapbox/driving/${coordinates}?sources=0&annotations=distance&access_token=${serverEnv.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN}`;
+  const json = await fetch(endpoint).then((response) => response.json());
+  if (json.code !== "Ok") {
+    throw new Error(`Mapbox matrix request failed: ${json.message}`);
+  }
+  const row: (number | null)[] = json.distances[0].slice(1);
+  return row.map((meters) => (meters === null ? null : metersToMiles(meters)));
+};
+
+/**
+ * Routing provider backed by the Mapbox Matrix and Directions APIs. Failed requests resolve to
+ * null rather than throwing, so recommendations degrade to straight-line distances.
+ */
+export const mapboxRoutingProvider: RoutingProvider = {
+  name: "mapbox",
+  roadDistances: async (origin, destinations) => {
+    const originKey = coordKey(origin);
+    const uncached = _.uniqBy(
+      destinations.filter(
+        (dest) => !distanceCache.has(`${originKey};${coordKey(dest)}`)
+      ),
+      coordKey
+    );
+
+    await Promise.all(
+      _.chunk(uncached, MAX_DESTINATIONS).map(async (chunk) => {
+        const distances = await fetchMatrixRow(origin, chunk).catch((err) => {
+          console.error("Error fetching road distances:", err);
+          return chunk.map(() => null);
+        });
+        chunk.forEach((dest, idx) =>
+          distanceCache.set(`${originKey};${coordKey(dest)}`, distances[idx])
+        );
+      })
+    );
+
+    return destinations.map(
+      (dest) => distanceCache.get(`${originKey};${coordKey(dest)}`) ?? null
+    );
+  },
+  routeDuration: async (points) => {
+    try {
+      const response = await fetchDirections(
+        points.map((point) => [point.lng, point.lat])
+      );
+      return response.routes[0].duration / 60;
+    } catch (err) {
+      console.error("Error fetching route duration:", err);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,199 @@
+import { PrismaClient, RequestStatus, Status } from "@prisma/client";
+import { SendTemplatedEmailCommand, SESClient } from "@aws-sdk/client-ses";
+import dayjs from "dayjs";
+import { generateEmailParams } from "../utils/email";
+import { RequestPolicy } from "../utils/requestStatus";
+
+/** Thresholds used until an admin saves their own */
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  reminderAfterDays: 5,
+  expireAfterDays: 14,
+};
+
+/** Most emails one run sends, the rest go out on the following runs */
+export const MAX_EMAILS_PER_RUN = 200;
+
+/**
+ * Loads the thresholds for following up on pending requests.
+ *
+ * @param prisma The prisma client
+ * @returns The saved thresholds, or the defaults if none were saved
+ */
+export const getRequestPolicy = async (
+  prisma: PrismaClient
+): Promise<RequestPolicy> => {
+  const saved = await prisma.requestPolicy.findUnique({ where: { id: 1 } });
+  return saved
+    ? {
+        reminderAfterDays: saved.reminderAfterDays,
+        expireAfterDays: saved.expireAfterDays,
+      }
+    : DEFAULT_REQUEST_POLICY;
+};
+
+/**
+ * Expires requests left pending for `expireAfterDays` and lets their senders know, so they can
+ * move on to someone else. Legacy requests, left pending before follow-ups existed, expire
+ * without an email since their senders have long moved on. Requests whose sender would be emailed once `maxEmails` have been
+ * sent stay pending until a later run.
+ *
+ * @param prisma The prisma client
+ * @param sesClient The client to send notifications with
+ * @param policy The thresholds to apply
+ * @param maxEmails The most notifications to send
+ * @returns How many requests expired and how many notifications were sent
+ */
+const expireStaleRequests = async (
+  prisma: PrismaClient,
+  sesClient: SESClient,
+  policy: RequestPolicy,
+  maxEmails: number
+) => {
+  const requests = await prisma.request.findMany({
+    where: {
+      status: RequestStatus.PENDING,
+      dateCreated: {
+        lt: dayjs().subtract(policy.expireAfterDays, "day").toDate(),
+      },
+    },
+    include: { fromUser: true, toUser: true },
+    orderBy: { dateCreated: "asc" },
+  });
+
+  let expired = 0;
+  let emailed = 0;
+  for (const request of requests) {
+    const notify = !!request.fromUser.email && !request.legacy;
+    if (notify && emailed >= maxEmails) {
+      continue;
+    }
+    // conditional on PENDING in case the request was answered since it was loaded
+    const { count } = await prisma.request.updateMany({
+      where: { id: request.id, status: RequestStatus.PENDING },
+      data: { status: RequestStatus.EXPIRED, dateResolved: new Date() },
+    });
+    if (count === 0) {
+      continue;
+    }
+    expired++;
+    if (!notify || !request.fromUser.email) {
+      continue;
+    }
+    emailed++;
+    const emailParams = generateEmailParams(
+      {
+        senderName: request.toUser.preferredName,
+        senderEmail: request.toUser.email ?? "",
+        receiverName: request.fromUser.preferredName,
+        receiverEmail: request.fromUser.email,
+        daysPending: dayjs().diff(request.dateCreated, "day"),
+      },
+      "requestExpired",
+      false
+    );
+    try {
+      await sesClient.send(new SendTemplatedEmailCommand(emailParams));
+    } catch (error) {
+      console.error(
+        `Error notifying ${request.fromUser.email} of an expired request:`,
+        error
+      );
+    }
+  }
+  return { expired, emailed };
+};
+
+/**
+ * Reminds recipients of requests pending for `reminderAfterDays` to answer them. Each request
+ * gets one reminder at most, oldest requests first.
+ *
+ * @param prisma The prisma client
+ * @param sesClient The client to send reminders with
+ * @param policy The thresholds to apply
+ * @param maxEmails The most reminders to send
+ * @returns How many reminders were sent
+ */
+const remindRecipients = async (
+  prisma: PrismaClient,
+  sesClient: SESClient,
+  policy: RequestPolicy,
+  maxEmails: number
+) => {
+  if (maxEmails <= 0) {
+    return 0;
+  }
+  const requests = await prisma.request.findMany({
+    where: {
+      status: RequestStatus.PENDING,
+      reminderSentAt: null,
+      legacy: false,
+      dateCreated: {
+        lt: dayjs().subtract(policy.reminderAfterDays, "day").toDate(),
+      },
+      // inactive users aren't looking for a carpool, their requests just expire
+      toUser: { status: Status.ACTIVE, email: { not: null } },
+    },
+    include: { fromUser: true, toUser: true },
+    orderBy: { dateCreated: "asc" },
+    take: maxEmails,
+  });
+
+  let reminded = 0;
+  for (const request of requests) {
+    const daysPending = dayjs().diff(request.dateCreated, "day");
+    const emailParams = generateEmailParams(
+      {
+        senderName: request.fromUser.preferredName,
+        senderEmail: request.fromUser.email ?? "",
+        receiverName: request.toUser.preferredName,
+        receiverEmail: request.toUser.email!,
+        daysPending,
+        daysLeft: Math.max(1, policy.expireAfterDays - daysPending),
+      },
+      "requestReminder",
+      false
+    );
+    try {
+      await sesClient.send(new SendTemplatedEmailCommand(emailParams));
+      await prisma.request.update({
+        where: { id: request.id },
+        data: { reminderSentAt: new Date() },
+      });
+      reminded++;
+    } catch (error) {
+      console.error(`Error reminding ${request.toUser.email}:`, error);
+    }
+  }
+  return reminded;
+};
+
+/**
+ * Follows up on pending requests: expires the ones left unanswered too long, then reminds the
+ * recipients of the rest once they've waited long enough. Expiring first means a request past
+ * both thresholds isn't also reminded about. At most `maxEmails` are sent between the two.
+ *
+ * @param prisma The prisma client
+ * @param sesClient The client to send emails with
+ * @param maxEmails The most emails to send
+ * @returns How many requests expired and how many reminders were sent
+ */
+export const processStaleRequests = async (
+  prisma: PrismaClient,
+  sesClient: SESClient,
+  maxEmails = MAX_EMAILS_PER_RUN
+) => {
+  const policy = await getRequestPolicy(prisma);
+  const { expired, emailed } = await expireStaleRequests(
+    prisma,
+    sesClient,
+    policy,
+    maxEmails
+  );
+  const reminded = await remindRecipients(
+    prisma,
+    sesClient,
+    policy,
+    maxEmails - emailed
+  );
+  return { expired, reminded };
+};
@@ -0,0 +1,135 @@
+import { PrismaClient, Role, Status, User } from "@prisma/client";
+import { SendTemplatedEmailCommand, SESClient } from "@aws-sdk/client-ses";
+import dayjs from "dayjs";
+import _ from "lodash";
+import { defaultFilterInputs } from "../utils/recommendation";
+import { DigestMatch, generateEmailParams } from "../utils/email";
+import { findCandidates } from "./candidates";
+import { rankRecommendations } from "./recommendations";
+
+/** Number of recommendations listed in each digest */
+export const DIGEST_SIZE = 5;
+
+/** A user gets at most one digest in this many days, so running the job twice doesn't resend */
+const DIGEST_INTERVAL_DAYS = 6;
+
+const dayNames = ["Su", "M", "Tu", "W", "Th", "F", "S"];
+
+/**
+ * Lists the weekdays two users both commute.
+ *
+ * @param a One user's days working, e.g. "0,1,0,1,0,1,0"
+ * @param b The other user's days working
+ * @returns The shared days, e.g. "M, W, F", or "None"
+ */
+const sharedDayNames = (a: string, b: string): string => {
+  const bDays = b.split(",");
+  const shared = a
+    .split(",")
+    .flatMap((day, index) =>
+      day === "1" && bDays[index] === "1" ? [dayNames[index]] : []
+    );
+  return shared.length > 0 ? shared.join(", ") : "None";
+};
+
+/**
+ * Finds a user's top recommendations the way the first page of their recommendations list does
+ * before they change any filters, without the road-network lookups.
+ *
+ * @param prisma The prisma client
+ * @param user The user to find recommendations for
+ * @returns The best `DIGEST_SIZE` matches, as listed in the digest
+ */
+export const digestMatches = async (
+  prisma: PrismaClient,
+  user: User
+): Promise<DigestMatch[]> => {
+  const filters = {
+    ...defaultFilterInputs(user),
+    favorites: false,
+    messaged: false,
+  };
+  const { currentUser, candidates } = await findCandidates(
+    prisma,
+    user.id,
+    filters
+  );
+  const { pageRecs } = await rankRecommendations(
+    prisma,
+    currentUser,
+    candidates,
+    filters,
+    undefined,
+    { offset: 0, limit: DIGEST_SIZE }
+  );
+  const usersById = _.keyBy(candidates, "id");
+  return pageRecs.map((rec) => {
+    const match = usersById[rec.id];
+    return {
+      name: match.preferredName || match.name || "",
+      companyName: match.companyName,
+      sharedDays: sharedDayNames(user.daysWorking, match.daysWorking),
+    };
+  });
+};
+
+/**
+ * Emails each active user who isn't in a carpool group yet their top recommendations. Users who
+ * opted out, already got a digest this week, or have no recommendations are skipped.
+ *
+ * @param prisma The prisma client
+ * @param sesClient The client to send digests with
+ * @returns How many users were considered and how many digests were sent
+ */
+export const sendWeeklyDigests = async (
+  prisma: PrismaClient,
+  sesClient: SESClient
+) => {
+  const users = await prisma.user.findMany({
+    where: {
+      isOnboarded: true,
+      status: Status.ACTIVE,
+      role: { not: Role.VIEWER },
+      carpoolId: null,
+      weeklyDigest: true,
+      email: { not: null },
+      OR: [
+        { digestSentAt: null },
+        {
+          digestSentAt: {
+            lt: dayjs().subtract(DIGEST_INTERVAL_DAYS, "day").toDate(),
+          },
+        },
+      ],
+    },
+  });
+
+  let sent = 0;
+  // one user at a time, to keep the load on the database and SES low
+  for (const user of users) {
+    const matches = await digestMatches(prisma, user);
+    if (matches.length === 0) {
+      continue;
+    }
+    const emailParams = generateEmailParams(
+      {
+        receiverName: user.preferredName,
+        receiverEmail: user.email!,
+        matches,
+      },
+      "digest",
+      false
+    );
+    try {
+      await sesClient.send(new SendTemplatedEmailCommand(emailParams));
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { digestSentAt: new Date() },
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Error sending digest to ${user.email}:`, error);
+    }
+  }
+  return { users: users.length, sent };
+};
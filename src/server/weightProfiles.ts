@@ -0,0 +1,103 @@
+import { PrismaClient, WeightProfile } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import dayjs from "dayjs";
+import {
+  defaultScoringProfile,
+  ScoringProfile,
+  scoringProfileSchema,
+} from "../utils/recommendation";
+import {
+  fitLogisticRegression,
+  profileFromCoefficients,
+} from "../utils/weightTraining";
+import { collectTrainingSamples } from "./requestOutcomes";
+
+/**
+ * Reads the weights and cutoffs stored in a weight profile.
+ *
+ * @param profile The stored weight profile
+ * @returns The scoring profile, or undefined if the stored JSON doesn't match `scoringProfileSchema`
+ */
+export const parseWeightProfile = (
+  profile: WeightProfile
+): ScoringProfile | undefined => {
+  const parsed = scoringProfileSchema.safeParse({
+    weights: profile.weights,
+    cutoffs: profile.cutoffs,
+  });
+  return parsed.success ? parsed.data : undefined;
+};
+
+/**
+ * Loads the scoring profile recommendations are currently scored with.
+ *
+ * @param prisma The prisma client
+ * @returns The active weight profile, or the built-in defaults if none is active or it is malformed
+ */
+export const getActiveScoringProfile = async (
+  prisma: PrismaClient
+): Promise<ScoringProfile> => {
+  const active = await prisma.weightProfile.findFirst({
+    where: { isActive: true },
+    orderBy: { id: "desc" },
+  });
+  if (!active) {
+    return defaultScoringProfile;
+  }
+
+  const profile = parseWeightProfile(active);
+  if (!profile) {
+    console.error(
+      `Weight profile ${active.id} is malformed, using the default weights.`
+    );
+    return defaultScoringProfile;
+  }
+  return profile;
+};
+
+/** Fewest samples of each outcome needed to learn weights from */
+const MIN_SAMPLES_PER_OUTCOME = 10;
+
+/**
+ * Learns component weights from request outcomes and saves them as a new, inactive weight
+ * profile so that a manager can review and preview it before activating it.
+ *
+ * @param prisma The prisma client
+ * @param createdById The user who started the training, if any
+ * @returns The new weight profile and the number of samples it was trained on
+ */
+export const trainWeightProfile = async (
+  prisma: PrismaClient,
+  createdById?: string
+) => {
+  const samples = await collectTrainingSamples(prisma);
+  const accepted = samples.filter((sample) => sample.accepted).length;
+  const rejected = samples.length - accepted;
+  if (
+    accepted < MIN_SAMPLES_PER_OUTCOME ||
+    rejected < MIN_SAMPLES_PER_OUTCOME
+  ) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `Training needs at least ${MIN_SAMPLES_PER_OUTCOME} accepted and ${MIN_SAMPLES_PER_OUTCOME} declined or ignored requests, found ${accepted} and ${rejected}.`,
+    });
+  }
+
+  const { coefficients } = fitLogisticRegression(samples);
+  const { weights, cutoffs } = profileFromCoefficients(
+    coefficients,
+    await getActiveScoringProfile(prisma)
+  );
+  const profile = await prisma.weightProfile.create({
+    data: {
+      name: `Trained on ${samples.length} requests (${dayjs().format(
+        "YYYY-MM-DD"
+      )})`,
+      weights,
+      cutoffs,
+      isActive: false,
+      createdById,
+    },
+  });
+  return { profile, accepted, rejected };
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "@jest/globals";
+import { Role } from "@prisma/client";
+import {
+  haversineDistance,
+  localRoutingProvider,
+  roadPairDistances,
+  RoutingProvider,
+} from "../distance";
+import { defaultFilterInputs, scoreUsers } from "../recommendation";
+
+const boston = { lat: 42.3601, lng: -71.0589 };
+const newYork = { lat: 40.7128, lng: -74.006 };
+
+// a user who commutes from `start` to Northeastern on weekdays, 9 to 5
+const makeUser = (
+  id: string,
+  start: { lat: number; lng: number },
+  role: Role = Role.RIDER
+) => ({
+  id,
+  role,
+  seatAvail: role === Role.DRIVER ? 3 : 0,
+  coopStartDate: new Date("2026-01-05"),
+  coopEndDate: new Date("2026-06-26"),
+  startCoordLat: start.lat,
+  startCoordLng: start.lng,
+  companyCoordLat: 42.3398,
+  companyCoordLng: -71.0892,
+  daysWorking: "0,1,1,1,1,1,0",
+  startTime: new Date(Date.UTC(1970, 0, 1, 9)),
+  endTime: new Date(Date.UTC(1970, 0, 1, 17)),
+});
+
+describe("haversineDistance", () => {
+  it("is zero between a point and itself", () => {
+    expect(haversineDistance(boston, boston)).toBe(0);
+  });
+
+  it("measures the great-circle distance in miles", () => {
+    expect(haversineDistance(boston, newYork)).toBeCloseTo(190.2, 0);
+  });
+
+  it("is symmetric", () => {
+    expect(haversineDistance(boston, newYork)).toBeCloseTo(
+      haversineDistance(newYork, boston),
+      10
+    );
+  });
+});
+
+describe("roadPairDistances", () => {
+  const current = makeUser("current", boston);
+  const other = makeUser("other", { lat: 42.4, lng: -71.1 });
+
+  it("uses the provider's road distances", async () => {
+    const distances = await roadPairDistances(localRoutingProvider, current, [
+      other,
+    ]);
+    expect(distances.get("other")?.startDistance).toBeCloseTo(
+      haversineDistance(boston, { lat: 42.4, lng: -71.1 }) * 1.3,
+      10
+    );
+    expect(distances.get("other")?.endDistance).toBe(0);
+  });
+
+  it("falls back to haversine for legs that couldn't be routed", async () => {
+    const unroutable: RoutingProvider = {
+      ...localRoutingProvider,
+      roadDistances: async (_origin, destinations) =>
+        destinations.map(() => null),
+    };
+    const distances = await roadPairDistances(unroutable, current, [other]);
+    expect(distances.get("other")?.startDistance).toBeCloseTo(
+      haversineDistance(boston, { lat: 42.4, lng: -71.1 }),
+      10
+    );
+  });
+});
+
+describe("scoreUsers", () => {
+  const driver = makeUser("driver", boston, Role.DRIVER);
+  // about 4.6 miles away in a straight line, about 6 by road
+  const rider = makeUser("rider", { lat: 42.4266, lng: -71.0589 });
+  const inputs = { ...defaultFilterInputs(driver), startDistance: 5 };
+
+  it("keeps users within the distance filter in a straight line", async () => {
+    const recs = await scoreUsers(driver, [rider], inputs, "any");
+    expect(recs.map((rec) => rec.id)).toEqual(["rider"]);
+  });
+
+  it("drops users the road network puts outside the distance filter", async () => {
+    const recs = await scoreUsers(
+      driver,
+      [rider],
+      inputs,
+      "any",
+      localRoutingProvider
+    );
+    expect(recs).toEqual([]);
+  });
+
+  it("reports road distances and detours in the breakdown", async () => {
+    const recs = await scoreUsers(
+      driver,
+      [rider],
+      defaultFilterInputs(driver),
+      "any",
+      localRoutingProvider
+    );
+    expect(recs).toHaveLength(1);
+    expect(recs[0]?.breakdown.startDistance.value).toBeCloseTo(
+      haversineDistance(boston, { lat: 42.4266, lng: -71.0589 }) * 1.3,
+      10
+    );
+    expect(recs[0]?.detourMinutes).toBeGreaterThan(0);
+  });
+});
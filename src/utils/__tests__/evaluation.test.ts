@@ -0,0 +1,102 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  evaluateRankings,
+  knownMatches,
+  recallAtK,
+  reciprocalRank,
+} from "../evaluation";
+
+describe("knownMatches", () => {
+  it("matches both sides of a request and every pair in a group", () => {
+    const matches = knownMatches(
+      [{ fromUserId: "a", toUserId: "b" }],
+      [["c", "d", "e"]]
+    );
+    expect(matches.get("a")).toEqual(new Set(["b"]));
+    expect(matches.get("b")).toEqual(new Set(["a"]));
+    expect(matches.get("c")).toEqual(new Set(["d", "e"]));
+    expect(matches.get("e")).toEqual(new Set(["c", "d"]));
+  });
+
+  it("counts a pair once, and never a user with themselves", () => {
+    const matches = knownMatches(
+      [
+        { fromUserId: "a", toUserId: "b" },
+        { fromUserId: "b", toUserId: "a" },
+        { fromUserId: "c", toUserId: "c" },
+      ],
+      [["a", "b"]]
+    );
+    expect(matches.get("a")).toEqual(new Set(["b"]));
+    expect(matches.has("c")).toBe(false);
+  });
+});
+
+describe("recallAtK", () => {
+  it("finds the share of relevant users in the top k", () => {
+    const relevant = new Set(["b", "d"]);
+    expect(recallAtK(["a", "b", "c", "d"], relevant, 1)).toBe(0);
+    expect(recallAtK(["a", "b", "c", "d"], relevant, 2)).toBe(0.5);
+    expect(recallAtK(["a", "b", "c", "d"], relevant, 10)).toBe(1);
+  });
+
+  it("is 0 with nothing to find", () => {
+    expect(recallAtK(["a"], new Set(), 1)).toBe(0);
+  });
+});
+
+describe("reciprocalRank", () => {
+  it("rewards ranking the first relevant user early", () => {
+    expect(reciprocalRank(["a", "b"], new Set(["a"]))).toBe(1);
+    expect(reciprocalRank(["a", "b", "c", "d"], new Set(["d", "c"]))).toBe(
+      1 / 3
+    );
+  });
+
+  it("is 0 when no relevant user was ranked", () => {
+    expect(reciprocalRank(["a", "b"], new Set(["c"]))).toBe(0);
+  });
+});
+
+describe("evaluateRankings", () => {
+  const matches = knownMatches(
+    [
+      { fromUserId: "u1", toUserId: "m1" },
+      { fromUserId: "u2", toUserId: "m2" },
+    ],
+    []
+  );
+
+  it("averages over the users with rankings and known matches", () => {
+    const rankings = new Map([
+      ["u1", ["m1", "x"]],
+      ["u2", ["x", "m2"]],
+      ["nobody", ["m1"]], // no known matches, so not evaluated
+    ]);
+    const report = evaluateRankings(rankings, matches, [1, 2]);
+    expect(report.users).toBe(2);
+    expect(report.recallAt).toEqual({ 1: 0.5, 2: 1 });
+    expect(report.mrr).toBe(0.75);
+    expect(report.unranked).toBe(0);
+  });
+
+  it("reports the share of matches the filters left out", () => {
+    const rankings = new Map([
+      ["u1", ["m1"]],
+      ["u2", ["x"]],
+    ]);
+    const report = evaluateRankings(rankings, matches, [5]);
+    expect(report.recallAt[5]).toBe(0.5);
+    expect(report.mrr).toBe(0.5);
+    expect(report.unranked).toBe(0.5);
+  });
+
+  it("reports zeros with nothing to evaluate", () => {
+    expect(evaluateRankings(new Map(), matches, [1])).toEqual({
+      users: 0,
+      recallAt: { 1: 0 },
+      mrr: 0,
+      unranked: 0,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "@jest/globals";
+import { assignVariant, ExperimentVariant } from "../experiments";
+
+const variant = (name: string, weight: number): ExperimentVariant => ({
+  name,
+  weight,
+  profileId: null,
+  defaultSort: null,
+});
+
+const userIds = Array.from({ length: 10000 }, (_, i) => `user-${i}`);
+
+/** Shares of the users that land in each variant */
+const split = (key: string, variants: ExperimentVariant[]) => {
+  const counts = new Map<string, number>();
+  for (const userId of userIds) {
+    const name = assignVariant(key, variants, userId).name;
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return new Map(
+    Array.from(counts, ([name, count]) => [name, count / userIds.length])
+  );
+};
+
+describe("assignVariant", () => {
+  const variants = [variant("control", 1), variant("treatment", 1)];
+
+  it("keeps a user in the same variant", () => {
+    for (const userId of userIds.slice(0, 100)) {
+      const first = assignVariant("new-weights", variants, userId);
+      expect(assignVariant("new-weights", variants, userId)).toBe(first);
+      // a copy of the experiment's variants buckets the same way
+      expect(
+        assignVariant(
+          "new-weights",
+          variants.map((v) => ({ ...v })),
+          userId
+        ).name
+      ).toBe(first.name);
+    }
+  });
+
+  it("splits users by the variants' weights", () => {
+    const shares = split("new-weights", [
+      variant("control", 3),
+      variant("treatment", 1),
+    ]);
+    expect(shares.get("control")).toBeCloseTo(0.75, 1);
+    expect(shares.get("treatment")).toBeCloseTo(0.25, 1);
+  });
+
+  it("splits evenly between equal weights", () => {
+    const shares = split("new-weights", [
+      variant("a", 2),
+      variant("b", 2),
+      variant("c", 2),
+    ]);
+    for (const name of ["a", "b", "c"]) {
+      expect(shares.get(name)).toBeCloseTo(1 / 3, 1);
+    }
+  });
+
+  it("buckets each experiment independently", () => {
+    const inTreatment = (key: string) =>
+      userIds.map(
+        (userId) => assignVariant(key, variants, userId).name === "treatment"
+      );
+    const first = inTreatment("new-weights");
+    const second = inTreatment("mutual-sort");
+    const both = first.filter((treated, i) => treated && second[i]).length;
+    // half of each half, not the same half again
+    expect(both / userIds.length).toBeCloseTo(0.25, 1);
+  });
+});
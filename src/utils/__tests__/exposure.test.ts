@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  ExposureStats,
+  exposureAdjustment,
+  rerankForExposure,
+} from "../exposure";
+import { Recommendation } from "../recommendation";
+
+const stats = (overrides: Partial<ExposureStats> = {}): ExposureStats => ({
+  impressions: 50,
+  pendingRequests: 0,
+  noSeats: false,
+  ...overrides,
+});
+
+const rec = (id: string, score: number) =>
+  ({ id, score } as unknown as Recommendation);
+
+describe("exposureAdjustment", () => {
+  it("leaves users shown often enough and without requests waiting alone", () => {
+    expect(exposureAdjustment(stats())).toBe(0);
+    expect(exposureAdjustment(stats({ impressions: 500 }))).toBe(0);
+  });
+
+  it("boosts rarely shown users, the fewer impressions the more", () => {
+    expect(exposureAdjustment(stats({ impressions: 0 }))).toBeCloseTo(-0.1);
+    expect(exposureAdjustment(stats({ impressions: 25 }))).toBeCloseTo(-0.05);
+  });
+
+  it("penalizes pending requests up to a cap", () => {
+    expect(exposureAdjustment(stats({ pendingRequests: 1 }))).toBeCloseTo(0.03);
+    expect(exposureAdjustment(stats({ pendingRequests: 5 }))).toBeCloseTo(0.15);
+    expect(exposureAdjustment(stats({ pendingRequests: 50 }))).toBeCloseTo(
+      0.15
+    );
+  });
+
+  it("penalizes drivers without free seats", () => {
+    expect(exposureAdjustment(stats({ noSeats: true }))).toBeCloseTo(0.1);
+  });
+
+  it("adds the boost and the penalties up", () => {
+    expect(
+      exposureAdjustment({ impressions: 0, pendingRequests: 5, noSeats: true })
+    ).toBeCloseTo(0.15);
+  });
+});
+
+describe("rerankForExposure", () => {
+  it("moves rarely shown users up past slightly better matches", () => {
+    const reranked = rerankForExposure(
+      [rec("popular", 0.2), rec("unseen", 0.25)],
+      new Map([
+        ["popular", stats()],
+        ["unseen", stats({ impressions: 0 })],
+      ])
+    );
+    expect(reranked.map((r) => r.id)).toEqual(["unseen", "popular"]);
+    expect(reranked[0]?.score).toBeCloseTo(0.15);
+  });
+
+  it("moves users with many requests waiting down", () => {
+    const reranked = rerankForExposure(
+      [rec("busy", 0.1), rec("free", 0.2)],
+      new Map([["busy", stats({ pendingRequests: 5 })]])
+    );
+    expect(reranked.map((r) => r.id)).toEqual(["free", "busy"]);
+  });
+
+  it("keeps much better matches on top and leaves users without stats as they are", () => {
+    const reranked = rerankForExposure(
+      [rec("best", 0.05), rec("unknown", 0.3), rec("unseen", 0.5)],
+      new Map([["unseen", stats({ impressions: 0 })]])
+    );
+    expect(reranked.map((r) => r.id)).toEqual(["best", "unknown", "unseen"]);
+    expect(reranked[1]?.score).toBe(0.3);
+  });
+});
@@ -0,0 +1,242 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { Role } from "@prisma/client";
+import { calculateScore, defaultFilterInputs } from "../recommendation";
+import {
+  clockOffset,
+  CommuteSchedule,
+  compareSchedules,
+  minutesOfDay,
+  scheduleFromTimes,
+  timeFromMinutes,
+} from "../schedule";
+
+const weekdays = (arrive: number, leave: number): CommuteSchedule => [
+  null,
+  { arrive, leave },
+  { arrive, leave },
+  { arrive, leave },
+  { arrive, leave },
+  { arrive, leave },
+  null,
+];
+
+// commutes from Boston to Northeastern on the weekdays of `schedule`, in `timezone`'s clock
+const makeUser = (
+  id: string,
+  role: Role,
+  schedule: CommuteSchedule,
+  timezone: string
+) => ({
+  id,
+  role,
+  seatAvail: role === Role.DRIVER ? 3 : 0,
+  coopStartDate: new Date("2026-01-05"),
+  coopEndDate: new Date("2026-06-26"),
+  startCoordLat: 42.3601,
+  startCoordLng: -71.0589,
+  companyCoordLat: 42.3398,
+  companyCoordLng: -71.0892,
+  daysWorking: "0,1,1,1,1,1,0",
+  startTime: new Date(Date.UTC(1970, 0, 1, 9)),
+  endTime: new Date(Date.UTC(1970, 0, 1, 17)),
+  schedule,
+  timezone,
+});
+
+// the scores of the same pair under each TZ, which should all agree
+const scoresByTz = new Map<string, number | undefined>();
+
+// Node picks up TZ changes at runtime, so every case runs as if the server or browser were in
+// each of these timezones. Stored times are wall-clock times and mustn't depend on it.
+describe.each(["UTC", "America/Los_Angeles", "Asia/Kolkata"])(
+  "with TZ=%s",
+  (tz) => {
+    const originalTz = process.env.TZ;
+    beforeAll(() => {
+      process.env.TZ = tz;
+    });
+    afterAll(() => {
+      // assigning undefined would store the string "undefined"
+      if (originalTz === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = originalTz;
+      }
+    });
+
+    describe("calculateScore", () => {
+      const driver = makeUser(
+        "driver",
+        Role.DRIVER,
+        weekdays(9 * 60, 17 * 60),
+        "America/New_York"
+      );
+      // 8:30 to 16:30 in Chicago is 9:30 to 17:30 in New York
+      const rider = makeUser(
+        "rider",
+        Role.RIDER,
+        weekdays(8 * 60 + 30, 16 * 60 + 30),
+        "America/Chicago"
+      );
+
+      it("scores the same wall-clock schedules the same", () => {
+        const score = calculateScore(
+          driver,
+          defaultFilterInputs(driver),
+          "time"
+        )(rider)?.score;
+        expect(score).toBeDefined();
+        scoresByTz.set(tz, score);
+        expect(score).toBe(scoresByTz.get("UTC"));
+      });
+    });
+
+    describe("minutesOfDay and timeFromMinutes", () => {
+      it("round-trip every time of day", () => {
+        for (const minutes of [0, 1, 9 * 60 + 30, 12 * 60, 23 * 60 + 59]) {
+          expect(minutesOfDay(timeFromMinutes(minutes))).toBe(minutes);
+        }
+      });
+
+      it("read times as Prisma returns them from a time column", () => {
+        expect(minutesOfDay(new Date("1970-01-01T08:45:00.000Z"))).toBe(525);
+      });
+    });
+
+    describe("compareSchedules", () => {
+      it("averages the differences on shared days", () => {
+        const result = compareSchedules(
+          weekdays(9 * 60, 17 * 60),
+          weekdays(9 * 60 + 30, 17 * 60 - 10)
+        );
+        expect(result).toEqual({
+          sharedDays: 5,
+          arriveDifference: 30,
+          leaveDifference: 10,
+        });
+      });
+
+      it("only compares days both users go in", () => {
+        const other: CommuteSchedule = [
+          { arrive: 0, leave: 60 },
+          { arrive: 10 * 60, leave: 18 * 60 },
+          null,
+          null,
+          null,
+          null,
+          { arrive: 0, leave: 60 },
+        ];
+        const result = compareSchedules(weekdays(9 * 60, 17 * 60), other);
+        expect(result).toEqual({
+          sharedDays: 1,
+          arriveDifference: 60,
+          leaveDifference: 60,
+        });
+      });
+
+      it("has no differences without shared days", () => {
+        const weekend: CommuteSchedule = [
+          { arrive: 540, leave: 1020 },
+          null,
+          null,
+          null,
+          null,
+          null,
+          { arrive: 540, leave: 1020 },
+        ];
+        expect(compareSchedules(weekdays(540, 1020), weekend)).toEqual({
+          sharedDays: 0,
+        });
+      });
+
+      it("goes around midnight when that's shorter", () => {
+        const result = compareSchedules(
+          weekdays(23 * 60 + 50, 8 * 60),
+          weekdays(10, 8 * 60)
+        );
+        expect(result.arriveDifference).toBe(20);
+      });
+
+      it("converts the other clock with the offset", () => {
+        // 10am in Chicago is 11am in New York
+        const result = compareSchedules(
+          weekdays(11 * 60, 19 * 60),
+          weekdays(10 * 60, 18 * 60),
+          -60
+        );
+        expect(result.arriveDifference).toBe(0);
+        expect(result.leaveDifference).toBe(0);
+      });
+    });
+
+    describe("clockOffset", () => {
+      const winter = new Date("2026-01-15T12:00:00Z");
+      const summer = new Date("2026-07-15T12:00:00Z");
+
+      it("is zero within a timezone", () => {
+        expect(clockOffset("America/Chicago", "America/Chicago")).toBe(0);
+        expect(clockOffset()).toBe(0);
+      });
+
+      it("is how far the second clock is ahead of the first", () => {
+        expect(clockOffset("America/New_York", "America/Chicago", winter)).toBe(
+          -60
+        );
+        expect(clockOffset("America/Chicago", "America/New_York", winter)).toBe(
+          60
+        );
+      });
+
+      it("follows daylight saving time", () => {
+        // Phoenix doesn't observe it, so it's 2 hours behind New York in winter and 3 in summer
+        expect(clockOffset("America/New_York", "America/Phoenix", winter)).toBe(
+          -120
+        );
+        expect(clockOffset("America/New_York", "America/Phoenix", summer)).toBe(
+          -180
+        );
+      });
+    });
+
+    describe("scheduleFromTimes", () => {
+      // time pickers give local dates, on whichever day they were picked
+      const at = (hours: number, minutes = 0) =>
+        new Date(2026, 2, 8, hours, minutes);
+      const daysWorking = [false, true, true, true, true, true, false];
+
+      it("uses the picked wall-clock times on every day going in", () => {
+        expect(
+          scheduleFromTimes(daysWorking, {
+            startTime: at(9, 30),
+            endTime: at(17),
+          })
+        ).toEqual(weekdays(9 * 60 + 30, 17 * 60));
+      });
+
+      it("uses a day's own times where both are set", () => {
+        const dayTimes = Array.from({ length: 7 }, () => ({
+          startTime: null as Date | null,
+          endTime: null as Date | null,
+        }));
+        dayTimes[3] = { startTime: at(7), endTime: at(15) };
+        // a day with only one time set keeps the usual times
+        dayTimes[4] = { startTime: at(6), endTime: null };
+
+        const schedule = scheduleFromTimes(
+          daysWorking,
+          { startTime: at(9), endTime: at(17) },
+          dayTimes
+        );
+        expect(schedule?.[3]).toEqual({ arrive: 7 * 60, leave: 15 * 60 });
+        expect(schedule?.[4]).toEqual({ arrive: 9 * 60, leave: 17 * 60 });
+        expect(schedule?.[0]).toBeNull();
+      });
+
+      it("is undefined without usual times", () => {
+        expect(
+          scheduleFromTimes(daysWorking, { startTime: at(9), endTime: null })
+        ).toBeUndefined();
+      });
+    });
+  }
+);
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "@jest/globals";
+import { defaultScoringProfile } from "../recommendation";
+import {
+  fitLogisticRegression,
+  PairFeatures,
+  profileFromCoefficients,
+  TrainingSample,
+} from "../weightTraining";
+
+const features = (overrides: Partial<PairFeatures> = {}): PairFeatures => ({
+  startDistance: 0.5,
+  endDistance: 0.5,
+  startTime: 0.5,
+  endTime: 0.5,
+  days: 0.5,
+  overlap: 0.5,
+  ...overrides,
+});
+
+// requests to nearby users are accepted and those to far away ones declined, whatever the
+// other components; start times vary too but have nothing to do with the answer
+const samples: TrainingSample[] = [0.1, 0.3, 0.5, 0.7, 0.9].flatMap(
+  (startTime) => [
+    { features: features({ startDistance: 0.1, startTime }), accepted: true },
+    { features: features({ startDistance: 0.2, startTime }), accepted: true },
+    { features: features({ startDistance: 0.8, startTime }), accepted: false },
+    { features: features({ startDistance: 0.9, startTime }), accepted: false },
+  ]
+);
+
+describe("fitLogisticRegression", () => {
+  it("learns that worse scores in a component make acceptance less likely", () => {
+    const { coefficients } = fitLogisticRegression(samples);
+    expect(coefficients.startDistance).toBeLessThan(-1);
+    expect(Math.abs(coefficients.startTime)).toBeLessThan(
+      Math.abs(coefficients.startDistance) / 10
+    );
+  });
+
+  it("predicts the requests it was fit on", () => {
+    const { intercept, coefficients } = fitLogisticRegression(samples);
+    const predict = (sample: TrainingSample) =>
+      1 /
+      (1 +
+        Math.exp(
+          -(
+            intercept +
+            Object.entries(sample.features).reduce(
+              (sum, [key, value]) =>
+                sum + value * coefficients[key as keyof PairFeatures],
+              0
+            )
+          )
+        ));
+    for (const sample of samples) {
+      if (sample.accepted) {
+        expect(predict(sample)).toBeGreaterThan(0.5);
+      } else {
+        expect(predict(sample)).toBeLessThan(0.5);
+      }
+    }
+  });
+
+  it("shrinks coefficients with a larger penalty", () => {
+    const options = { iterations: 2000, learningRate: 0.5 };
+    const loose = fitLogisticRegression(samples, { ...options, l2: 0 });
+    const strict = fitLogisticRegression(samples, { ...options, l2: 0.1 });
+    expect(Math.abs(strict.coefficients.startDistance)).toBeLessThan(
+      Math.abs(loose.coefficients.startDistance)
+    );
+  });
+});
+
+describe("profileFromCoefficients", () => {
+  it("weighs components by how much their worse scores hurt acceptance", () => {
+    const profile = profileFromCoefficients(
+      features({
+        startDistance: -2,
+        endDistance: -1,
+        startTime: 0.5,
+        endTime: 0,
+        days: 0,
+        overlap: 0,
+      }),
+      defaultScoringProfile
+    );
+    // the six components of the default profile add up to 1
+    expect(profile.weights).toEqual({
+      ...defaultScoringProfile.weights,
+      startDistance: 0.6667,
+      endDistance: 0.3333,
+      startTime: 0,
+      endTime: 0,
+      days: 0,
+      overlap: 0,
+    });
+    expect(profile.cutoffs).toEqual(defaultScoringProfile.cutoffs);
+  });
+
+  it("keeps the base weights when nothing made acceptance less likely", () => {
+    const profile = profileFromCoefficients(
+      features({ startDistance: 0.3, endDistance: 0 }),
+      defaultScoringProfile
+    );
+    expect(profile).toEqual(defaultScoringProfile);
+  });
+});
@@ -0,0 +1,104 @@
+import polyline from "@mapbox/polyline";
+import {
+  Coord,
+  estimateDrivingMinutes,
+  haversineDistance,
+  startCoord,
+} from "./distance";
+import { chooseDriver, DrivingUser } from "./roles";
+
+interface RoutedUser extends DrivingUser {
+  startCoordLat: number;
+  startCoordLng: number;
+  companyCoordLat: number;
+  companyCoordLng: number;
+  commuteRoute?: string | null;
+}
+
+// Decoded routes are reused across every rider a driver is compared against
+const MAX_CACHED_ROUTES = 1000;
+const routeCache = new Map<string, Coord[]>();
+
+/**
+ * Decodes a commute route stored as a Mapbox encoded polyline, the same geometry the
+ * Directions API returns and `useGetDirections` draws on the map.
+ *
+ * @param encoded the encoded polyline
+ * @returns the points along the route, in driving order
+ */
+export const decodeRoute = (encoded: string): Coord[] => {
+  const cached = routeCache.get(encoded);
+  if (cached) {
+    return cached;
+  }
+  if (routeCache.size >= MAX_CACHED_ROUTES) {
+    routeCache.clear();
+  }
+  const route = polyline
+    .decode(encoded)
+    .map(([lat, lng]): Coord => ({ lat, lng }));
+  routeCache.set(encoded, route);
+  return route;
+};
+
+/**
+ * Finds the point on segment `a`-`b` closest to `point`. Route segments are short, so the
+ * earth is treated as flat around them.
+ */
+const closestPointOnSegment = (point: Coord, a: Coord, b: Coord): Coord => {
+  const lngScale = Math.cos((point.lat * Math.PI) / 180);
+  const dx = (b.lng - a.lng) * lngScale;
+  const dy = b.lat - a.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return a;
+  }
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      ((point.lng - a.lng) * lngScale * dx + (point.lat - a.lat) * dy) /
+        lengthSquared
+    )
+  );
+  return { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+};
+
+/**
+ * Calculates the shortest distance from a point to any part of a route.
+ *
+ * @param point the point to measure from
+ * @param route the points along the route
+ * @returns the distance in miles, or Infinity for an empty route
+ */
+export const distanceToRoute = (point: Coord, route: Coord[]): number => {
+  if (route.length === 1) {
+    return haversineDistance(point, route[0]);
+  }
+  let min = Infinity;
+  for (let i = 1; i < route.length; i++) {
+    const closest = closestPointOnSegment(point, route[i - 1], route[i]);
+    min = Math.min(min, haversineDistance(point, closest));
+  }
+  return min;
+};
+
+/**
+ * Estimates how many minutes a rider's start is off the driver's commute route.
+ *
+ * @param a one user of the pair
+ * @param b the other user of the pair
+ * @returns the minutes off the route, or undefined when neither can drive the other or the
+ *          driver has no stored route
+ */
+export const corridorMinutesBetween = (
+  a: RoutedUser,
+  b: RoutedUser
+): number | undefined => {
+  const pair = chooseDriver(a, b);
+  if (!pair?.driver.commuteRoute) {
+    return undefined;
+  }
+  const route = decodeRoute(pair.driver.commuteRoute);
+  return estimateDrivingMinutes(distanceToRoute(startCoord(pair.rider), route));
+};
@@ -0,0 +1,70 @@
+import { companyCoord, RoutingProvider, startCoord } from "./distance";
+import { chooseDriver, DrivingUser } from "./roles";
+
+interface CommuteUser extends DrivingUser {
+  startCoordLat: number;
+  startCoordLng: number;
+  companyCoordLat: number;
+  companyCoordLng: number;
+}
+
+/**
+ * Estimates how many extra minutes a driver spends picking up a rider, comparing
+ * driver start -> rider start -> driver destination against driver start -> driver destination.
+ *
+ * @param provider the routing provider used to time both routes
+ * @param driver the user driving
+ * @param rider the user being picked up
+ * @returns the detour in minutes (never negative), or null if either route could not be timed
+ */
+export const estimateDetourMinutes = async (
+  provider: RoutingProvider,
+  driver: CommuteUser,
+  rider: CommuteUser
+): Promise<number | null> => {
+  const [direct, withPickup] = await Promise.all([
+    provider.routeDuration([startCoord(driver), companyCoord(driver)]),
+    provider.routeDuration([
+      startCoord(driver),
+      startCoord(rider),
+      companyCoord(driver),
+    ]),
+  ]);
+  if (direct === null || withPickup === null) {
+    return null;
+  }
+  return Math.max(0, withPickup - direct);
+};
+
+/**
+ * Estimates detours between `currentUser` and each of `users`. Whichever of the two would drive
+ * (see `chooseDriver`) is the one making the detour; pairs where neither can drive are skipped.
+ *
+ * @param provider the routing provider used to time routes
+ * @param currentUser the user recommendations are being generated for
+ * @param users the candidate users
+ * @returns a map from user id to detour minutes, for the pairs that could be timed
+ */
+export const detourMinutesFor = async (
+  provider: RoutingProvider,
+  currentUser: CommuteUser,
+  users: CommuteUser[]
+): Promise<Map<string, number>> => {
+  const detours = await Promise.all(
+    users.map((user) => {
+      const pair = chooseDriver(currentUser, user);
+      return pair
+        ? estimateDetourMinutes(provider, pair.driver, pair.rider)
+        : Promise.resolve(null);
+    })
+  );
+
+  const result = new Map<string, number>();
+  users.forEach((user, idx) => {
+    const detour = detours[idx];
+    if (detour !== null) {
+      result.set(user.id, detour);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,184 @@
+/** A point on the map, in degrees */
+export type Coord = {
+  lat: number;
+  lng: number;
+};
+
+/** Start and destination distances (in miles) between two users */
+export type PairDistances = {
+  startDistance: number;
+  endDistance: number;
+};
+
+/** Mean radius of the earth in miles */
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Meters to miles conversion, used for routing APIs that report meters */
+export const metersToMiles = (meters: number) => meters / 1609.344;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Calculates the great-circle distance between two points using the haversine formula.
+ *
+ * @param a the first point
+ * @param b the second point
+ * @returns the distance between `a` and `b` in miles
+ */
+export const haversineDistance = (a: Coord, b: Coord): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Provides road-network distances. Implementations may return `null` for destinations that
+ * could not be routed, in which case callers fall back to the haversine distance.
+ */
+export interface RoutingProvider {
+  name: string;
+  /**
+   * @param origin the point every route starts from
+   * @param destinations the points to route to
+   * @returns driving distances in miles, in the same order as `destinations`
+   */
+  roadDistances: (
+    origin: Coord,
+    destinations: Coord[]
+  ) => Promise<(number | null)[]>;
+  /**
+   * @param points the stops of the route, in driving order
+   * @returns the driving time through every stop in minutes, or null if it could not be routed
+   */
+  routeDuration: (points: Coord[]) => Promise<number | null>;
+}
+
+/** Typical ratio between driving distance and straight-line distance in the Boston area */
+const CIRCUITY_FACTOR = 1.3;
+
+/** Assumed average commuting speed, in miles per hour */
+const AVERAGE_SPEED_MPH = 25;
+
+/**
+ * Roughly converts a straight-line distance into driving time, for when no route is available.
+ *
+ * @param miles the straight-line distance
+ * @returns the estimated driving time in minutes
+ */
+export const estimateDrivingMinutes = (miles: number) =>
+  ((miles * CIRCUITY_FACTOR) / AVERAGE_SPEED_MPH) * 60;
+
+/**
+ * Local stand-in for a real routing service: scales the haversine distance by a fixed
+ * circuity factor. Makes no network requests, so it is safe for tests and local development.
+ */
+export const localRoutingProvider: RoutingProvider = {
+  name: "local",
+  roadDistances: async (origin, destinations) =>
+    destinations.map(
+      (dest) => haversineDistance(origin, dest) * CIRCUITY_FACTOR
+    ),
+  routeDuration: async (points) => {
+    const miles = points
+      .slice(1)
+      .reduce(
+        (acc, point, idx) => acc + haversineDistance(points[idx], point),
+        0
+      );
+    return estimateDrivingMinutes(miles);
+  },
+};
+
+interface LocatedUser {
+  startCoordLat: number;
+  startCoordLng: number;
+  companyCoordLat: number;
+  companyCoordLng: number;
+}
+
+export const startCoord = (user: LocatedUser): Coord => ({
+  lat: user.startCoordLat,
+  lng: user.startCoordLng,
+});
+
+export const companyCoord = (user: LocatedUser): Coord => ({
+  lat: user.companyCoordLat,
+  lng: user.companyCoordLng,
+});
+
+/**
+ * Straight-line start and destination distances between two users.
+ */
+export const haversinePairDistances = (
+  a: LocatedUser,
+  b: LocatedUser
+): PairDistances => ({
+  startDistance: haversineDistance(startCoord(a), startCoord(b)),
+  endDistance: haversineDistance(companyCoord(a), companyCoord(b)),
+});
+
+/**
+ * Looks up road-network start and destination distances from `currentUser` to each of `users`.
+ *
+ * @param provider the routing provider to query
+ * @param currentUser the user every distance is measured from
+ * @param users the users to measure distances to
+ * @returns a map from user id to that user's distances, falling back to haversine per leg
+ */
+export const roadPairDistances = async (
+  provider: RoutingProvider,
+  currentUser: LocatedUser,
+  users: (LocatedUser & { id: string })[]
+): Promise<Map<string, PairDistances>> => {
+  const [startDistances, endDistances] = await Promise.all([
+    provider.roadDistances(startCoord(currentUser), users.map(startCoord)),
+    provider.roadDistances(companyCoord(currentUser), users.map(companyCoord)),
+  ]);
+
+  return new Map(
+    users.map((user, idx) => {
+      const fallback = haversinePairDistances(currentUser, user);
+      return [
+        user.id,
+        {
+          startDistance: startDistances[idx] ?? fallback.startDistance,
+          endDistance: endDistances[idx] ?? fallback.endDistance,
+        },
+      ];
+    })
+  );
+};
+
+/** Latitude/longitude bounds, in degrees */
+export type BoundingBox = {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+};
+
+/**
+ * Calculates a box containing every point within `miles` of `center`. Points inside the box
+ * may still be further than `miles` away, so it is only suitable as a prefilter.
+ *
+ * @param center the center of the box
+ * @param miles the straight-line radius to cover
+ * @returns the bounds of the box
+ */
+export const boundingBox = (center: Coord, miles: number): BoundingBox => {
+  const latDelta = ((miles / EARTH_RADIUS_MILES) * 180) / Math.PI;
+  // longitude degrees shrink towards the poles, so widen the box by the latitude furthest from the equator
+  const maxAbsLat = Math.min(89, Math.abs(center.lat) + latDelta);
+  const lngDelta = latDelta / Math.cos((maxAbsLat * Math.PI) / 180);
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta,
+  };
+};
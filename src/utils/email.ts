@@ -20,9 +20,34 @@ export interface AcceptanceEmailSchema extends BaseEmailSchema {
   isDriver: boolean;
 }
 
+export interface MatchAlertEmailSchema extends BaseEmailSchema {
+  presetName: string;
+}
+
+export interface RequestReminderEmailSchema extends BaseEmailSchema {
+  daysPending: number;
+  daysLeft: number; // until the request expires
+}
+
+export interface RequestExpiredEmailSchema extends BaseEmailSchema {
+  daysPending: number;
+}
+
+export interface DigestMatch {
+  name: string;
+  companyName: string;
+  sharedDays: string;
+}
+
+export interface DigestEmailSchema {
+  receiverName: string;
+  receiverEmail: string;
+  matches: DigestMatch[];
+}
+
 export function generateEmailParams(
-  schema: RequestEmailSchema | MessageEmailSchema | AcceptanceEmailSchema,
-  type: 'request' | 'message' | 'acceptance',
+  schema: RequestEmailSchema | MessageEmailSchema | AcceptanceEmailSchema | MatchAlertEmailSchema | DigestEmailSchema | RequestReminderEmailSchema | RequestExpiredEmailSchema,
+  type: 'request' | 'message' | 'acceptance' | 'matchAlert' | 'digest' | 'requestReminder' | 'requestExpired',
   includeCc: boolean
 ): SendTemplatedEmailCommandInput {
   let templateName: string;
@@ -55,6 +80,42 @@ export function generateEmailParams(
         OtherUser: acceptanceSchema.senderName,
       };
       break;
+    case 'matchAlert':
+      const matchAlertSchema = schema as MatchAlertEmailSchema;
+      templateName = 'MatchAlertTemplate';
+      templateData = {
+        preferredName: matchAlertSchema.receiverName,
+        OtherUser: matchAlertSchema.senderName,
+        presetName: matchAlertSchema.presetName,
+      };
+      break;
+    case 'digest':
+      const digestSchema = schema as DigestEmailSchema;
+      templateName = 'WeeklyDigestTemplate';
+      templateData = {
+        preferredName: digestSchema.receiverName,
+        matches: digestSchema.matches,
+      };
+      break;
+    case 'requestReminder':
+      const reminderSchema = schema as RequestReminderEmailSchema;
+      templateName = 'RequestReminderTemplate';
+      templateData = {
+        preferredName: reminderSchema.receiverName,
+        OtherUser: reminderSchema.senderName,
+        daysPending: reminderSchema.daysPending,
+        daysLeft: reminderSchema.daysLeft,
+      };
+      break;
+    case 'requestExpired':
+      const expiredSchema = schema as RequestExpiredEmailSchema;
+      templateName = 'RequestExpiredTemplate';
+      templateData = {
+        preferredName: expiredSchema.receiverName,
+        OtherUser: expiredSchema.senderName,
+        daysPending: expiredSchema.daysPending,
+      };
+      break;
     default:
       throw new Error('Invalid email type');
   }
@@ -63,7 +124,7 @@ export function generateEmailParams(
     ToAddresses: [schema.receiverEmail],
   };
 
-  if (includeCc) {
+  if (includeCc && 'senderEmail' in schema) {
     destination.CcAddresses = [schema.senderEmail];
   }
 
@@ -41,5 +41,10 @@ export const serverEnv = {
     GOOGLE_CLIENT_SECRET: str({
       input: process.env.GOOGLE_CLIENT_SECRET,
     }),
+    ROUTING_PROVIDER: str({
+      input: process.env.ROUTING_PROVIDER,
+      choices: ["none", "local", "mapbox"],
+      default: "none",
+    }),
   }),
 };
@@ -0,0 +1,136 @@
+/** A pair of users that ended up connecting, in either direction */
+export type MatchedPair = [string, string];
+
+/** Ranking metrics for one way of scoring, averaged over every evaluated user */
+export type EvaluationReport = {
+  users: number; // users with at least one known match
+  recallAt: Record<number, number>; // share of known matches ranked in the top k
+  mrr: number; // mean reciprocal rank of the first known match
+  unranked: number; // share of known matches that didn't pass the filters at all
+};
+
+/**
+ * Collects the users each user is known to have matched with: the other side of every accepted
+ * request they sent or received, and everyone they share a carpool group with.
+ *
+ * @param requests Accepted requests between users
+ * @param groups The member ids of each carpool group
+ * @returns A map from user id to the ids of their matches
+ */
+export const knownMatches = (
+  requests: { fromUserId: string; toUserId: string }[],
+  groups: string[][]
+): Map<string, Set<string>> => {
+  const pairs: MatchedPair[] = [
+    ...requests.map((r): MatchedPair => [r.fromUserId, r.toUserId]),
+    ...groups.flatMap((members) =>
+      members.flatMap((a, idx) =>
+        members.slice(idx + 1).map((b): MatchedPair => [a, b])
+      )
+    ),
+  ];
+
+  const matches = new Map<string, Set<string>>();
+  const add = (user: string, match: string) => {
+    if (user === match) {
+      return;
+    }
+    const existing = matches.get(user) ?? new Set<string>();
+    existing.add(match);
+    matches.set(user, existing);
+  };
+  pairs.forEach(([a, b]) => {
+    add(a, b);
+    add(b, a);
+  });
+  return matches;
+};
+
+/**
+ * Calculates the share of `relevant` users found in the first `k` entries of `ranking`.
+ *
+ * @param ranking User ids, best match first
+ * @param relevant The user ids that should have been recommended
+ * @param k The number of recommendations a user would look at
+ * @returns A number between 0 and 1
+ */
+export const recallAtK = (
+  ranking: string[],
+  relevant: Set<string>,
+  k: number
+): number => {
+  if (relevant.size === 0) {
+    return 0;
+  }
+  const found = ranking.slice(0, k).filter((id) => relevant.has(id)).length;
+  return found / relevant.size;
+};
+
+/**
+ * Calculates how early the first relevant user shows up in `ranking`.
+ *
+ * @param ranking User ids, best match first
+ * @param relevant The user ids that should have been recommended
+ * @returns 1 / (position of the first relevant user), or 0 if none were ranked
+ */
+export const reciprocalRank = (
+  ranking: string[],
+  relevant: Set<string>
+): number => {
+  const idx = ranking.findIndex((id) => relevant.has(id));
+  return idx === -1 ? 0 : 1 / (idx + 1);
+};
+
+/**
+ * Averages ranking metrics over every user that has known matches.
+ *
+ * @param rankings Each user's recommendations as ids, best match first
+ * @param matches Each user's known matches, from `knownMatches`
+ * @param ks The cutoffs to report recall at
+ * @returns The averaged metrics
+ */
+export const evaluateRankings = (
+  rankings: Map<string, string[]>,
+  matches: Map<string, Set<string>>,
+  ks: number[]
+): EvaluationReport => {
+  const evaluated = Array.from(matches.entries()).filter(([userId]) =>
+    rankings.has(userId)
+  );
+  const mean = (values: number[]) =>
+    values.length === 0
+      ? 0
+      : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  let relevantCount = 0;
+  let unrankedCount = 0;
+  evaluated.forEach(([userId, relevant]) => {
+    const ranked = new Set(rankings.get(userId));
+    relevantCount += relevant.size;
+    relevant.forEach((id) => {
+      if (!ranked.has(id)) {
+        unrankedCount++;
+      }
+    });
+  });
+
+  return {
+    users: evaluated.length,
+    recallAt: Object.fromEntries(
+      ks.map((k) => [
+        k,
+        mean(
+          evaluated.map(([userId, relevant]) =>
+            recallAtK(rankings.get(userId)!, relevant, k)
+          )
+        ),
+      ])
+    ),
+    mrr: mean(
+      evaluated.map(([userId, relevant]) =>
+        reciprocalRank(rankings.get(userId)!, relevant)
+      )
+    ),
+    unranked: relevantCount === 0 ? 0 : unrankedCount / relevantCount,
+  };
+};
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+/** The ways recommendations can be sorted, as offered in the sidebar */
+export const sortSchema = z.enum([
+  "any",
+  "distance",
+  "time",
+  "route",
+  "mutual",
+]);
+
+/** One arm of an experiment */
+export const experimentVariantSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  weight: z.number().positive(), // share of users, relative to the other variants
+  profileId: z.number().int().nullable(), // weight profile to score with, null for the active one
+  defaultSort: sortSchema.nullable(), // sort the map opens with, null to keep "any"
+});
+
+export const experimentVariantsSchema = z
+  .array(experimentVariantSchema)
+  .min(2)
+  .refine(
+    (variants) =>
+      new Set(variants.map((variant) => variant.name)).size === variants.length,
+    { message: "Variant names must be unique" }
+  );
+
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+
+/**
+ * Hashes a string to a number between 0 (inclusive) and 1 (exclusive) with 32-bit FNV-1a. The
+ * same input always lands in the same place, so users keep their variant across requests.
+ */
+const unitHash = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Picks the variant of an experiment a user is in. Bucketing hashes the experiment key with the
+ * user id, so a user's variant is stable and independent of the variant they got in other
+ * experiments.
+ *
+ * @param key The experiment's key
+ * @param variants The experiment's variants
+ * @param userId The user to bucket
+ * @returns The user's variant
+ */
+export const assignVariant = (
+  key: string,
+  variants: ExperimentVariant[],
+  userId: string
+): ExperimentVariant => {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = unitHash(`${key}:${userId}`) * total;
+  for (const variant of variants) {
+    if (point < variant.weight) {
+      return variant;
+    }
+    point -= variant.weight;
+  }
+  // floating point error can leave the point just past the last boundary
+  return variants[variants.length - 1];
+};
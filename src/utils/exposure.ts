@@ -0,0 +1,65 @@
+import { compareRecommendations, Recommendation } from "./recommendation";
+
+/** How much attention a recommended user is already getting */
+export type ExposureStats = {
+  impressions: number; // times shown in others' recommendations within `EXPOSURE_WINDOW_DAYS`
+  pendingRequests: number; // requests received and not yet answered
+  noSeats: boolean; // could drive but has no free seats left
+};
+
+/** Days of impressions counted towards a user's exposure */
+export const EXPOSURE_WINDOW_DAYS = 14;
+
+/** Users shown fewer times than this within the window are boosted, the fewer the more */
+const TARGET_IMPRESSIONS = 50;
+
+/** Largest amount taken off the score of a user who hasn't been shown at all */
+const MAX_EXPOSURE_BOOST = 0.1;
+
+/** Pending requests at which a user gets the full dampening */
+const MAX_PENDING_REQUESTS = 5;
+
+/** Largest amount added to the score of a user with many pending requests */
+const MAX_PENDING_PENALTY = 0.15;
+
+/** Amount added to the score of a user with no free seats */
+const NO_SEATS_PENALTY = 0.1;
+
+/**
+ * Calculates how much a user's recommendation score is moved by their exposure. Scores are
+ * lower for better matches, so a negative adjustment moves a user up.
+ *
+ * @param stats The user's exposure
+ * @returns The amount to add to the user's score
+ */
+export const exposureAdjustment = (stats: ExposureStats): number => {
+  const boost =
+    MAX_EXPOSURE_BOOST *
+    Math.max(0, 1 - stats.impressions / TARGET_IMPRESSIONS);
+  const pendingPenalty =
+    MAX_PENDING_PENALTY *
+    Math.min(1, stats.pendingRequests / MAX_PENDING_REQUESTS);
+  return pendingPenalty + (stats.noSeats ? NO_SEATS_PENALTY : 0) - boost;
+};
+
+/**
+ * Re-ranks recommendations so that users who are rarely shown get seen, and users who already
+ * have many requests waiting or no seats to offer don't top everyone's list. Only the order and
+ * scores change; the filters `calculateScore` applied still hold.
+ *
+ * @param recs Recommendations from `calculateScore`
+ * @param stats Exposure by user id; users without an entry are left as they are
+ * @returns The recommendations with adjusted scores, sorted by `compareRecommendations`
+ */
+export const rerankForExposure = (
+  recs: Recommendation[],
+  stats: Map<string, ExposureStats>
+): Recommendation[] =>
+  recs
+    .map((rec) => {
+      const userStats = stats.get(rec.id);
+      return userStats
+        ? { ...rec, score: rec.score + exposureAdjustment(userStats) }
+        : rec;
+    })
+    .sort(compareRecommendations);
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import _ from "lodash";
+import { FiltersState } from "./types";
+
+/**
+ * The filters a preset saves. The days and co-op dates filtered on are always the user's own,
+ * so they're left out and a preset means the same thing when shared with someone else.
+ */
+export const presetFiltersSchema = z.object({
+  days: z.number(), /// 0 for any, 1 for exact
+  flexDays: z.number(),
+  startDistance: z.number(), // max 20, greater = any
+  endDistance: z.number(),
+  startTime: z.number(), // max = 4 hours, greater = any
+  endTime: z.number(),
+  dateOverlap: z.number(), // 0 any, 1 partial, 2 full
+  detour: z.number(), // max 30 minutes, greater = any
+  corridor: z.number(), // max minutes off the driver's route, 0 = off
+  favorites: z.boolean(),
+  messaged: z.boolean(),
+});
+
+export type PresetFilters = z.infer<typeof presetFiltersSchema>;
+
+const presetKeys = Object.keys(
+  presetFiltersSchema.shape
+) as (keyof PresetFilters)[];
+
+/**
+ * Takes the filters a preset saves out of the current filters.
+ *
+ * @param filters The filters shown on the map
+ * @returns The filters to store in a preset
+ */
+export const presetFromFilters = (filters: FiltersState): PresetFilters =>
+  _.pick(filters, presetKeys);
+
+/**
+ * Applies a preset on top of the current filters, keeping the user's own days and dates.
+ *
+ * @param filters The filters shown on the map
+ * @param preset The preset's filters
+ * @returns The new filters
+ */
+export const applyPreset = (
+  filters: FiltersState,
+  preset: PresetFilters
+): FiltersState => ({ ...filters, ...preset });
+
+/** The query parameter share links carry a preset id in */
+export const PRESET_QUERY_PARAM = "preset";
+
+/**
+ * Builds a link that opens the map with a preset applied.
+ *
+ * @param presetId The preset to share
+ * @returns An absolute URL to the map page
+ */
+export const presetShareUrl = (presetId: string): string =>
+  `${window.location.origin}/?${PRESET_QUERY_PARAM}=${encodeURIComponent(
+    presetId
+  )}`;
@@ -0,0 +1,48 @@
+import { CommuteLeg } from "@prisma/client";
+
+/** How each leg setting is shown to users */
+export const legLabels: Record<CommuteLeg, string> = {
+  BOTH: "To and from work",
+  TO_WORK: "To work only",
+  FROM_WORK: "From work only",
+};
+
+/** Whether a user carpooling for `leg` rides to work */
+export const ridesToWork = (leg: CommuteLeg): boolean =>
+  leg !== CommuteLeg.FROM_WORK;
+
+/** Whether a user carpooling for `leg` rides home from work */
+export const ridesFromWork = (leg: CommuteLeg): boolean =>
+  leg !== CommuteLeg.TO_WORK;
+
+/**
+ * Finds the legs of the commute two users could carpool for together.
+ *
+ * @param a One user's legs, users who haven't chosen carpool both ways
+ * @param b The other user's legs
+ * @returns The legs both users ride, or null if they don't share any
+ */
+export const sharedLegs = (
+  a: CommuteLeg = CommuteLeg.BOTH,
+  b: CommuteLeg = CommuteLeg.BOTH
+): CommuteLeg | null => {
+  const toWork = ridesToWork(a) && ridesToWork(b);
+  const fromWork = ridesFromWork(a) && ridesFromWork(b);
+  if (toWork && fromWork) {
+    return CommuteLeg.BOTH;
+  } else if (toWork) {
+    return CommuteLeg.TO_WORK;
+  } else if (fromWork) {
+    return CommuteLeg.FROM_WORK;
+  }
+  return null;
+};
+
+/**
+ * Lists the legs that can share a carpool with a user riding `leg`.
+ *
+ * @param leg The user's legs
+ * @returns Every leg setting with at least one leg in common with `leg`
+ */
+export const compatibleLegs = (leg: CommuteLeg): CommuteLeg[] =>
+  Object.values(CommuteLeg).filter((other) => sharedLegs(leg, other) !== null);
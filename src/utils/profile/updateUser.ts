@@ -2,6 +2,7 @@ import { toast } from "react-toastify";
 import { NextRouter } from "next/router";
 import { trpc } from "../trpc";
 import { UserInfo } from "../types";
+import { scheduleFromTimes } from "../schedule";
 export const updateUser = async ({
   userInfo,
   sessionName,
@@ -24,6 +25,7 @@ export const updateUser = async ({
     role: userInfo.role,
     status: userInfo.status,
     seatAvail: userInfo.seatAvail,
+    canDrive: userInfo.canDrive,
     companyName: userInfo.companyName,
     companyAddress: userInfo.companyAddress,
     companyCoordLng: userInfo.companyCoordLng,
@@ -35,8 +37,14 @@ export const updateUser = async ({
     preferredName: userInfo.preferredName || sessionName,
     pronouns: userInfo.pronouns,
     daysWorking: daysWorkingParsed,
-    startTime: userInfo.startTime?.toISOString(),
-    endTime: userInfo.endTime?.toISOString(),
+    schedule: scheduleFromTimes(
+      userInfo.daysWorking,
+      userInfo,
+      userInfo.timeDiffers ? userInfo.dayTimes : undefined
+    ),
+    timezone: userInfo.timezone,
+    legs: userInfo.legs,
+    weeklyDigest: userInfo.weeklyDigest,
     bio: userInfo.bio,
     coopStartDate: userInfo.coopStartDate!,
     coopEndDate: userInfo.coopEndDate!,
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { Role, Status } from "@prisma/client";
+import { CommuteLeg, Role, Status } from "@prisma/client";
+import { DEFAULT_TIMEZONE } from "../schedule";
 
 const custom = z.ZodIssueCode.custom;
 export const onboardSchema = z
@@ -7,6 +8,7 @@ export const onboardSchema = z
     role: z.nativeEnum(Role),
     status: z.nativeEnum(Status),
     seatAvail: z.number().int().nonnegative().max(6).optional(),
+    canDrive: z.boolean().optional(),
     companyName: z.string().optional(),
     companyAddress: z.string().optional(),
     startAddress: z.string().optional(),
@@ -16,8 +18,20 @@ export const onboardSchema = z
     bio: z.string().optional(),
     startTime: z.date().nullable().optional(),
     endTime: z.date().nullable().optional(),
+    timeDiffers: z.boolean().optional(),
+    dayTimes: z
+      .array(
+        z.object({
+          startTime: z.date().nullable(),
+          endTime: z.date().nullable(),
+        })
+      )
+      .optional(),
+    timezone: z.string().optional(),
+    legs: z.nativeEnum(CommuteLeg).optional(),
     coopStartDate: z.date().nullable().optional(),
     coopEndDate: z.date().nullable().optional(),
+    weeklyDigest: z.boolean().optional(),
   })
   .superRefine((data, ctx) => {
     if (data.role !== Role.VIEWER) {
@@ -83,6 +97,7 @@ export const profileDefaultValues = {
   role: Role.RIDER,
   status: Status.ACTIVE,
   seatAvail: 0,
+  canDrive: false,
   companyName: "",
   profilePicture: "",
   companyAddress: "",
@@ -93,7 +108,14 @@ export const profileDefaultValues = {
   startTime: undefined,
   endTime: undefined,
   timeDiffers: false,
+  dayTimes: Array.from({ length: 7 }, () => ({
+    startTime: null,
+    endTime: null,
+  })),
+  timezone: DEFAULT_TIMEZONE,
+  legs: CommuteLeg.BOTH,
   coopStartDate: null,
   coopEndDate: null,
   bio: "",
+  weeklyDigest: true,
 };
@@ -21,10 +21,12 @@ export const convertToPublic = (user: User): PublicUser => {
     role: user.role,
     status: user.status,
     seatAvail: user.seatAvail,
+    canDrive: user.canDrive,
     companyName: user.companyName,
     daysWorking: user.daysWorking,
     startTime: user.startTime,
     endTime: user.endTime,
+    legs: user.legs,
     coopEndDate: user.coopEndDate,
     coopStartDate: user.coopStartDate,
     startPOILocation: user.startPOILocation,
@@ -0,0 +1,24 @@
+import { toast } from "react-toastify";
+
+type MutationError = { message: string; data?: { code?: string } | null };
+
+/**
+ * @param error An error from a tRPC call
+ * @returns true if the server turned the call away for being made too often
+ */
+export const isRateLimited = (error: MutationError) =>
+  error.data?.code === "TOO_MANY_REQUESTS";
+
+/**
+ * Shows a failed mutation's error. Rate limit errors already tell the user when to try again,
+ * so they're shown as-is instead of as something having gone wrong.
+ *
+ * @param error An error from a tRPC mutation
+ */
+export const toastMutationError = (error: MutationError) => {
+  if (isRateLimited(error)) {
+    toast.warn(error.message);
+  } else {
+    toast.error(`Something went wrong: ${error.message}`);
+  }
+};
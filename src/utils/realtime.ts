@@ -0,0 +1,77 @@
+// What the server pushes to a user when something they can see changes. Events only say what
+// changed; clients refetch the data they show.
+export type RealtimeEvent =
+  | { type: "message"; conversationId: string; requestId: string }
+  | { type: "messagesRead"; conversationId: string }
+  | { type: "request"; requestId: string };
+
+// Where the browser subscribes to events, see src/pages/api/realtime.ts
+export const REALTIME_URL = "/api/realtime";
+
+// How often to refetch, for changes whose events weren't received: those published while
+// disconnected, and those published by another server instance
+export const POLL_INTERVAL_MS = 15 * 1000;
+
+type Listener = (event: RealtimeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+// One connection is shared by every component listening on the page
+let source: EventSource | null = null;
+let connected = false;
+const listeners = new Set<Listener>();
+const statusListeners = new Set<StatusListener>();
+
+const setConnected = (value: boolean) => {
+  if (connected !== value) {
+    connected = value;
+    statusListeners.forEach((listener) => listener(value));
+  }
+};
+
+const connect = () => {
+  if (typeof EventSource === "undefined") {
+    return;
+  }
+  source = new EventSource(REALTIME_URL);
+  source.onopen = () => setConnected(true);
+  source.onmessage = (message) => {
+    const event = JSON.parse(message.data) as RealtimeEvent;
+    listeners.forEach((listener) => listener(event));
+  };
+  // the browser retries on its own, events missed meanwhile are covered by polling
+  source.onerror = () => setConnected(false);
+};
+
+const disconnect = () => {
+  source?.close();
+  source = null;
+  setConnected(false);
+};
+
+/**
+ * Listens for events pushed to the signed-in user, connecting when the first listener
+ * subscribes and closing the connection after the last one leaves.
+ *
+ * @param listener Called with each event
+ * @param onStatus Called with whether events can currently be received, right away and on changes
+ * @returns A function that stops listening
+ */
+export const subscribeToRealtime = (
+  listener: Listener,
+  onStatus: StatusListener
+) => {
+  listeners.add(listener);
+  statusListeners.add(onStatus);
+  if (!source) {
+    connect();
+  }
+  onStatus(connected);
+
+  return () => {
+    listeners.delete(listener);
+    statusListeners.delete(onStatus);
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+};
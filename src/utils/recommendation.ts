@@ -1,35 +1,106 @@
-import { Role, Status, User } from "@prisma/client";
+import { CommuteLeg, Role, Status, User } from "@prisma/client";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
 import _ from "lodash";
 import { MapUser } from "./types";
 import { z } from "zod";
+import {
+  haversinePairDistances,
+  PairDistances,
+  roadPairDistances,
+  RoutingProvider,
+} from "./distance";
+import { detourMinutesFor } from "./detour";
+import { corridorMinutesBetween } from "./corridor";
+import { clockOffset, compareSchedules, userSchedule } from "./schedule";
+import { ridesFromWork, ridesToWork, sharedLegs } from "./legs";
+import { canDriveFor } from "./roles";
+
+/** How a pair of users compares on one part of the recommendation score */
+export type ScoreComponent = {
+  value?: number; // the measurement in the component's unit, unset when either user is missing it
+  score: number; // scaled between 0 and 1, where 0 indicates a perfect match
+};
+
+/** The parts a recommendation score is made of, as seen by the user receiving the recommendation */
+export type ScoreBreakdown = {
+  startDistance: ScoreComponent; // miles between starting points
+  endDistance: ScoreComponent; // miles between destinations
+  legs: CommuteLeg; // the legs both users ride, times of other legs aren't compared
+  startTime: ScoreComponent; // minutes between start times
+  endTime: ScoreComponent; // minutes between end times
+  days: ScoreComponent & { total: number }; // days both go in, out of the current user's days
+  overlap: ScoreComponent; // 0 no co-op overlap, 1 partial, 2 full
+};
 
 /** Type for storing recommendation scores associated with a particular user */
 export type Recommendation = {
   id: string;
   score: number;
+  detourMinutes?: number;
+  breakdown: ScoreBreakdown;
+};
+
+/** Road-network measurements between the current user and a candidate */
+export type RouteMetrics = PairDistances & {
+  detourMinutes?: number; // extra minutes the driver spends picking up the rider
 };
 
 /** Default cutoffs for scoring recommendation calculations */
-const cutoffs = {
+const defaultCutoffs = {
   startDistance: 6, // miles
   endDistance: 6, // miles
   startTime: 80, // minutes
   endTime: 80, // minutes
+  detour: 15, // minutes
 };
 
-/** Weights for each portion of the recommendation score */
-const weights = {
+/** Default weights for each portion of the recommendation score */
+const defaultWeights = {
   startDistance: 0.2,
   endDistance: 0.4,
   startTime: 0.1,
   endTime: 0.1,
   days: 0.1,
   overlap: 0.1,
+  detour: 0.2,
+};
+
+/**
+ * The weights and cutoffs used to score recommendations. Managers can store new versions of
+ * these in the database; the active one is passed to `calculateScore`.
+ */
+export const scoringProfileSchema = z.object({
+  weights: z.object({
+    startDistance: z.number().min(0),
+    endDistance: z.number().min(0),
+    startTime: z.number().min(0),
+    endTime: z.number().min(0),
+    days: z.number().min(0),
+    overlap: z.number().min(0),
+    detour: z.number().min(0),
+  }),
+  cutoffs: z.object({
+    startDistance: z.number().positive(), // miles
+    endDistance: z.number().positive(), // miles
+    startTime: z.number().positive(), // minutes
+    endTime: z.number().positive(), // minutes
+    detour: z.number().positive(), // minutes
+  }),
+});
+
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+
+/** The scoring profile used when no profile has been activated */
+export const defaultScoringProfile: ScoringProfile = {
+  weights: defaultWeights,
+  cutoffs: defaultCutoffs,
 };
 
+/** Number of best candidates that get a detour estimate, as each one costs a directions lookup */
+const MAX_DETOUR_LOOKUPS = 50;
+
 export type FInputs = {
   startDistance: number; // max 19, greater = any
   endDistance: number;
@@ -41,15 +112,15 @@ export type FInputs = {
   endDate: Date;
   dateOverlap: number; // 0 any, 1 partial, 2 full
   daysWorking: string;
+  detour: number; // max 30 minutes, greater = any
+  corridor: number; // max minutes off the driver's route, 0 = off
 };
 
-/** Provides a very approximate coordinate distance to mile conversion */
-const coordToMile = (dist: number) => dist * 88;
-
 interface CommonUser {
   id: string;
-  role: string;
+  role: Role;
   seatAvail: number;
+  canDrive?: boolean;
   coopStartDate: Date | null;
   coopEndDate: Date | null;
   startCoordLat: number;
@@ -60,6 +131,10 @@ interface CommonUser {
   startTime?: Date | null;
   endTime?: Date | null;
   daysWorking: string;
+  schedule?: unknown;
+  timezone?: string;
+  legs?: CommuteLeg;
+  commuteRoute?: string | null;
 }
 /**
  * Converts a comma separated string representing user's days working to a boolean array
@@ -78,41 +153,50 @@ const dayConversion = (user: CommonUser) => {
  * @param currentUser The user to generate a recommendation callback for
  * @param inputs The filter inputs to replace 'cutoffs'
  * @param sort The parameter to score by
+ * @param routes Road-network measurements by user id; users without an entry use haversine distances
+ * @param profile The weights and cutoffs to score with
  * @returns A function that takes in a user and returns their score relative to `currentUser`
  */
 export const calculateScore = <T extends CommonUser>(
   currentUser: T,
   inputs: FInputs,
-  sort: string
+  sort: string,
+  routes?: Map<string, RouteMetrics>,
+  profile: ScoringProfile = defaultScoringProfile
 ): ((user: T) => Recommendation | undefined) => {
+  const { weights, cutoffs } = profile;
   const currentUserDays = inputs.daysWorking
     .split(",")
     .map((str) => str === "1");
+  const currentUserSchedule = userSchedule(currentUser);
 
   return (user: T) => {
     if (
-      (currentUser.role === "RIDER" &&
-        (user.role === "RIDER" || user.seatAvail === 0)) ||
-      (currentUser.role === "DRIVER" && user.role === "DRIVER") ||
       user.role === "VIEWER" ||
+      // one of them has to be able to drive the other, in a car with a free seat
+      (currentUser.role !== "VIEWER" &&
+        !canDriveFor(currentUser, user) &&
+        !(canDriveFor(user, currentUser) && user.seatAvail > 0)) ||
       (currentUser.carpoolId && currentUser.carpoolId === user.carpoolId)
     ) {
       return undefined;
     }
+    // users who only ride opposite ways can't share a carpool
+    const legs = sharedLegs(currentUser.legs, user.legs);
+    if (!legs) {
+      return undefined;
+    }
 
-    const startDistance = coordToMile(
-      Math.sqrt(
-        Math.pow(currentUser.startCoordLat - user.startCoordLat, 2) +
-          Math.pow(currentUser.startCoordLng - user.startCoordLng, 2)
-      )
-    );
-
-    const endDistance = coordToMile(
-      Math.sqrt(
-        Math.pow(currentUser.companyCoordLat - user.companyCoordLat, 2) +
-          Math.pow(currentUser.companyCoordLng - user.companyCoordLng, 2)
-      )
-    );
+    const route = routes?.get(user.id);
+    const { startDistance, endDistance } =
+      route ?? haversinePairDistances(currentUser, user);
+    const detourMinutes = route?.detourMinutes;
+    // along-route matching checks the rider's distance from the driver's route instead of start distance
+    const corridorActive = inputs.corridor > 0;
+    const corridorMinutes =
+      corridorActive || sort === "route"
+        ? corridorMinutesBetween(currentUser, user)
+        : undefined;
     const userDays = dayConversion(user);
     // check number of days users both go in, also count number of days current user goes in
     const daysHelper = currentUserDays.reduce(
@@ -128,35 +212,40 @@ export const calculateScore = <T extends CommonUser>(
       },
       { currentUserDays: 0, bothUsersDays: 0 }
     );
+    // times are only compared on the days both users go in, on the current user's clock, and
+    // only for the legs they both ride; a leg they don't share counts as a perfect match
     let startTime: number | undefined;
     let endTime: number | undefined;
-    if (
-      currentUser.startTime &&
-      currentUser.endTime &&
-      user.startTime &&
-      user.endTime
-    ) {
-      startTime =
-        Math.abs(currentUser.startTime.getHours() - user.startTime.getHours()) *
-          60 +
-        Math.abs(
-          currentUser.startTime.getMinutes() - user.startTime.getMinutes()
-        );
-      endTime =
-        Math.abs(currentUser.endTime.getHours() - user.endTime.getHours()) *
-          60 +
-        Math.abs(currentUser.endTime.getMinutes() - user.endTime.getMinutes());
+    const otherSchedule = userSchedule(user);
+    if (currentUserSchedule && otherSchedule) {
+      const shared = compareSchedules(
+        currentUserSchedule,
+        otherSchedule,
+        clockOffset(currentUser.timezone, user.timezone)
+      );
+      const unshared = shared.sharedDays > 0 ? 0 : undefined;
+      startTime = ridesToWork(legs) ? shared.arriveDifference : unshared;
+      endTime = ridesFromWork(legs) ? shared.leaveDifference : unshared;
       if (
-        (startTime > inputs.startTime * 60 && inputs.startTime < 4) ||
-        (endTime > inputs.endTime * 60 && inputs.endTime < 4)
+        startTime !== undefined &&
+        endTime !== undefined &&
+        ((startTime > inputs.startTime * 60 && inputs.startTime < 4) ||
+          (endTime > inputs.endTime * 60 && inputs.endTime < 4))
       ) {
         return undefined;
       }
     }
 
     if (
-      (startDistance > inputs.startDistance && inputs.startDistance < 20) ||
+      (!corridorActive &&
+        startDistance > inputs.startDistance &&
+        inputs.startDistance < 20) ||
+      (corridorActive &&
+        (corridorMinutes === undefined || corridorMinutes > inputs.corridor)) ||
       (endDistance > inputs.endDistance && inputs.endDistance < 20) ||
+      (detourMinutes !== undefined &&
+        detourMinutes > inputs.detour &&
+        inputs.detour < 30) ||
       (inputs.days == 1 &&
         daysHelper.bothUsersDays !== daysHelper.currentUserDays) ||
       (inputs.days === 2 && daysHelper.bothUsersDays < inputs.flexDays)
@@ -192,6 +281,48 @@ export const calculateScore = <T extends CommonUser>(
     } else if (partialOverlap) {
       dateScore = 0.5;
     }
+    const hasCoopDates = !!(currentStart && currentEnd && userStart && userEnd);
+    const breakdown: ScoreBreakdown = {
+      startDistance: {
+        value: startDistance,
+        score: Math.min(1, startDistance / cutoffs.startDistance),
+      },
+      endDistance: {
+        value: endDistance,
+        score: Math.min(1, endDistance / cutoffs.endDistance),
+      },
+      legs,
+      startTime: {
+        value: ridesToWork(legs) ? startTime : undefined,
+        score:
+          startTime === undefined
+            ? 1
+            : Math.min(1, startTime / cutoffs.startTime),
+      },
+      endTime: {
+        value: ridesFromWork(legs) ? endTime : undefined,
+        score:
+          endTime === undefined ? 1 : Math.min(1, endTime / cutoffs.endTime),
+      },
+      days: {
+        value: daysHelper.bothUsersDays,
+        total: daysHelper.currentUserDays,
+        score:
+          daysHelper.currentUserDays === 0
+            ? 1
+            : 1 - daysHelper.bothUsersDays / daysHelper.currentUserDays,
+      },
+      overlap: {
+        value: hasCoopDates
+          ? fullOverlap
+            ? 2
+            : partialOverlap
+            ? 1
+            : 0
+          : undefined,
+        score: dateScore,
+      },
+    };
     let sDistanceScore;
     let eDistanceScore;
     let finalScore = 0;
@@ -232,8 +363,19 @@ export const calculateScore = <T extends CommonUser>(
           sDistanceScore * weights.startDistance +
           eDistanceScore * weights.endDistance;
       }
+
+      if (detourMinutes !== undefined) {
+        const detourScore =
+          detourMinutes > cutoffs.detour ? 1 : detourMinutes / cutoffs.detour;
+        finalScore += detourScore * weights.detour;
+      } else {
+        finalScore += weights.detour;
+      }
     } else if (sort === "distance") {
       finalScore = startDistance + endDistance;
+    } else if (sort === "route") {
+      // users that can't be placed along a route go last
+      finalScore = corridorMinutes ?? Number.MAX_SAFE_INTEGER;
     } else if (sort === "time") {
       if (startTime !== undefined && endTime !== undefined) {
         let eTimeScore =
@@ -247,10 +389,172 @@ export const calculateScore = <T extends CommonUser>(
     return {
       id: user.id,
       score: finalScore,
+      detourMinutes,
+      breakdown,
+    };
+  };
+};
+
+/**
+ * Orders recommendations by ascending score, breaking ties by id so that the order is stable
+ * across requests and pages never overlap.
+ */
+export const compareRecommendations = (
+  a: Recommendation,
+  b: Recommendation
+): number => {
+  if (a.score !== b.score) {
+    return a.score - b.score;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+/**
+ * Builds the filter inputs a user would start with: their own days and co-op dates, with every
+ * other filter set to "any". Used as the other side's preferences in mutual-fit scoring when they
+ * haven't saved a default preset.
+ *
+ * @param user The user to build filter inputs for
+ * @returns The default filter inputs for `user`
+ */
+export const defaultFilterInputs = (user: CommonUser): FInputs => ({
+  startDistance: 20,
+  endDistance: 20,
+  startTime: 4,
+  endTime: 4,
+  days: 0,
+  flexDays: 1,
+  startDate: user.coopStartDate ?? new Date(),
+  endDate: user.coopEndDate ?? new Date(),
+  dateOverlap: 0,
+  daysWorking: user.daysWorking,
+  detour: 30,
+  corridor: 0,
+});
+
+/**
+ * Generates a function that scores users from both sides: `currentUser`'s view of the user with
+ * `inputs`, and the user's view of `currentUser` with the user's own preferences. A user is only
+ * recommended if both directions pass, and the two scores are averaged so that both parties see
+ * each other with the same score.
+ *
+ * @param currentUser The user to generate a recommendation callback for
+ * @param inputs The filters of `currentUser`
+ * @param routes Road-network measurements by user id, from `currentUser`'s perspective
+ * @param preferencesOf Returns the filter inputs a candidate user matches with
+ * @param profile The weights and cutoffs to score with
+ * @returns A function that takes in a user and returns their mutual score with `currentUser`
+ */
+export const calculateMutualScore = <T extends CommonUser>(
+  currentUser: T,
+  inputs: FInputs,
+  routes?: Map<string, RouteMetrics>,
+  preferencesOf: (user: T) => FInputs = defaultFilterInputs,
+  profile: ScoringProfile = defaultScoringProfile
+): ((user: T) => Recommendation | undefined) => {
+  const forwardScore = calculateScore(
+    currentUser,
+    inputs,
+    "any",
+    routes,
+    profile
+  );
+
+  return (user: T) => {
+    const forward = forwardScore(user);
+    if (!forward) {
+      return undefined;
+    }
+
+    // routes are measured between the same two users, so they hold in both directions
+    const route = routes?.get(user.id);
+    const backward = calculateScore(
+      user,
+      preferencesOf(user),
+      "any",
+      route ? new Map([[currentUser.id, route]]) : undefined,
+      profile
+    )(currentUser);
+    if (!backward) {
+      return undefined;
+    }
+
+    return {
+      ...forward,
+      score: (forward.score + backward.score) / 2,
     };
   };
 };
 
+/**
+ * Scores `users` relative to `currentUser` and sorts them best match first.
+ *
+ * Every user is first scored with straight-line distances. A road distance is never shorter
+ * than the straight-line one, so when a routing provider is given only the users that passed
+ * the distance filters are looked up on the road network and scored again. The best of those
+ * also get a driver detour estimate. The "mutual" sort scores each pair from both sides.
+ *
+ * @param currentUser The user to generate recommendations for
+ * @param users The candidate users
+ * @param inputs The filter inputs to replace 'cutoffs'
+ * @param sort The parameter to score by
+ * @param provider Optional routing provider for road-network distances
+ * @param profile The weights and cutoffs to score with
+ * @param preferencesOf Returns the filter inputs a candidate matches with, for the "mutual" sort
+ * @returns The recommendations for users that passed every filter, sorted by `compareRecommendations`
+ */
+export const scoreUsers = async <T extends CommonUser>(
+  currentUser: T,
+  users: T[],
+  inputs: FInputs,
+  sort: string,
+  provider?: RoutingProvider,
+  profile: ScoringProfile = defaultScoringProfile,
+  preferencesOf: (user: T) => FInputs = defaultFilterInputs
+): Promise<Recommendation[]> => {
+  const scorer = (routes?: Map<string, RouteMetrics>) =>
+    sort === "mutual"
+      ? calculateMutualScore(
+          currentUser,
+          inputs,
+          routes,
+          preferencesOf,
+          profile
+        )
+      : calculateScore(currentUser, inputs, sort, routes, profile);
+
+  let recs = _.compact(users.map(scorer()));
+
+  if (provider && recs.length > 0) {
+    recs.sort((a, b) => a.score - b.score);
+    const passed = new Set(recs.map((rec) => rec.id));
+    const best = new Set(
+      recs.slice(0, MAX_DETOUR_LOOKUPS).map((rec) => rec.id)
+    );
+    const candidates = users.filter((user) => passed.has(user.id));
+    const [distances, detours] = await Promise.all([
+      roadPairDistances(provider, currentUser, candidates),
+      detourMinutesFor(
+        provider,
+        currentUser,
+        candidates.filter((user) => best.has(user.id))
+      ),
+    ]);
+    const routes = new Map<string, RouteMetrics>(
+      candidates.map((user) => [
+        user.id,
+        {
+          ...distances.get(user.id)!,
+          detourMinutes: detours.get(user.id),
+        },
+      ])
+    );
+    recs = _.compact(candidates.map(scorer(routes)));
+  }
+
+  return recs.sort(compareRecommendations);
+};
+
 export type GenerateUserInput = {
   role: Role;
   seatAvail?: number;
@@ -1,7 +1,8 @@
 import { User, EnhancedPublicUser } from "../utils/types";
-import { Request, Role } from "@prisma/client";
+import { Request } from "@prisma/client";
 import { trpc } from "./trpc";
 import { toast } from "react-toastify";
+import { chooseDriver, DrivingUser } from "./roles";
 
 interface RequestHandlers {
   handleAcceptRequest: (
@@ -20,20 +21,28 @@ interface RequestHandlers {
 export const createRequestHandlers = (
   utils: ReturnType<typeof trpc.useContext>
 ): RequestHandlers => {
-  const deleteRequest = trpc.user.requests.delete.useMutation({
-    onError: (error: any) => {
-      toast.error(`Something went wrong: ${error.message}`);
-    },
-    onSuccess: () => {
-      utils.user.requests.me.invalidate();
-      utils.user.recommendations.me.invalidate();
-    },
+  const onRequestChanged = () => {
+    utils.user.requests.me.invalidate();
+    utils.user.recommendations.me.invalidate();
+  };
+  const onRequestError = (error: any) => {
+    toast.error(`Something went wrong: ${error.message}`);
+  };
+  const acceptRequest = trpc.user.requests.accept.useMutation({
+    onError: onRequestError,
+    onSuccess: onRequestChanged,
+  });
+  const declineRequest = trpc.user.requests.decline.useMutation({
+    onError: onRequestError,
+    onSuccess: onRequestChanged,
+  });
+  const withdrawRequest = trpc.user.requests.withdraw.useMutation({
+    onError: onRequestError,
+    onSuccess: onRequestChanged,
   });
 
+  // failures are shown by handleAcceptRequest, which knows the request was already accepted
   const mutateGroup = trpc.user.groups.edit.useMutation({
-    onError: (error: any) => {
-      toast.error(`Something went wrong: ${error.message}`);
-    },
     onSuccess: () => {
       utils.user.requests.me.invalidate();
       utils.user.me.invalidate();
@@ -41,26 +50,35 @@ export const createRequestHandlers = (
   });
 
   const createGroup = trpc.user.groups.create.useMutation({
-    onError: (error: any) => {
-      toast.error(`Something went wrong: ${error.message}`);
-    },
     onSuccess: () => {
       utils.user.requests.me.invalidate();
       utils.user.me.invalidate();
     },
   });
 
-  const handleDelete = async (requestId: string) => {
-    await deleteRequest.mutateAsync({
-      invitationId: requestId,
-    });
+  // flexible riders may drive or ride, so work out who drives before anything else
+  const driverAndRider = (user: User, otherUser: EnhancedPublicUser) => {
+    const pair = chooseDriver<DrivingUser>(user, otherUser);
+    if (!pair) {
+      return null;
+    }
+    return pair.driver.id === user.id
+      ? { driver: user, rider: otherUser }
+      : { driver: otherUser, rider: user };
   };
 
   const validateRequestAcceptance = (
     user: User,
     otherUser: EnhancedPublicUser
   ): boolean => {
-    if (user.role === "DRIVER") {
+    const pair = driverAndRider(user, otherUser);
+    if (!pair) {
+      toast.error(
+        `Neither you nor ${otherUser.preferredName} can drive the other.`
+      );
+      return false;
+    }
+    if (pair.driver.id === user.id) {
       if (user.seatAvail === 0) {
         toast.error(
           `You do not have any space in your car to accept ${otherUser.preferredName}.`
@@ -86,34 +104,23 @@ export const createRequestHandlers = (
   };
 
   const initiateGroup = async (user: User, otherUser: EnhancedPublicUser) => {
-    if (user.role === Role.DRIVER) {
-      if (user.carpoolId) {
-        await mutateGroup.mutateAsync({
-          driverId: user.id,
-          riderId: otherUser.id,
-          add: true,
-          groupId: user.carpoolId,
-        });
-      } else {
-        await createGroup.mutateAsync({
-          driverId: user.id,
-          riderId: otherUser.id,
-        });
-      }
+    const pair = driverAndRider(user, otherUser);
+    if (!pair) {
+      return;
+    }
+    const { driver, rider } = pair;
+    if (driver.carpoolId) {
+      await mutateGroup.mutateAsync({
+        driverId: driver.id,
+        riderId: rider.id,
+        add: true,
+        groupId: driver.carpoolId,
+      });
     } else {
-      if (otherUser.carpoolId) {
-        await mutateGroup.mutateAsync({
-          driverId: otherUser.id,
-          riderId: user.id,
-          add: true,
-          groupId: otherUser.carpoolId,
-        });
-      } else {
-        await createGroup.mutateAsync({
-          driverId: otherUser.id,
-          riderId: user.id,
-        });
-      }
+      await createGroup.mutateAsync({
+        driverId: driver.id,
+        riderId: rider.id,
+      });
     }
   };
 
@@ -123,7 +130,23 @@ export const createRequestHandlers = (
     request: Request
   ) => {
     if (validateRequestAcceptance(user, otherUser)) {
-      await initiateGroup(user, otherUser);
+      // the group is only formed once the request is marked accepted
+      const accepted = await acceptRequest
+        .mutateAsync({ invitationId: request.id })
+        .then(() => true)
+        .catch(() => false);
+      if (!accepted) {
+        return;
+      }
+      try {
+        await initiateGroup(user, otherUser);
+      } catch (error: any) {
+        // e.g. the seats filled up since the check above, the request stays accepted
+        toast.error(
+          `${otherUser.preferredName}'s request was accepted, but you couldn't be put in a carpool group: ${error.message}`
+        );
+        return;
+      }
       toast.success(
         `${otherUser.preferredName}'s request to carpool with you has been accepted.`
       );
@@ -135,10 +158,18 @@ export const createRequestHandlers = (
     otherUser: EnhancedPublicUser,
     request: Request
   ) => {
-    await handleDelete(request.id);
-    toast.success(
-      `${otherUser.preferredName}'s request to carpool with you has been deleted.`
-    );
+    // the recipient declines a request, the sender withdraws it
+    if (request.toUserId === user.id) {
+      await declineRequest.mutateAsync({ invitationId: request.id });
+      toast.success(
+        `${otherUser.preferredName}'s request to carpool with you has been declined.`
+      );
+    } else {
+      await withdrawRequest.mutateAsync({ invitationId: request.id });
+      toast.success(
+        `Your request to carpool with ${otherUser.preferredName} has been withdrawn.`
+      );
+    }
   };
 
   return {
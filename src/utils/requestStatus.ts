@@ -0,0 +1,72 @@
+import { RequestStatus } from "@prisma/client";
+import dayjs from "dayjs";
+import { z } from "zod";
+
+/** Statuses of requests that still tie the pair together, waiting for an answer or accepted */
+export const OPEN_REQUEST_STATUSES: RequestStatus[] = [
+  RequestStatus.PENDING,
+  RequestStatus.ACCEPTED,
+];
+
+export const isOpenRequest = (request: { status: RequestStatus }): boolean =>
+  OPEN_REQUEST_STATUSES.includes(request.status);
+
+export const requestStatusLabels: Record<RequestStatus, string> = {
+  PENDING: "Pending",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+  WITHDRAWN: "Withdrawn",
+  EXPIRED: "Expired",
+};
+
+/**
+ * Describes how a request ended, such as "Declined Oct 3".
+ *
+ * @param request The request
+ * @returns The description, or undefined while the request is still pending
+ */
+export const requestOutcomeText = (request: {
+  status: RequestStatus;
+  dateResolved: Date | null;
+}): string | undefined => {
+  if (request.status === RequestStatus.PENDING) {
+    return undefined;
+  }
+  const label = requestStatusLabels[request.status];
+  return request.dateResolved
+    ? `${label} ${dayjs(request.dateResolved).format("MMM D")}`
+    : label;
+};
+
+/**
+ * Picks the most recent request between the user and `otherUser`, whichever of them sent it.
+ * Closed requests are kept, so the pair may have one in each direction.
+ *
+ * @param otherUser The other user, with their latest request in each direction
+ * @returns The newer of the two requests, if there are any
+ */
+export const currentRequest = <R extends { dateCreated: Date }>(otherUser: {
+  incomingRequest?: R;
+  outgoingRequest?: R;
+}): R | undefined => {
+  const { incomingRequest: incoming, outgoingRequest: outgoing } = otherUser;
+  if (!incoming || !outgoing) {
+    return incoming ?? outgoing;
+  }
+  return incoming.dateCreated.getTime() >= outgoing.dateCreated.getTime()
+    ? incoming
+    : outgoing;
+};
+
+/** When pending requests are followed up on, as set by admins */
+export const requestPolicySchema = z
+  .object({
+    reminderAfterDays: z.number().int().min(1).max(60), // days before the recipient is reminded
+    expireAfterDays: z.number().int().min(2).max(90), // days before the request expires
+  })
+  .refine((policy) => policy.expireAfterDays > policy.reminderAfterDays, {
+    message: "Requests have to expire after the reminder is sent",
+    path: ["expireAfterDays"],
+  });
+
+export type RequestPolicy = z.infer<typeof requestPolicySchema>;
@@ -0,0 +1,57 @@
+import { Role } from "@prisma/client";
+
+/** The fields needed to decide who drives */
+export interface DrivingUser {
+  id: string;
+  role: Role;
+  seatAvail: number;
+  canDrive?: boolean;
+}
+
+/**
+ * Checks whether a user could be the driver of a carpool: drivers, and riders who said they
+ * can also drive.
+ */
+export const canDrive = (
+  user: Pick<DrivingUser, "role" | "canDrive">
+): boolean =>
+  user.role === Role.DRIVER || (user.role === Role.RIDER && !!user.canDrive);
+
+/**
+ * Checks whether `driver` could drive `rider`. Only riders are driven, so a flexible rider can
+ * drive other riders but not a driver.
+ */
+export const canDriveFor = (driver: DrivingUser, rider: DrivingUser): boolean =>
+  driver.id !== rider.id && canDrive(driver) && rider.role === Role.RIDER;
+
+/**
+ * Checks whether two users could carpool, with either of them driving. Viewers aren't matched
+ * themselves but can see everyone else.
+ */
+export const canPairWith = (user: DrivingUser, other: DrivingUser): boolean =>
+  other.role !== Role.VIEWER &&
+  (user.role === Role.VIEWER ||
+    canDriveFor(user, other) ||
+    canDriveFor(other, user));
+
+/**
+ * Decides who drives when two users carpool together. When either could drive (two riders who
+ * can both drive), the one with more free seats drives, and `a` on a tie.
+ *
+ * @param a One user, usually the one accepting a request
+ * @param b The other user
+ * @returns The driver and rider, or null if neither can drive the other
+ */
+export const chooseDriver = <T extends DrivingUser>(
+  a: T,
+  b: T
+): { driver: T; rider: T } | null => {
+  const aDrives = canDriveFor(a, b);
+  const bDrives = canDriveFor(b, a);
+  if (aDrives && (!bDrives || a.seatAvail >= b.seatAvail)) {
+    return { driver: a, rider: b };
+  } else if (bDrives) {
+    return { driver: b, rider: a };
+  }
+  return null;
+};
@@ -0,0 +1,277 @@
+import { z } from "zod";
+import _ from "lodash";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { DayTimes } from "./types";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/** Minutes in a day, the exclusive upper bound of a time of day */
+const MINUTES_PER_DAY = 24 * 60;
+
+/** The timezone of users who haven't chosen one, where most co-ops are */
+export const DEFAULT_TIMEZONE = "America/New_York";
+
+/**
+ * Checks whether a string is an IANA timezone name this runtime knows about.
+ *
+ * @param name The timezone name, e.g. "America/Chicago"
+ * @returns True if dates can be converted to that timezone
+ */
+export const isValidTimezone = (name: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: name });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const timezoneSchema = z
+  .string()
+  .refine(isValidTimezone, { message: "Unknown timezone" });
+
+/**
+ * Finds how far ahead of UTC a timezone's clocks are.
+ *
+ * @param name The timezone name, unknown names are treated as `DEFAULT_TIMEZONE`
+ * @param at The moment to check, since daylight saving time changes the offset
+ * @returns The offset in minutes, e.g. -240 for New York in the summer
+ */
+export const timezoneOffset = (name: string, at: Date = new Date()): number =>
+  dayjs(at)
+    .tz(isValidTimezone(name) ? name : DEFAULT_TIMEZONE)
+    .utcOffset();
+
+const timeOfDay = z.number().int().min(0).lt(MINUTES_PER_DAY);
+
+/**
+ * A user's commute for each day of the week, index 0 is Sunday (like `daysWorking`). Times are
+ * wall-clock minutes after midnight in the user's own timezone, so 9am stays 9am across
+ * daylight saving time; a null day means the user doesn't go in.
+ */
+export const commuteScheduleSchema = z
+  .array(z.object({ arrive: timeOfDay, leave: timeOfDay }).nullable())
+  .length(7);
+
+export type CommuteSchedule = z.infer<typeof commuteScheduleSchema>;
+export type CommuteDay = NonNullable<CommuteSchedule[number]>;
+
+/** The fields a schedule can be read from */
+export interface ScheduledUser {
+  schedule?: unknown;
+  daysWorking: string;
+  startTime?: Date | null;
+  endTime?: Date | null;
+  timezone?: string;
+}
+
+/**
+ * Converts a time stored in a `@db.Time` column to minutes after midnight. The columns hold
+ * wall-clock times, which Prisma returns as that time of day in UTC.
+ *
+ * @param date The time, as returned by Prisma
+ * @returns Minutes after midnight
+ */
+export const minutesOfDay = (date: Date): number =>
+  date.getUTCHours() * 60 + date.getUTCMinutes();
+
+/**
+ * Converts minutes after midnight back to a time as stored in a `@db.Time` column.
+ *
+ * @param minutes Minutes after midnight
+ * @returns A date on 1970-01-01 at that time
+ */
+export const timeFromMinutes = (minutes: number): Date =>
+  new Date(Date.UTC(1970, 0, 1, Math.floor(minutes / 60), minutes % 60));
+
+/**
+ * Reads the time of day shown by a time picker, which works in the browser's local time.
+ *
+ * @param date The picked date
+ * @returns Wall-clock minutes after midnight
+ */
+export const pickedMinutes = (date: Date): number =>
+  date.getHours() * 60 + date.getMinutes();
+
+/**
+ * Builds a date a time picker shows as the given time of day.
+ *
+ * @param minutes Wall-clock minutes after midnight
+ * @returns Today at that local time
+ */
+export const pickerTime = (minutes: number): Date =>
+  dayjs().startOf("day").add(minutes, "minute").toDate();
+
+/**
+ * Builds a schedule from the single start/end time and `daysWorking` string that users had
+ * before schedules could vary by day.
+ *
+ * @param user The user to build a schedule for
+ * @returns The schedule, or null if the user has no start or end time
+ */
+export const legacySchedule = (user: ScheduledUser): CommuteSchedule | null => {
+  if (!user.startTime || !user.endTime) {
+    return null;
+  }
+  const day: CommuteDay = {
+    arrive: minutesOfDay(user.startTime),
+    leave: minutesOfDay(user.endTime),
+  };
+  const days = user.daysWorking.split(",");
+  return _.range(7).map((idx) => (days[idx] === "1" ? { ...day } : null));
+};
+
+/**
+ * Reads a user's schedule, falling back to their single start/end time if they haven't saved a
+ * per-day schedule.
+ *
+ * @param user The user to read the schedule of
+ * @returns The schedule, or null if the user has no commute times at all
+ */
+export const userSchedule = (user: ScheduledUser): CommuteSchedule | null => {
+  const parsed = commuteScheduleSchema.safeParse(user.schedule);
+  return parsed.success ? parsed.data : legacySchedule(user);
+};
+
+/**
+ * Summarizes a schedule in the older single-time fields, which are still used for display and
+ * day filters: the days going in, and the most common arrive and leave times.
+ *
+ * @param schedule The schedule to summarize
+ * @returns `daysWorking`, `startTime` and `endTime` values for the schedule
+ */
+export const scheduleSummary = (schedule: CommuteSchedule) => {
+  const days = _.compact(schedule);
+  const mostCommon = (times: number[]) =>
+    times.length === 0
+      ? undefined
+      : Number(_.maxBy(Object.entries(_.countBy(times)), ([, n]) => n)![0]);
+  const arrive = mostCommon(days.map((day) => day.arrive));
+  const leave = mostCommon(days.map((day) => day.leave));
+
+  return {
+    daysWorking: schedule.map((day) => (day ? "1" : "0")).join(","),
+    startTime: arrive === undefined ? null : timeFromMinutes(arrive),
+    endTime: leave === undefined ? null : timeFromMinutes(leave),
+  };
+};
+
+/**
+ * Checks whether a schedule has different times on different days.
+ *
+ * @param schedule The schedule to check
+ * @returns True if any two days going in have different arrive or leave times
+ */
+export const hasVaryingTimes = (schedule: CommuteSchedule): boolean =>
+  _.uniqWith(
+    _.compact(schedule).map((day) => [day.arrive, day.leave]),
+    _.isEqual
+  ).length > 1;
+
+/**
+ * Minutes between two times of day, going around midnight if that's shorter.
+ */
+const minutesBetween = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % MINUTES_PER_DAY;
+  return Math.min(difference, MINUTES_PER_DAY - difference);
+};
+
+/**
+ * Compares two schedules on the days both users go in.
+ *
+ * @param a One user's schedule
+ * @param b The other user's schedule
+ * @param offset How many minutes `b`'s clock is ahead of `a`'s, when they live in different
+ *               timezones
+ * @returns The number of shared days, and the average minutes between arrive times and between
+ *          leave times on those days (undefined if there are no shared days)
+ */
+export const compareSchedules = (
+  a: CommuteSchedule,
+  b: CommuteSchedule,
+  offset = 0
+): {
+  sharedDays: number;
+  arriveDifference?: number;
+  leaveDifference?: number;
+} => {
+  const shared = _.zip(a, b).flatMap(([dayA, dayB]) =>
+    dayA && dayB ? [[dayA, dayB]] : []
+  );
+  if (shared.length === 0) {
+    return { sharedDays: 0 };
+  }
+  return {
+    sharedDays: shared.length,
+    arriveDifference: _.meanBy(shared, ([dayA, dayB]) =>
+      minutesBetween(dayA.arrive, dayB.arrive - offset)
+    ),
+    leaveDifference: _.meanBy(shared, ([dayA, dayB]) =>
+      minutesBetween(dayA.leave, dayB.leave - offset)
+    ),
+  };
+};
+
+/**
+ * Finds how many minutes one user's clock is ahead of another's, for `compareSchedules`.
+ *
+ * @param a The timezone of the user whose clock times are compared against
+ * @param b The other user's timezone
+ * @param at The moment to compare at, which decides whether daylight saving time applies
+ * @returns Minutes `b`'s clock is ahead of `a`'s, 0 when they share a timezone
+ */
+export const clockOffset = (
+  a: string = DEFAULT_TIMEZONE,
+  b: string = DEFAULT_TIMEZONE,
+  at: Date = new Date()
+): number => (a === b ? 0 : timezoneOffset(b, at) - timezoneOffset(a, at));
+
+/**
+ * Builds a schedule from the profile form: the usual start and end time on every day going in,
+ * unless that day has its own times.
+ *
+ * @param daysWorking Whether the user goes in on each day, index 0 is Sunday
+ * @param usual The usual start and end time
+ * @param dayTimes Times for individual days, used where both are set
+ * @returns The schedule, or undefined if the usual times are missing
+ */
+export const scheduleFromTimes = (
+  daysWorking: boolean[],
+  usual: DayTimes,
+  dayTimes: DayTimes[] = []
+): CommuteSchedule | undefined => {
+  if (!usual.startTime || !usual.endTime) {
+    return undefined;
+  }
+  return _.range(7).map((idx) => {
+    if (!daysWorking[idx]) {
+      return null;
+    }
+    const own = dayTimes[idx];
+    const { startTime, endTime } = own?.startTime && own?.endTime ? own : usual;
+    return {
+      arrive: pickedMinutes(startTime!),
+      leave: pickedMinutes(endTime!),
+    };
+  });
+};
+
+/**
+ * Reads the times of each day of a schedule back into the profile form.
+ *
+ * @param schedule The schedule, or null if the user has none
+ * @returns The start and end time of each day, null on days not going in
+ */
+export const dayTimesFromSchedule = (
+  schedule: CommuteSchedule | null
+): DayTimes[] =>
+  _.range(7).map((idx) => {
+    const day = schedule?.[idx];
+    return {
+      startTime: day ? pickerTime(day.arrive) : null,
+      endTime: day ? pickerTime(day.leave) : null,
+    };
+  });
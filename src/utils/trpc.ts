@@ -32,7 +32,11 @@ export const trpc = createTRPCNext<AppRouter>({
           queries: {
             retry: (failureCount: number, error: any) => {
               const trcpErrorCode = error?.data?.code as TRPCError["code"];
-              if (trcpErrorCode === "NOT_FOUND") {
+              // retrying a rate limited query only pushes back when it can succeed
+              if (
+                trcpErrorCode === "NOT_FOUND" ||
+                trcpErrorCode === "TOO_MANY_REQUESTS"
+              ) {
                 return false;
               }
               if (failureCount < 3) {
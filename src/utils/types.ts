@@ -1,8 +1,9 @@
-import { Permission, Role } from "@prisma/client";
+import { CommuteLeg, Permission, RequestStatus, Role } from "@prisma/client";
 import { Status } from "@prisma/client";
 import { Feature } from "geojson";
 import type { AppRouter } from "../server/router";
 import { inferRouterOutputs } from "@trpc/server";
+import type { ScoreBreakdown } from "./recommendation";
 
 type RouterOutput = inferRouterOutputs<AppRouter>;
 export type TempUser = {
@@ -30,6 +31,7 @@ export type OnboardingFormInputs = {
   role: Role;
   status: Status;
   seatAvail: number;
+  canDrive: boolean; // riders only, also match them with riders they could drive
   companyName: string;
   profilePicture: string;
   companyAddress: string;
@@ -39,14 +41,24 @@ export type OnboardingFormInputs = {
   daysWorking: boolean[];
   startTime: Date | null;
   endTime: Date | null;
+  timeDiffers: boolean; // if true, dayTimes replace startTime/endTime on the days they're set
+  dayTimes: DayTimes[]; // index 0 is Sunday, like daysWorking
+  timezone: string; // IANA name, times are picked as wall-clock times there
+  legs: CommuteLeg;
   coopStartDate: Date | null;
   coopEndDate: Date | null;
   bio: string;
+  weeklyDigest: boolean;
+};
+export type DayTimes = {
+  startTime: Date | null;
+  endTime: Date | null;
 };
 export type UserInfo = {
   role: Role;
   status: Status;
   seatAvail: number;
+  canDrive: boolean;
   companyName: string;
   profilePicture: string;
   startAddress: string;
@@ -63,6 +75,11 @@ export type UserInfo = {
   startCoordLat: number;
   companyAddress: string;
   daysWorking: boolean[];
+  timeDiffers: boolean;
+  dayTimes: DayTimes[];
+  timezone: string;
+  legs: CommuteLeg;
+  weeklyDigest: boolean;
 };
 export type FiltersState = {
   days: number;
@@ -75,6 +92,8 @@ export type FiltersState = {
   startDate: Date;
   endDate: Date;
   dateOverlap: number;
+  detour: number;
+  corridor: number;
   favorites: boolean;
   messaged: boolean;
 };
@@ -116,6 +135,7 @@ export type PublicUser = {
   role: Role;
   status: Status;
   seatAvail: number;
+  canDrive: boolean;
   companyName: string;
   startPOILocation: string;
   startPOICoordLng: number;
@@ -126,6 +146,7 @@ export type PublicUser = {
   daysWorking: string;
   startTime: Date | null;
   endTime: Date | null;
+  legs: CommuteLeg;
   coopStartDate: Date | null;
   coopEndDate: Date | null;
   carpoolId: string | null;
@@ -133,6 +154,8 @@ export type PublicUser = {
 
 export type EnhancedPublicUser = PublicUser & {
   isFavorited: boolean;
+  detourMinutes?: number; // only set on recommendations
+  breakdown?: ScoreBreakdown; // only set on recommendations
   incomingRequest?: Request;
   outgoingRequest?: Request;
 };
@@ -167,6 +190,10 @@ export type Request = {
   conversation?: Conversation | null;
   conversationId: string | null;
   dateCreated: Date;
+  status: RequestStatus;
+  dateResolved: Date | null; // when it left PENDING
+  reminderSentAt: Date | null;
+  legacy: boolean;
 };
 
 export type Conversation = {
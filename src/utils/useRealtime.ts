@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  POLL_INTERVAL_MS,
+  RealtimeEvent,
+  subscribeToRealtime,
+} from "./realtime";
+
+/**
+ * Keeps a component's data fresh, from pushed events as they arrive and by polling. Events only
+ * reach connections to the server instance that published them (see src/server/realtime.ts), so
+ * polling goes on while connected to pick up changes made through other instances.
+ *
+ * @param onEvent Called with each event pushed to the signed-in user
+ * @param onPoll Called every POLL_INTERVAL_MS, and after reconnecting
+ * @param enabled false to neither listen nor poll, e.g. while signed out
+ * @returns Whether events are being received
+ */
+const useRealtime = (
+  onEvent: (event: RealtimeEvent) => void,
+  onPoll: () => void,
+  enabled = true
+) => {
+  const [connected, setConnected] = useState(false);
+  // keep the latest callbacks without reconnecting whenever they change
+  const onEventRef = useRef(onEvent);
+  const onPollRef = useRef(onPoll);
+  onEventRef.current = onEvent;
+  onPollRef.current = onPoll;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    return subscribeToRealtime(
+      (event) => onEventRef.current(event),
+      setConnected
+    );
+  }, [enabled]);
+
+  const hasConnected = useRef(false);
+  useEffect(() => {
+    if (connected) {
+      // catch up on whatever was missed while reconnecting
+      if (hasConnected.current) {
+        onPollRef.current();
+      }
+      hasConnected.current = true;
+    }
+  }, [connected]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const interval = setInterval(() => onPollRef.current(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return connected;
+};
+
+export default useRealtime;
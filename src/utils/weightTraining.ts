@@ -0,0 +1,135 @@
+import { ScoreBreakdown, ScoringProfile } from "./recommendation";
+
+/** The score components weights are learned for, in the order of a feature vector */
+export const FEATURE_KEYS = [
+  "startDistance",
+  "endDistance",
+  "startTime",
+  "endTime",
+  "days",
+  "overlap",
+] as const;
+
+export type FeatureKey = (typeof FEATURE_KEYS)[number];
+
+/** The component scores of a pair, as stored with a request outcome */
+export type PairFeatures = Record<FeatureKey, number>;
+
+/** A request and whether it was accepted */
+export type TrainingSample = {
+  features: PairFeatures;
+  accepted: boolean;
+};
+
+export type LogisticRegressionOptions = {
+  iterations: number;
+  learningRate: number;
+  l2: number; // penalty on large coefficients, keeps small datasets from overfitting
+};
+
+const defaultOptions: LogisticRegressionOptions = {
+  iterations: 2000,
+  learningRate: 0.5,
+  l2: 0.01,
+};
+
+/**
+ * Takes the component scores out of a score breakdown.
+ *
+ * @param breakdown The breakdown returned with a recommendation
+ * @returns The score of each component, between 0 and 1 where 0 is a perfect match
+ */
+export const breakdownFeatures = (breakdown: ScoreBreakdown): PairFeatures =>
+  Object.fromEntries(
+    FEATURE_KEYS.map((key) => [key, breakdown[key].score])
+  ) as PairFeatures;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Fits a logistic regression predicting whether a request is accepted from its pair's component
+ * scores, using batch gradient descent.
+ *
+ * @param samples The answered requests to learn from
+ * @param options Gradient descent settings
+ * @returns The intercept and a coefficient per feature; a negative coefficient means worse
+ *          scores in that component make a request less likely to be accepted
+ */
+export const fitLogisticRegression = (
+  samples: TrainingSample[],
+  options: LogisticRegressionOptions = defaultOptions
+): { intercept: number; coefficients: PairFeatures } => {
+  const xs = samples.map((sample) =>
+    FEATURE_KEYS.map((key) => sample.features[key])
+  );
+  const ys = samples.map((sample) => (sample.accepted ? 1 : 0));
+  let intercept = 0;
+  const coefficients: number[] = FEATURE_KEYS.map(() => 0);
+
+  for (let iter = 0; iter < options.iterations; iter++) {
+    let interceptGradient = 0;
+    const gradients = FEATURE_KEYS.map(() => 0);
+    xs.forEach((x, idx) => {
+      const prediction = sigmoid(
+        intercept +
+          x.reduce((sum, value, j) => sum + value * coefficients[j], 0)
+      );
+      const error = prediction - ys[idx];
+      interceptGradient += error;
+      x.forEach((value, j) => {
+        gradients[j] += error * value;
+      });
+    });
+
+    intercept -= (options.learningRate * interceptGradient) / samples.length;
+    coefficients.forEach((coefficient, j) => {
+      coefficients[j] -=
+        options.learningRate *
+        (gradients[j] / samples.length + options.l2 * coefficient);
+    });
+  }
+
+  return {
+    intercept,
+    coefficients: Object.fromEntries(
+      FEATURE_KEYS.map((key, j) => [key, coefficients[j]])
+    ) as PairFeatures,
+  };
+};
+
+/**
+ * Turns fitted coefficients into recommendation weights. Components whose worse scores made
+ * acceptance less likely get weight in proportion to that effect; the rest get none. The
+ * learned weights share the same total as `base` so they stay comparable with the detour
+ * weight and cutoffs, which are kept from `base`.
+ *
+ * @param coefficients The fitted coefficients
+ * @param base The profile to take the detour weight, cutoffs and total weight from
+ * @returns A new scoring profile
+ */
+export const profileFromCoefficients = (
+  coefficients: PairFeatures,
+  base: ScoringProfile
+): ScoringProfile => {
+  const effects = FEATURE_KEYS.map((key) => Math.max(0, -coefficients[key]));
+  const totalEffect = effects.reduce((sum, effect) => sum + effect, 0);
+  const baseTotal = FEATURE_KEYS.reduce(
+    (sum, key) => sum + base.weights[key],
+    0
+  );
+
+  const learned = Object.fromEntries(
+    FEATURE_KEYS.map((key, j) => [
+      key,
+      // with no signal at all, keep the existing weights
+      totalEffect === 0
+        ? base.weights[key]
+        : Number(((effects[j] / totalEffect) * baseTotal).toFixed(4)),
+    ])
+  ) as PairFeatures;
+
+  return {
+    weights: { ...base.weights, ...learned },
+    cutoffs: base.cutoffs,
+  };
+};